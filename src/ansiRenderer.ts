@@ -0,0 +1,225 @@
+import { StackTraceParser, ParsedStackTrace, StackTraceLine } from './stackTraceParser';
+import { FrameCycleDetector } from './frameCycles';
+
+/**
+ * Interface representing the options for rendering a stack trace for a terminal
+ */
+export interface AnsiRenderOptions {
+  // Truncate lines to this many columns; lines are not truncated if omitted
+  width?: number;
+  // Emit escape sequences (default true); pass `!process.env.NO_COLOR` to honor NO_COLOR
+  color?: boolean;
+}
+
+/**
+ * A piece of a rendered line with the style it is drawn in
+ */
+type Segment = [text: string, style?: string];
+
+/**
+ * Render parsed stack traces with ANSI escape sequences, in the colors of the web page
+ */
+export class AnsiRenderer {
+  /**
+   * SGR parameters for the CSS classes of `formatAsHtml`, as 24-bit colors
+   */
+  private static readonly STYLES: Record<string, string> = {
+    // .stacktrace-at, .stacktrace-unknown
+    'stacktrace-line': '38;2;139;148;158',
+    // .exception-text
+    'exception-text': '1;38;2;255;107;107',
+    // .at-keyword
+    'at-keyword': '38;2;121;192;255',
+    // .method-name, .frame-application .method-name
+    'method-name': '38;2;255;166;87',
+    'application-method-name': '1;38;2;255;213;128',
+    // .location
+    'location': '38;2;165;165;165',
+    // .module-name
+    'module-name': '38;2;110;118;129',
+    // .caused-by-keyword, .suppressed-keyword
+    'caused-by-keyword': '1;38;2;255;166;87',
+    'suppressed-keyword': '1;38;2;241;224;90',
+    // .more-text
+    'more-text': '3;38;2;121;192;255',
+    // .thread-name, .thread-details
+    'thread-name': '1;38;2;210;168;255',
+    'thread-details': '38;2;110;118;129',
+    // .thread-state-*
+    'thread-state-runnable': '1;38;2;126;231;135',
+    'thread-state-blocked': '1;38;2;255;107;107',
+    'thread-state-waiting': '1;38;2;241;224;90',
+    'thread-state-timed_waiting': '1;38;2;241;224;90',
+    // .stacktrace-lock, .lock-waiting_to_lock, .lock-parking
+    'lock-text': '38;2;165;165;165',
+    'lock-waiting': '38;2;255;155;155'
+  };
+
+  /**
+   * Control characters other than tabs and line breaks, including C1 controls; input
+   * text shows them escaped so that they cannot move the cursor or change styles
+   */
+  private static readonly CONTROL_CHARACTERS = /[\x00-\x08\x0b-\x1f\x7f-\x9f]/g;
+
+  /**
+   * Render a parsed stack trace as terminal text
+   */
+  public static format(parsedStackTrace: ParsedStackTrace, options: AnsiRenderOptions = {}): string {
+    if (!parsedStackTrace.hasStackTrace) {
+      return 'No stack trace found';
+    }
+
+    // Recursion is shown once, followed by how often it repeats
+    const folded = FrameCycleDetector.foldLines(parsedStackTrace.lines, parsedStackTrace.frameCycles);
+    const rendered: string[] = [];
+
+    for (const line of parsedStackTrace.lines) {
+      if (folded.hidden.has(line)) {
+        continue;
+      }
+      const segments = this.escapeControlCharacters(this.lineSegments(line));
+      rendered.push(this.renderSegments(this.truncate(segments, options.width), line.inherited === true, options.color !== false));
+
+      const cycle = folded.summaries.get(line);
+      if (cycle) {
+        const summary: Segment[] = [segments[0], [`... ${FrameCycleDetector.describe(cycle)}`, 'more-text']];
+        rendered.push(this.renderSegments(this.truncate(summary, options.width), false, options.color !== false));
+      }
+    }
+
+    return rendered.join('\n');
+  }
+
+  /**
+   * Split a parsed line into styled segments, like `formatLineAsHtml` does with spans
+   */
+  private static lineSegments(line: StackTraceLine): Segment[] {
+    // Terminals expand tabs to 8 columns, which wastes most of a narrow window
+    const indent: Segment = [line.content.match(/^\s*/)![0].replace(/\t/g, '    ')];
+    const content = line.content.trim();
+
+    switch (line.type) {
+      case 'exception':
+        return [indent, [content, 'exception-text']];
+      case 'at': {
+        if (line.language === 'python') {
+          return [
+            indent,
+            ['File', 'at-keyword'],
+            [' "', 'stacktrace-line'],
+            [line.fileName || '', 'location'],
+            ['", line ', 'stacktrace-line'],
+            [String(line.lineNumber), 'location'],
+            ...(line.methodName !== undefined
+              ? [[', in ', 'stacktrace-line'], [line.methodName, line.frameCategory === 'application' ? 'application-method-name' : 'method-name']] as Segment[]
+              : [])
+          ];
+        }
+        if (line.language === 'dotnet') {
+          return [
+            indent,
+            ['at', 'at-keyword'],
+            [' ', 'stacktrace-line'],
+            [line.className ? `${line.className}.${line.methodName}` : line.methodName || '', line.frameCategory === 'application' ? 'application-method-name' : 'method-name'],
+            [`(${line.methodParameters || ''})`, 'stacktrace-line'],
+            ...(line.fileName !== undefined
+              ? [[' in ', 'stacktrace-line'], [`${line.fileName}:line ${line.lineNumber}`, 'location']] as Segment[]
+              : [])
+          ];
+        }
+        const location = `${line.fileName || ''}${line.lineNumber ? ':' + line.lineNumber : ''}`;
+        return [
+          indent,
+          ['at', 'at-keyword'],
+          [' ', 'stacktrace-line'],
+          [StackTraceParser.formatFrameQualifier(line), 'module-name'],
+          [`${line.className || ''}.${line.methodName || ''}`, line.frameCategory === 'application' ? 'application-method-name' : 'method-name'],
+          ['(', 'stacktrace-line'],
+          [location, 'location'],
+          [')', 'stacktrace-line']
+        ];
+      }
+      case 'caused_by':
+        if (line.language === 'dotnet') {
+          return [indent, ['--->', 'caused-by-keyword'], [' '], [content.replace(/^--->\s*/, ''), 'exception-text']];
+        }
+        return [indent, ['Caused by:', 'caused-by-keyword'], [' '], [content.replace(/^Caused by:\s*/, ''), 'exception-text']];
+      case 'suppressed':
+        return [indent, ['Suppressed:', 'suppressed-keyword'], [' '], [content.replace(/^Suppressed:\s*/, ''), 'exception-text']];
+      case 'more':
+        return [indent, [content, 'more-text']];
+      case 'traceback':
+      case 'chain':
+        return [indent, [content, 'caused-by-keyword']];
+      case 'thread':
+        return [indent, [`"${line.threadName || ''}"`, 'thread-name'], [content.substring((line.threadName || '').length + 2), 'thread-details']];
+      case 'thread_state': {
+        const state = line.threadState || '';
+        return [
+          indent,
+          ['java.lang.Thread.State:', 'at-keyword'],
+          [' '],
+          [state, `thread-state-${state.toLowerCase()}`],
+          [content.replace(/^java\.lang\.Thread\.State:\s*[A-Z_]+/, ''), 'stacktrace-line']
+        ];
+      }
+      case 'lock':
+        return [indent, [content, line.lockAction === 'waiting_to_lock' || line.lockAction === 'parking' ? 'lock-waiting' : 'lock-text']];
+      default:
+        return [indent, [content, 'stacktrace-line']];
+    }
+  }
+
+  /**
+   * Replace the control characters of segments with `\xNN` escapes
+   */
+  private static escapeControlCharacters(segments: Segment[]): Segment[] {
+    return segments.map(([text, style]): Segment => [
+      text.replace(this.CONTROL_CHARACTERS, char => `\\x${char.charCodeAt(0).toString(16).padStart(2, '0')}`),
+      style
+    ]);
+  }
+
+  /**
+   * Cut segments to a number of columns, ending truncated lines with an ellipsis
+   */
+  private static truncate(segments: Segment[], width: number | undefined): Segment[] {
+    const length = segments.reduce((total, [text]) => total + text.length, 0);
+    if (width === undefined || width < 1 || length <= width) {
+      return segments;
+    }
+
+    const truncated: Segment[] = [];
+    let remaining = width - 1;
+    for (const [text, style] of segments) {
+      if (remaining <= 0) {
+        break;
+      }
+      truncated.push([text.substring(0, remaining), style]);
+      remaining -= text.length;
+    }
+    truncated.push(['…']);
+
+    return truncated;
+  }
+
+  /**
+   * Join segments into a line, wrapping styled segments in escape sequences
+   */
+  private static renderSegments(segments: Segment[], dim: boolean, color: boolean): string {
+    if (!color) {
+      return segments.map(([text]) => text).join('');
+    }
+
+    return segments
+      .map(([text, style]) => {
+        if (text === '') {
+          return '';
+        }
+        // Reconstructed frames are dimmed, as the page shows them with reduced opacity
+        const parameters = [dim ? '2' : '', style ? this.STYLES[style] || '' : ''].filter(parameter => parameter !== '').join(';');
+        return parameters ? `\x1b[${parameters}m${text}\x1b[0m` : text;
+      })
+      .join('');
+  }
+}
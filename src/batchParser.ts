@@ -0,0 +1,78 @@
+import { StackTraceParser, ParseOptions, ParsedStackTrace, ThrowableNode, ExtractedStackTrace } from './stackTraceParser';
+import { StackTraceFingerprinter, StackTraceFingerprint } from './stackTraceFingerprint';
+import { StackTraceSummarizer, StackTraceSummary } from './stackTraceSummary';
+
+/**
+ * Interface representing one stack trace found in a log, with its position in the input
+ */
+export interface BatchResult {
+  // Order of the stack trace in the input, from 0
+  index: number;
+  start: number;
+  end: number;
+  startLine: number;
+  endLine: number;
+  extractedStackTrace: string;
+  parsedStackTrace: ParsedStackTrace;
+  throwableTree: ThrowableNode | null;
+  fingerprint: StackTraceFingerprint | null;
+  summary: StackTraceSummary | null;
+}
+
+/**
+ * Parse every stack trace of an exported log file. Plain logs, Docker JSON logs and
+ * newline-delimited JSON log events all work, since the extractor finds stack traces
+ * serialized in JSON string fields; those keep the line of their event as line range.
+ */
+export class BatchParser {
+  /**
+   * Parse the stack traces of a log in input order. Extraction is done up front, but
+   * each stack trace is only parsed when the iterator reaches it.
+   */
+  public static *parseAll(input: string, options: ParseOptions = {}): Generator<BatchResult> {
+    const extractedStackTraces = StackTraceParser.extractAllStackTraces(input, options);
+
+    for (let index = 0; index < extractedStackTraces.length; index++) {
+      yield this.parseExtracted(extractedStackTraces[index], index, options);
+    }
+  }
+
+  /**
+   * Serialize results as NDJSON, one line per result. Results are pulled as the stream is
+   * read, so the first lines reach the client while later stack traces are being parsed.
+   */
+  public static toNdjsonStream(results: Iterator<BatchResult>): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+
+    return new ReadableStream<Uint8Array>({
+      pull(controller) {
+        const next = results.next();
+        if (next.done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(JSON.stringify(next.value) + '\n'));
+        }
+      }
+    });
+  }
+
+  /**
+   * Parse, structure and fingerprint one extracted stack trace
+   */
+  private static parseExtracted(extracted: ExtractedStackTrace, index: number, options: ParseOptions): BatchResult {
+    const parsedStackTrace = StackTraceParser.parseStackTrace(extracted.text, options, extracted.lineLocations);
+
+    return {
+      index,
+      start: extracted.start,
+      end: extracted.end,
+      startLine: extracted.startLine,
+      endLine: extracted.endLine,
+      extractedStackTrace: parsedStackTrace.extractedText,
+      parsedStackTrace,
+      throwableTree: StackTraceParser.buildThrowableTree(parsedStackTrace),
+      fingerprint: StackTraceFingerprinter.fingerprint(parsedStackTrace),
+      summary: StackTraceSummarizer.summarize(parsedStackTrace)
+    };
+  }
+}
@@ -0,0 +1,281 @@
+import type { StackTraceLine, ThrowableNode, LineRange } from './stackTraceParser';
+
+/**
+ * Parse .NET exception traces as `Exception.ToString()` prints them:
+ *
+ * ```
+ * System.InvalidOperationException: Failed to save order
+ *  ---> System.IO.IOException: Disk full
+ *    at Acme.Storage.FileStore.Write(String path, Byte[] data) in C:\src\Acme\Storage\FileStore.cs:line 42
+ *    --- End of inner exception stack trace ---
+ *    at Acme.Orders.OrderService.Save(Order order) in C:\src\Acme\Orders\OrderService.cs:line 88
+ * ```
+ *
+ * All headers come first, outermost first, then the frames of the innermost exception;
+ * every `--- End of inner exception stack trace ---` marker hands over to the frames of
+ * the exception enclosing it. .NET Framework prints the inner exceptions on the header
+ * line instead: `Outer: message ---> Inner: message`.
+ */
+export class DotNetStackTraceParser {
+  public static readonly language = 'dotnet';
+
+  // Header line: System.InvalidOperationException: msg, optionally after the console's
+  // "Unhandled exception." and with the error code of Win32 and socket exceptions:
+  // System.Net.Sockets.SocketException (111): Connection refused
+  private static readonly HEADER_PATTERN = /^(?:Unhandled [Ee]xception[.:]\s+)?([A-Za-z_][\w.`+]*(?:Exception|Error))(?: \(([^()]*)\))?(?::(?: (.*))?)?$/;
+
+  // Inner exception line of .NET Core: ` ---> System.IO.IOException: Disk full`
+  private static readonly INNER_PATTERN = /^\s*---> (.+)$/;
+
+  // Frame line: at Namespace.Type.Method(String path, Int32 count) in C:\src\File.cs:line 42
+  private static readonly FRAME_PATTERN = /^(\s*)at ([^\s(]+)\(([^()]*)\)(?: in (.+):line (\d+))?\s*$/;
+
+  // Parameters as .NET prints them, `Type name` pairs, unlike `(Native Method)` of Java
+  private static readonly PARAMETERS_PATTERN = /^[\w.`[\]<>&*]+ \w+(?:, [\w.`[\]<>&*]+ \w+)*$/;
+
+  private static readonly END_OF_INNER_PATTERN = /^\s*--- End of inner exception stack trace ---\s*$/;
+
+  // Boundary of an awaited or rethrown exception: "--- End of stack trace from previous
+  // location ---", "... from previous location where exception was thrown ---" before .NET 5
+  private static readonly END_OF_LOCATION_PATTERN = /^\s*--- End of stack trace from previous location(?: where exception was thrown)? ---\s*$/;
+
+  /**
+   * Find .NET traces among the lines of an input: runs of header, frame and marker lines
+   * that have something only .NET prints, so that Java traces are left to the Java parser
+   */
+  public static findBlocks(lines: string[]): LineRange[] {
+    const blocks: LineRange[] = [];
+    let start = -1;
+    let end = -1;
+    let hasFrames = false;
+
+    const closeBlock = () => {
+      if (start >= 0 && this.containsStackTrace(lines.slice(start, end).join('\n'))) {
+        blocks.push({ start, end });
+      }
+      start = -1;
+      hasFrames = false;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const type = this.parseLine(lines[i])?.type;
+
+      if (type !== undefined && type !== 'unknown') {
+        // A new top-level exception after frames starts the next trace
+        if (start >= 0 && hasFrames && type === 'exception') {
+          closeBlock();
+        }
+        if (start < 0) {
+          start = i;
+        }
+        end = i + 1;
+        hasFrames = hasFrames || type === 'at';
+      } else if (start >= 0 && type === 'unknown') {
+        // Multi-line messages: the trace goes on if a trace line follows shortly
+        const next = lines.slice(i + 1, i + 3).map(line => this.parseLine(line)?.type);
+        if (!next.some(nextType => nextType !== undefined && nextType !== 'unknown')) {
+          closeBlock();
+        }
+      }
+    }
+
+    closeBlock();
+    return blocks;
+  }
+
+  /**
+   * Check whether a text holds a .NET trace: an exception header and a frame, and at
+   * least one thing Java does not print, such as a `:line N` location, `Type name`
+   * parameters, empty parentheses, an inner exception or an end-of-trace marker
+   */
+  public static containsStackTrace(text: string): boolean {
+    let hasHeader = false;
+    let hasFrame = false;
+    let hasDotNetEvidence = false;
+
+    for (const line of text.split(/\r?\n/)) {
+      const parsed = this.parseLine(line);
+      switch (parsed?.type) {
+        case 'exception':
+          hasHeader = true;
+          hasDotNetEvidence = hasDotNetEvidence || / ---> /.test(line);
+          break;
+        case 'caused_by':
+        case 'chain':
+          hasDotNetEvidence = true;
+          break;
+        case 'at': {
+          hasFrame = true;
+          const parameters = parsed.methodParameters || '';
+          hasDotNetEvidence = hasDotNetEvidence || parsed.lineNumber !== undefined || parameters === '' ||
+            (parameters !== 'Native Method' && parameters !== 'Unknown Source' && this.PARAMETERS_PATTERN.test(parameters));
+          break;
+        }
+      }
+    }
+
+    return hasHeader && hasFrame && hasDotNetEvidence;
+  }
+
+  /**
+   * Parse the lines of a .NET trace
+   */
+  public static parseLines(lines: string[]): (StackTraceLine | null)[] {
+    return lines.map(line => this.parseLine(line));
+  }
+
+  /**
+   * Build the inner exception hierarchy. Headers nest outermost first; frames belong to
+   * the innermost exception whose trace has not ended yet.
+   */
+  public static buildThrowableTree(lines: StackTraceLine[]): ThrowableNode | null {
+    // Exceptions from the outermost to the innermost, and the one frames belong to
+    const chain: ThrowableNode[] = [];
+    let open = -1;
+
+    const appendChain = (header: StackTraceLine, text: string) => {
+      for (const { exceptionClass, message } of this.splitInnerExceptions(text)) {
+        const node: ThrowableNode = {
+          kind: chain.length === 0 ? 'root' : 'cause',
+          exceptionClass,
+          message,
+          header,
+          frames: [],
+          moreCount: 0,
+          suppressed: []
+        };
+        if (chain.length > 0) {
+          chain[chain.length - 1].cause = node;
+        }
+        chain.push(node);
+      }
+      open = chain.length - 1;
+    };
+
+    for (const line of lines) {
+      const current = chain[open];
+
+      switch (line.type) {
+        case 'exception':
+          if (chain.length === 0) {
+            appendChain(line, line.content.trim().replace(/^Unhandled [Ee]xception[.:]\s+/, ''));
+          } else {
+            this.appendMessageLine(current, line);
+          }
+          break;
+        case 'caused_by':
+          if (chain.length > 0) {
+            appendChain(line, line.content.replace(this.INNER_PATTERN, '$1'));
+          }
+          break;
+        case 'at':
+          current?.frames.push(line);
+          break;
+        case 'chain':
+          if (this.END_OF_INNER_PATTERN.test(line.content) && open > 0) {
+            open--;
+          }
+          break;
+        default:
+          this.appendMessageLine(current, line);
+      }
+    }
+
+    return chain[0] || null;
+  }
+
+  /**
+   * Parse a single line, or return null for a blank line
+   */
+  private static parseLine(line: string): StackTraceLine | null {
+    if (line.trim() === '') {
+      return null;
+    }
+
+    const indent = line.length - line.trimStart().length;
+
+    const frameMatch = line.match(this.FRAME_PATTERN);
+    if (frameMatch) {
+      return {
+        type: 'at',
+        content: line,
+        language: this.language,
+        ...this.splitMethod(frameMatch[2]),
+        methodParameters: frameMatch[3],
+        fileName: frameMatch[4],
+        lineNumber: frameMatch[5] !== undefined ? parseInt(frameMatch[5]) : undefined,
+        indent
+      };
+    }
+
+    if (this.END_OF_INNER_PATTERN.test(line) || this.END_OF_LOCATION_PATTERN.test(line)) {
+      return { type: 'chain', content: line, indent };
+    }
+
+    const innerMatch = line.match(this.INNER_PATTERN);
+    const headerMatch = (innerMatch ? innerMatch[1] : line.trim()).match(this.HEADER_PATTERN);
+    if (headerMatch) {
+      return {
+        type: innerMatch ? 'caused_by' : 'exception',
+        content: line,
+        language: this.language,
+        exceptionClass: headerMatch[1],
+        message: headerMatch[3],
+        indent
+      };
+    }
+
+    return { type: 'unknown', content: line, indent };
+  }
+
+  /**
+   * Split the header text of an exception with any inner exceptions on the same line
+   * into one class and message per exception, outermost first
+   */
+  private static splitInnerExceptions(text: string): { exceptionClass: string; message?: string }[] {
+    const exceptions: { exceptionClass: string; message?: string }[] = [];
+
+    for (const part of text.split(' ---> ')) {
+      const headerMatch = part.trim().match(this.HEADER_PATTERN);
+      if (headerMatch || exceptions.length === 0) {
+        exceptions.push({ exceptionClass: headerMatch ? headerMatch[1] : part.trim(), message: headerMatch?.[3] });
+      } else {
+        // An arrow inside a message
+        const last = exceptions[exceptions.length - 1];
+        last.message = `${last.message ?? ''} ---> ${part}`;
+      }
+    }
+
+    return exceptions;
+  }
+
+  /**
+   * Split `Namespace.Type.Method` into type and method; constructors are `.ctor` and
+   * `.cctor`, so `Acme.Order..ctor` is the constructor of `Acme.Order`
+   */
+  private static splitMethod(fullMethod: string): Pick<StackTraceLine, 'className' | 'methodName'> {
+    const constructorMatch = fullMethod.match(/^(.*)\.(\.c?ctor)$/);
+    if (constructorMatch) {
+      return { className: constructorMatch[1], methodName: constructorMatch[2] };
+    }
+
+    const lastDotIndex = fullMethod.lastIndexOf('.');
+    return {
+      className: lastDotIndex > 0 ? fullMethod.substring(0, lastDotIndex) : '',
+      methodName: lastDotIndex > 0 ? fullMethod.substring(lastDotIndex + 1) : fullMethod
+    };
+  }
+
+  /**
+   * Treat lines between a header and the first frame as a multi-line message of the
+   * innermost exception
+   */
+  private static appendMessageLine(node: ThrowableNode | undefined, line: StackTraceLine): void {
+    if (!node || node.frames.length > 0 || node.cause) {
+      return;
+    }
+
+    const text = line.content.trim();
+    node.message = node.message ? `${node.message}\n${text}` : text;
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Where a run of escaped text was found: inside a quoted string, inside a string whose
+ * closing quote is missing (truncated JSON), or outside of any quotes
+ */
+export type EscapedRunKind = 'quoted' | 'unterminated' | 'bare';
+
+/**
+ * Interface representing a run of text containing an escaped line break; offsets point
+ * into the input (end exclusive) and exclude the quotes of quoted strings
+ */
+export interface EscapedRun {
+  kind: EscapedRunKind;
+  start: number;
+  end: number;
+}
+
+/**
+ * Find the text in which serialized stack traces can hide: JSON string values, strings
+ * cut off by truncated logs and escaped text outside of quotes. The input is scanned
+ * exactly once, so the cost is linear in its length whatever it contains.
+ */
+export class EscapedStringTokenizer {
+  /**
+   * Split the input into quoted strings and the text between them, keeping the runs that
+   * contain an escaped line break. Strings never span raw line breaks: a quote left open
+   * at the end of a line belongs to a truncated string, not to the next line.
+   */
+  public static tokenize(input: string): EscapedRun[] {
+    const runs: EscapedRun[] = [];
+    let inString = false;
+    let runStart = 0;
+    let hasLineBreakEscape = false;
+
+    const closeRun = (kind: EscapedRunKind, end: number, nextStart: number) => {
+      if (hasLineBreakEscape && end > runStart) {
+        runs.push({ kind, start: runStart, end });
+      }
+      runStart = nextStart;
+      hasLineBreakEscape = false;
+    };
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input.charCodeAt(i);
+
+      if (char === 0x5c /* \ */) {
+        const next = input.charCodeAt(i + 1);
+        if (next === 0x0a || next === 0x0d || Number.isNaN(next)) {
+          // A backslash at the end of a line escapes nothing
+          continue;
+        }
+        hasLineBreakEscape = hasLineBreakEscape || this.isLineBreakEscape(input, i);
+        // Skip the escaped character, so that `\"` does not end a string
+        i++;
+      } else if (char === 0x22 /* " */) {
+        closeRun(inString ? 'quoted' : 'bare', i, i + 1);
+        inString = !inString;
+      } else if (char === 0x0a || char === 0x0d) {
+        closeRun(inString ? 'unterminated' : 'bare', i, i + 1);
+        inString = false;
+      }
+    }
+    closeRun(inString ? 'unterminated' : 'bare', input.length, input.length);
+
+    return runs;
+  }
+
+  /**
+   * Check whether the escape sequence at an index decodes to a line break:
+   * `\n`, `\r`, `\u000a`, `\u000d`, `\x0a` or `\x0d`
+   */
+  private static isLineBreakEscape(input: string, index: number): boolean {
+    const sequence = input.substring(index + 1, index + 6).toLowerCase();
+    return sequence[0] === 'n' ||
+      sequence[0] === 'r' ||
+      sequence === 'u000a' ||
+      sequence === 'u000d' ||
+      sequence.startsWith('x0a') ||
+      sequence.startsWith('x0d');
+  }
+}
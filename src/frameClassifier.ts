@@ -0,0 +1,218 @@
+import type { StackTraceLine } from './stackTraceParser';
+
+/**
+ * Category of an `at` frame: the team's own code, the JDK (or the standard library of
+ * another language), or a third-party framework
+ */
+export type FrameCategory = 'application' | 'jdk' | 'framework';
+
+/**
+ * Interface representing the options for classifying frames
+ */
+export interface FrameClassifierOptions {
+  // Package prefixes of the application's own code, e.g. `com.example`
+  applicationPackages?: string[];
+}
+
+/**
+ * Interface representing the classification of a single frame
+ */
+export interface FrameClassification {
+  frameCategory: FrameCategory;
+  framework?: string;
+}
+
+/**
+ * Classify `at` frames as application, JDK or framework code
+ */
+export class FrameClassifier {
+  /**
+   * Generated classes, recognized by class name before any package prefix
+   */
+  private static readonly GENERATED_CLASS_PATTERNS: [RegExp, string][] = [
+    [/\$\$(?:EnhancerBy|FastClassBy)[A-Za-z]*CGLIB\$\$|\$\$SpringCGLIB\$\$|\$\$EnhancerByCGLIB\$\$/, 'CGLIB'],
+    [/^(?:com\.sun\.proxy|jdk\.proxy\d+)\.|\$Proxy\d+$/, 'Proxy'],
+    [/\$HibernateProxy\$|\$ByteBuddy\$/, 'ByteBuddy'],
+    [/^(?:jdk\.internal\.reflect|sun\.reflect|java\.lang\.reflect|java\.lang\.invoke)\./, 'Reflection']
+  ];
+
+  /**
+   * Well-known framework package prefixes; checked before the JDK prefixes so that
+   * `javax.servlet` counts as a framework
+   */
+  private static readonly FRAMEWORK_PACKAGES: [string, string][] = [
+    ['org.springframework', 'Spring'],
+    ['org.apache.catalina', 'Tomcat'],
+    ['org.apache.coyote', 'Tomcat'],
+    ['org.apache.tomcat', 'Tomcat'],
+    ['io.netty', 'Netty'],
+    ['reactor', 'Reactor'],
+    ['org.eclipse.jetty', 'Jetty'],
+    ['io.undertow', 'Undertow'],
+    ['javax.servlet', 'Servlet'],
+    ['jakarta', 'Jakarta EE'],
+    ['org.hibernate', 'Hibernate'],
+    ['com.zaxxer.hikari', 'HikariCP'],
+    ['com.fasterxml.jackson', 'Jackson'],
+    ['org.aspectj', 'AspectJ'],
+    ['org.junit', 'JUnit'],
+    ['junit', 'JUnit'],
+    ['kotlin', 'Kotlin'],
+    ['kotlinx', 'Kotlin'],
+    ['scala', 'Scala'],
+    ['groovy', 'Groovy'],
+    ['org.codehaus.groovy', 'Groovy']
+  ];
+
+  private static readonly JDK_PACKAGES = ['java', 'javax', 'jdk', 'sun', 'com.sun'];
+
+  /**
+   * Well-known .NET library namespaces; checked before the runtime namespaces so that
+   * ASP.NET Core counts as a framework
+   */
+  private static readonly DOTNET_FRAMEWORKS: [string, string][] = [
+    ['Microsoft.AspNetCore', 'ASP.NET Core'],
+    ['Microsoft.EntityFrameworkCore', 'EF Core'],
+    ['Microsoft.Extensions', 'Microsoft.Extensions'],
+    ['Newtonsoft.Json', 'Json.NET'],
+    ['Npgsql', 'Npgsql'],
+    ['Dapper', 'Dapper'],
+    ['Polly', 'Polly'],
+    ['MediatR', 'MediatR'],
+    ['Castle.Proxies', 'Proxy'],
+    ['Xunit', 'xUnit'],
+    ['NUnit', 'NUnit']
+  ];
+
+  private static readonly DOTNET_RUNTIME_NAMESPACES = ['System', 'Microsoft'];
+
+  /**
+   * Display names of well-known Python packages; other installed packages are named
+   * after their top-level module
+   */
+  private static readonly PYTHON_FRAMEWORKS: Record<string, string> = {
+    django: 'Django',
+    flask: 'Flask',
+    werkzeug: 'Werkzeug',
+    fastapi: 'FastAPI',
+    starlette: 'Starlette',
+    uvicorn: 'Uvicorn',
+    gunicorn: 'Gunicorn',
+    celery: 'Celery',
+    sqlalchemy: 'SQLAlchemy',
+    pydantic: 'Pydantic',
+    requests: 'Requests',
+    aiohttp: 'aiohttp'
+  };
+
+  /**
+   * Classify a single `at` frame
+   */
+  public static classifyFrame(line: StackTraceLine, options: FrameClassifierOptions = {}): FrameClassification {
+    if (line.language === 'python') {
+      return this.classifyPythonFrame(line, options);
+    }
+    if (line.language === 'dotnet') {
+      return this.classifyDotNetFrame(line, options);
+    }
+
+    const className = line.className || '';
+
+    for (const [pattern, framework] of this.GENERATED_CLASS_PATTERNS) {
+      if (pattern.test(className)) {
+        return { frameCategory: 'framework', framework };
+      }
+    }
+
+    const applicationPackages = options.applicationPackages || [];
+    if (applicationPackages.some(prefix => this.isInPackage(className, prefix))) {
+      return { frameCategory: 'application' };
+    }
+
+    for (const [prefix, framework] of this.FRAMEWORK_PACKAGES) {
+      if (this.isInPackage(className, prefix)) {
+        return { frameCategory: 'framework', framework };
+      }
+    }
+
+    const moduleName = line.moduleName || '';
+    if (this.JDK_PACKAGES.some(prefix => this.isInPackage(className, prefix)) ||
+        moduleName.startsWith('java.') || moduleName.startsWith('jdk.')) {
+      return { frameCategory: 'jdk' };
+    }
+
+    // Without configured packages, anything unrecognized is assumed to be application code
+    return { frameCategory: applicationPackages.length > 0 ? 'framework' : 'application' };
+  }
+
+  /**
+   * Classify a .NET frame by the namespace of its type; the base class library counts as
+   * the runtime
+   */
+  private static classifyDotNetFrame(line: StackTraceLine, options: FrameClassifierOptions): FrameClassification {
+    const className = line.className || '';
+    const applicationPackages = options.applicationPackages || [];
+
+    if (applicationPackages.some(prefix => this.isInPackage(className, prefix))) {
+      return { frameCategory: 'application' };
+    }
+
+    for (const [prefix, framework] of this.DOTNET_FRAMEWORKS) {
+      if (this.isInPackage(className, prefix)) {
+        return { frameCategory: 'framework', framework };
+      }
+    }
+
+    if (this.DOTNET_RUNTIME_NAMESPACES.some(prefix => this.isInPackage(className, prefix))) {
+      return { frameCategory: 'jdk' };
+    }
+
+    return { frameCategory: applicationPackages.length > 0 ? 'framework' : 'application' };
+  }
+
+  /**
+   * Classify a Python frame by its file: installed packages are frameworks and the
+   * standard library counts as the runtime. Application packages may match any part of
+   * the module path, as the path is usually absolute, e.g. `app.orders.views` for
+   * `/app/orders/views.py`.
+   */
+  private static classifyPythonFrame(line: StackTraceLine, options: FrameClassifierOptions): FrameClassification {
+    const moduleName = line.className || '';
+    const path = (line.fileName || '').replace(/\\/g, '/');
+    const applicationPackages = options.applicationPackages || [];
+    const moduleParts = moduleName.split('.');
+
+    if (applicationPackages.some(prefix => moduleParts.some((_, index) => this.isInPackage(moduleParts.slice(index).join('.'), prefix)))) {
+      return { frameCategory: 'application' };
+    }
+
+    if (/\/(?:site|dist)-packages\//.test(path)) {
+      return { frameCategory: 'framework', framework: this.PYTHON_FRAMEWORKS[moduleParts[0]] || moduleParts[0] };
+    }
+
+    if (/^<frozen /.test(path) || /\/lib\/python\d+(?:\.\d+)?\//i.test(path) || /\/python\d*\/lib\//i.test(path)) {
+      return { frameCategory: 'jdk' };
+    }
+
+    return { frameCategory: applicationPackages.length > 0 ? 'framework' : 'application' };
+  }
+
+  /**
+   * Parse a comma or whitespace separated list of package prefixes
+   */
+  public static parsePackageList(value: string | undefined): string[] {
+    return (value || '')
+      .split(/[\s,]+/)
+      .map(prefix => prefix.replace(/\.\*?$/, ''))
+      .filter(prefix => prefix !== '');
+  }
+
+  /**
+   * Check whether a class belongs to a package prefix, on package boundaries only
+   */
+  private static isInPackage(className: string, prefix: string): boolean {
+    const normalizedPrefix = prefix.replace(/\.\*?$/, '');
+    return normalizedPrefix !== '' &&
+      (className === normalizedPrefix || className.startsWith(normalizedPrefix + '.'));
+  }
+}
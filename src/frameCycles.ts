@@ -0,0 +1,135 @@
+import type { StackTraceLine } from './stackTraceParser';
+
+/**
+ * Interface representing a block of frames repeated back to back, as recursion prints
+ * them in a `StackOverflowError` or `RecursionError`
+ */
+export interface FrameCycle {
+  // Index in `lines` of the first line of the first repetition
+  start: number;
+  // Index in `lines` after the last repetition (exclusive)
+  end: number;
+  // Lines in one repetition, including source lines printed under frames
+  length: number;
+  // Number of repetitions, the first one included
+  repetitions: number;
+  // 1-based numbers of the first and last frame of the first repetition among the frames of its throwable
+  firstFrame: number;
+  lastFrame: number;
+}
+
+/**
+ * Interface representing how to fold cycles in text output: the lines to leave out and
+ * the cycle to summarize after the last line of each first repetition
+ */
+export interface FoldedLines {
+  hidden: Set<StackTraceLine>;
+  summaries: Map<StackTraceLine, FrameCycle>;
+}
+
+/**
+ * Find recursion in frame sequences so that output can show each cycle once
+ */
+export class FrameCycleDetector {
+  // Longest repetition looked for, in lines; recursion cycles are a few frames long
+  private static readonly MAX_CYCLE_LENGTH = 16;
+
+  // Fewer repetitions than this are left as printed
+  private static readonly MIN_REPETITIONS = 3;
+
+  /**
+   * Find the cycles among runs of consecutive frames (and their source lines). At each
+   * position the cycle covering the most lines wins; frames reconstructed from
+   * `... N more` are left alone.
+   */
+  public static findCycles(lines: StackTraceLine[]): FrameCycle[] {
+    const cycles: FrameCycle[] = [];
+    const keys = lines.map(line => (line.type === 'at' || line.type === 'source') && !line.inherited ? line.content.trim() : null);
+    // Frame number of each line within its throwable
+    const frameNumbers: number[] = [];
+    let frameNumber = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+      if (lines[i].type === 'at') {
+        frameNumber++;
+      } else if (lines[i].type !== 'source') {
+        frameNumber = 0;
+      }
+      frameNumbers.push(frameNumber);
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+      if (keys[i] === null || lines[i].type !== 'at') {
+        continue;
+      }
+
+      let best: { length: number; repetitions: number } | null = null;
+      for (let length = 1; length <= this.MAX_CYCLE_LENGTH; length++) {
+        let repetitions = 1;
+        while (this.repeats(keys, i, length, repetitions)) {
+          repetitions++;
+        }
+        if (repetitions >= this.MIN_REPETITIONS && (!best || length * repetitions > best.length * best.repetitions)) {
+          best = { length, repetitions };
+        }
+      }
+
+      if (best) {
+        const end = i + best.length * best.repetitions;
+        const blockFrames = frameNumbers.slice(i, i + best.length);
+        cycles.push({
+          start: i,
+          end,
+          length: best.length,
+          repetitions: best.repetitions,
+          firstFrame: blockFrames[0],
+          lastFrame: blockFrames[blockFrames.length - 1]
+        });
+        i = end - 1;
+      }
+    }
+
+    return cycles;
+  }
+
+  /**
+   * Describe a cycle the way output shows it, e.g. `frames 3–6 repeated 255 times`
+   */
+  public static describe(cycle: FrameCycle): string {
+    const frames = cycle.firstFrame === cycle.lastFrame ? `frame ${cycle.firstFrame}` : `frames ${cycle.firstFrame}–${cycle.lastFrame}`;
+    return `${frames} repeated ${cycle.repetitions} times`;
+  }
+
+  /**
+   * Work out how text output folds the cycles of some lines: each first repetition is
+   * kept and followed by the description of its cycle
+   */
+  public static foldLines(lines: StackTraceLine[], cycles: FrameCycle[] = []): FoldedLines {
+    const folded: FoldedLines = { hidden: new Set(), summaries: new Map() };
+
+    for (const cycle of cycles) {
+      folded.summaries.set(lines[cycle.start + cycle.length - 1], cycle);
+      lines.slice(cycle.start + cycle.length, cycle.end).forEach(line => folded.hidden.add(line));
+    }
+
+    return folded;
+  }
+
+  /**
+   * Check whether the lines of a repetition after the first match the first one; a
+   * repetition must consist of frame and source lines only
+   */
+  private static repeats(keys: (string | null)[], start: number, length: number, repetition: number): boolean {
+    const offset = start + length * repetition;
+    if (offset + length > keys.length) {
+      return false;
+    }
+
+    for (let j = 0; j < length; j++) {
+      if (keys[start + j] === null || keys[offset + j] !== keys[start + j]) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,105 @@
+import type { StackTraceLine } from './stackTraceParser';
+
+/**
+ * Interface representing the readable form of a JVM frame
+ */
+export interface FrameDemangling {
+  // Readable `Class.method`, with a note such as `{ lambda }` for generated code
+  displayName?: string;
+  // Compiler-generated bridge or runtime plumbing rather than code someone wrote
+  synthetic?: boolean;
+}
+
+/**
+ * Turn the names that the Kotlin, Scala, Groovy and Java compilers generate for
+ * lambdas, accessors and the like back into the names in the source
+ */
+export class FrameDemangler {
+  /**
+   * Frames kotlinx.coroutines inserts where a coroutine was resumed or created
+   */
+  private static readonly COROUTINE_FRAMES: Record<string, string> = {
+    '_COROUTINE._BOUNDARY': '(Coroutine boundary)',
+    '_COROUTINE._CREATION': '(Coroutine creation)'
+  };
+
+  /**
+   * Call site and reflection plumbing between Groovy (or reflective) callers and callees
+   */
+  private static readonly PLUMBING_CLASS_PATTERN = /^(?:org\.codehaus\.groovy\.runtime\.callsite\.|org\.codehaus\.groovy\.reflection\.|org\.codehaus\.groovy\.runtime\.(?:InvokerHelper|ScriptBytecodeAdapter)$|groovy\.lang\.(?:MetaMethod|MetaClassImpl)$|(?:jdk\.internal|sun)\.reflect\.(?:NativeMethodAccessorImpl|DelegatingMethodAccessorImpl|GeneratedMethodAccessor\d+)$)/;
+
+  /**
+   * Demangle an `at` frame; frames without generated names get nothing
+   */
+  public static demangle(line: StackTraceLine): FrameDemangling {
+    const className = line.className || '';
+    const methodName = line.methodName || '';
+    const extension = (line.fileName || '').match(/\.([A-Za-z]+)$/)?.[1];
+
+    if (this.COROUTINE_FRAMES[className]) {
+      return { displayName: this.COROUTINE_FRAMES[className], synthetic: true };
+    }
+
+    // Frames the coroutine debug agent adds for suspended continuations
+    if (line.fileName === 'Continuation') {
+      return { synthetic: true };
+    }
+
+    if (this.PLUMBING_CLASS_PATTERN.test(className)) {
+      return { synthetic: true };
+    }
+
+    let owner = className;
+    let method = methodName;
+    let note: string | undefined;
+    let synthetic = false;
+
+    // Classes generated for closures and lambdas stand for the method they are in
+    const groovyClosure = owner.match(/^(.+)\$_([^$]+?)_closure\d+$/);
+    const kotlinInlined = owner.match(/^(.+?)\$([^$]+)\$\$inlined\$([^$]+)\$\d+$/);
+    const scalaAnonymousClass = owner.match(/^(.+)\$\$anonfun\$([^$]+)\$\d+$/);
+    const kotlinLambdaClass = extension === 'kt' ? owner.match(/^(.+?)\$([^$\d][^$]*)\$\d+$/) : null;
+    if (groovyClosure && /^(?:doCall|call)$/.test(method)) {
+      [owner, method, note] = [groovyClosure[1], groovyClosure[2], 'closure'];
+    } else if (kotlinInlined) {
+      [owner, method, note] = [kotlinInlined[1], kotlinInlined[2], `inlined ${kotlinInlined[3]}`];
+    } else if (scalaAnonymousClass) {
+      [owner, method, note] = [scalaAnonymousClass[1], scalaAnonymousClass[2], 'lambda'];
+    } else if (kotlinLambdaClass && /^(?:invoke|invokeSuspend)$/.test(method)) {
+      [owner, method, note] = [kotlinLambdaClass[1], kotlinLambdaClass[2], method === 'invokeSuspend' ? 'suspend' : 'lambda'];
+    }
+
+    // Methods: lambda bodies, accessors, default argument bridges and specializations
+    let match: RegExpMatchArray | null;
+    if ((match = method.match(/^lambda\$(.+)\$\d+$/))) {
+      // Java: lambda$process$0
+      [method, note] = [match[1], 'lambda'];
+    } else if ((match = method.match(/^\$anonfun\$(.+?)\$\d+(\$adapted)?$/))) {
+      // Scala 2.12+: $anonfun$process$1, and its boxing adapter
+      [method, note, synthetic] = [match[1], 'lambda', match[2] !== undefined];
+    } else if ((match = method.match(/^(.+?)\$lambda[$-]\d+$/))) {
+      // Kotlin: process$lambda$0, process$lambda-0 before Kotlin 1.8
+      [method, note] = [match[1], 'lambda'];
+    } else if ((match = method.match(/^access\$(.+)$/))) {
+      // Accessors for private members of outer classes; Java numbers them: access$000
+      method = /^\d+$/.test(match[1]) ? method : match[1];
+      synthetic = true;
+    } else if ((match = method.match(/^(.+)\$default$/))) {
+      [method, synthetic] = [match[1], true];
+    } else if ((match = method.match(/^(.+)\$suspendImpl$/))) {
+      method = match[1];
+    } else if ((match = method.match(/^(.+?)\$mc[A-Z]+\$sp$/)) || (match = method.match(/^(.+?)\$sp$/))) {
+      [method, synthetic] = [match[1], true];
+    }
+
+    // Scala objects (`Foo$`) and trait implementation classes of Scala 2.11 (`Foo$class`)
+    owner = owner.replace(/\$(?:class)?$/, '');
+
+    if (owner === className && method === methodName && note === undefined) {
+      return synthetic ? { synthetic } : {};
+    }
+
+    const displayName = `${owner}.${method}${note ? ` { ${note} }` : ''}`;
+    return synthetic ? { displayName, synthetic } : { displayName };
+  }
+}
@@ -1,4 +1,18 @@
-import { StackTraceParser } from './stackTraceParser';
+import { StackTraceParser, ParseOptions, ParsedStackTrace, ExtractedStackTrace, InputLocation, HtmlFormatOptions } from './stackTraceParser';
+import { StackTraceFingerprinter, FingerprintOptions } from './stackTraceFingerprint';
+import { FrameClassifier } from './frameClassifier';
+import { StackTraceSummarizer } from './stackTraceSummary';
+import { ProguardRetracer } from './retrace';
+import { ThreadDumpParser, ThreadDump } from './threadDump';
+import { AnsiRenderer, AnsiRenderOptions } from './ansiRenderer';
+import { SourceLinkResolver, SourceRepository } from './sourceLinks';
+import { StackTraceDiffer } from './stackTraceDiff';
+import { InputLimiter } from './inputLimits';
+import { BatchParser } from './batchParser';
+import { ShareStore, ShareRequest, SharedView } from './shareStore';
+import { Redactor, RedactionCounts, TextEdit } from './redaction';
+import { KnowledgeBase, HintOptions, HintRule } from './knowledgeBase';
+import { JUnitReportParser, TestFailure } from './junitReport';
 
 /**
  * Enhanced stack trace parser with browser-compatible HTML escaping
@@ -15,45 +29,18 @@ class BrowserCompatibleStackTraceParser extends StackTraceParser {
       .replace(/"/g, '&quot;')
       .replace(/'/g, '&#39;');
   }
-
-  /**
-   * Format parsed stack trace as HTML (browser-compatible version)
-   */
-  public static formatAsHtml(parsedStackTrace: any): string {
-    if (!parsedStackTrace.hasStackTrace) {
-      return '<p class="no-stacktrace">No stack trace found</p>';
-    }
-    
-    const lines = parsedStackTrace.lines.map((line: any) => {
-      const indentSpaces = '&nbsp;'.repeat(line.indent);
-      const escapedContent = this.escapeHtml(line.content.trim());
-      
-      let cssClass = `stacktrace-${line.type}`;
-      
-      switch (line.type) {
-        case 'exception':
-          return `<div class="${cssClass}">${indentSpaces}<span class="exception-text">${escapedContent}</span></div>`;
-        case 'at':
-          return `<div class="${cssClass}">${indentSpaces}<span class="at-keyword">at</span> <span class="method-name">${this.escapeHtml(line.className || '')}.${this.escapeHtml(line.methodName || '')}</span>(<span class="location">${this.escapeHtml(line.fileName || '')}${line.lineNumber ? ':' + line.lineNumber : ''}</span>)</div>`;
-        case 'caused_by':
-          return `<div class="${cssClass}">${indentSpaces}<span class="caused-by-keyword">Caused by:</span> <span class="exception-text">${this.escapeHtml(line.content.replace(/^\s*Caused by:\s*/, ''))}</span></div>`;
-        case 'suppressed':
-          return `<div class="${cssClass}">${indentSpaces}<span class="suppressed-keyword">Suppressed:</span> <span class="exception-text">${this.escapeHtml(line.content.replace(/^\s*Suppressed:\s*/, ''))}</span></div>`;
-        case 'more':
-          return `<div class="${cssClass}">${indentSpaces}<span class="more-text">${escapedContent}</span></div>`;
-        default:
-          return `<div class="${cssClass}">${indentSpaces}${escapedContent}</div>`;
-      }
-    });
-    
-    return `<div class="stacktrace-container">${lines.join('\n')}</div>`;
-  }
 }
 
 /**
- * Get the HTML template for the frontend page
+ * Get the HTML template for the frontend page. Pages of /s/<id> embed the shared view,
+ * or null when it does not exist, for the page script to load.
  */
-function getHtmlTemplate(): string {
+function getHtmlTemplate(sharedView?: SharedView | null): string {
+  // `<` is escaped so that the input cannot close the script element
+  const sharedViewScript = sharedView !== undefined
+    ? `<script id="sharedView" type="application/json">${JSON.stringify(sharedView).replace(/</g, '\\u003c')}</script>`
+    : '';
+  
   return `<!DOCTYPE html>
 <html lang="zh-CN">
 <head>
@@ -115,6 +102,27 @@ function getHtmlTemplate(): string {
             color: #ffffff;
         }
         
+        .output-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+        }
+        
+        .header-button {
+            padding: 0.25rem 0.75rem;
+            font-size: 12px;
+        }
+        
+        .header-button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        
+        .header-actions {
+            display: flex;
+            gap: 0.5rem;
+        }
+        
         .left-panel {
             border-right: 1px solid #3e3e42;
         }
@@ -127,10 +135,44 @@ function getHtmlTemplate(): string {
             gap: 1rem;
         }
         
+        .input-wrapper {
+            flex: 1;
+            position: relative;
+            display: flex;
+            background-color: #1e1e1e;
+            border-radius: 4px;
+        }
+        
+        .input-backdrop {
+            position: absolute;
+            inset: 0;
+            border: 1px solid transparent;
+            padding: 1rem;
+            font-family: inherit;
+            font-size: 14px;
+            line-height: 1.5;
+            white-space: pre-wrap;
+            word-wrap: break-word;
+            overflow: hidden;
+            color: transparent;
+            pointer-events: none;
+        }
+        
+        .input-backdrop mark {
+            color: transparent;
+            background-color: rgba(0, 122, 204, 0.18);
+            border-radius: 2px;
+        }
+        
+        .input-backdrop mark.active {
+            background-color: rgba(0, 122, 204, 0.4);
+        }
+        
         .input-textarea {
             flex: 1;
+            position: relative;
             width: 100%;
-            background-color: #1e1e1e;
+            background-color: transparent;
             color: #d4d4d4;
             border: 1px solid #3e3e42;
             border-radius: 4px;
@@ -223,6 +265,20 @@ function getHtmlTemplate(): string {
             margin: 0.1rem 0;
         }
         
+        .stacktrace-traceback,
+        .stacktrace-chain {
+            margin: 0.25rem 0;
+        }
+        
+        .stacktrace-chain {
+            margin-top: 0.5rem;
+        }
+        
+        .stacktrace-source {
+            color: #c9d1d9;
+            margin: 0 0 0.1rem 0;
+        }
+        
         .at-keyword {
             color: #79c0ff;
         }
@@ -235,6 +291,20 @@ function getHtmlTemplate(): string {
             color: #a5a5a5;
         }
         
+        .source-link {
+            color: inherit;
+            text-decoration: none;
+        }
+        
+        .source-link:hover .location {
+            color: #79c0ff;
+            text-decoration: underline;
+        }
+        
+        .module-name {
+            color: #6e7681;
+        }
+        
         .exception-text {
             color: #ff6b6b;
         }
@@ -250,6 +320,254 @@ function getHtmlTemplate(): string {
             font-style: italic;
         }
         
+        .inherited-frames > summary,
+        .repeated-frames > summary {
+            cursor: pointer;
+            list-style-position: inside;
+        }
+        
+        .stacktrace-inherited {
+            opacity: 0.6;
+        }
+        
+        .stacktrace-synthetic {
+            opacity: 0.6;
+        }
+        
+        .method-name[title] {
+            text-decoration: underline dotted;
+            cursor: help;
+        }
+        
+        .frame-application .method-name {
+            color: #ffd580;
+            font-weight: 600;
+        }
+        
+        .framework-frames > summary {
+            cursor: pointer;
+            color: #6e7681;
+            margin: 0.1rem 0;
+            list-style-position: inside;
+        }
+        
+        .framework-summary {
+            font-style: italic;
+        }
+        
+        .stacktrace-thread {
+            margin: 0.25rem 0;
+        }
+        
+        .thread-name {
+            color: #d2a8ff;
+            font-weight: 600;
+        }
+        
+        .thread-details {
+            color: #6e7681;
+        }
+        
+        .stacktrace-thread_state {
+            color: #8b949e;
+            margin: 0.1rem 0;
+        }
+        
+        .thread-state {
+            font-weight: 600;
+        }
+        
+        .thread-state-runnable {
+            color: #7ee787;
+        }
+        
+        .thread-state-blocked {
+            color: #ff6b6b;
+        }
+        
+        .thread-state-waiting,
+        .thread-state-timed_waiting {
+            color: #f1e05a;
+        }
+        
+        .stacktrace-lock {
+            color: #a5a5a5;
+            margin: 0.1rem 0;
+        }
+        
+        .lock-waiting_to_lock,
+        .lock-parking {
+            color: #ff9b9b;
+        }
+        
+        .thread-dump {
+            font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', monospace;
+            font-size: 14px;
+            color: #e6edf3;
+        }
+        
+        .thread-dump-overview {
+            color: #8b949e;
+            margin-bottom: 0.75rem;
+        }
+        
+        .deadlock {
+            border: 1px solid #6e2b2b;
+            background-color: #3a1d1d;
+            border-radius: 4px;
+            padding: 0.5rem 1rem;
+            margin-bottom: 0.75rem;
+            color: #ffb4b4;
+        }
+        
+        .deadlock-title {
+            color: #ff6b6b;
+            font-weight: 600;
+            margin-bottom: 0.25rem;
+        }
+        
+        .thread-group {
+            border-bottom: 1px solid #21262d;
+            padding: 0.25rem 0;
+        }
+        
+        .thread-group > summary {
+            cursor: pointer;
+            list-style-position: inside;
+        }
+        
+        .thread-group > .stacktrace-container {
+            padding: 0.5rem 0 0.5rem 1.5rem;
+        }
+        
+        .thread-group-count {
+            color: #79c0ff;
+            font-weight: 600;
+        }
+        
+        .thread-group-names {
+            color: #8b949e;
+        }
+        
+        .stacktrace-diff {
+            font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', monospace;
+            font-size: 13px;
+            line-height: 1.6;
+            color: #8b949e;
+        }
+        
+        .diff-throwable {
+            margin-bottom: 1rem;
+        }
+        
+        .diff-row {
+            display: flex;
+        }
+        
+        .diff-cell {
+            flex: 1;
+            min-width: 0;
+            padding: 0 0.5rem;
+            white-space: pre-wrap;
+            word-break: break-all;
+        }
+        
+        .diff-left {
+            border-right: 1px solid #3e3e42;
+        }
+        
+        .diff-header .diff-cell {
+            padding-top: 0.25rem;
+            padding-bottom: 0.25rem;
+            color: #ffa657;
+            font-weight: 600;
+        }
+        
+        .diff-frame .diff-cell {
+            padding-left: 1.5rem;
+        }
+        
+        .diff-removed .diff-left,
+        .diff-header.diff-removed .diff-left {
+            background-color: rgba(248, 81, 73, 0.15);
+        }
+        
+        .diff-added .diff-right,
+        .diff-header.diff-added .diff-right {
+            background-color: rgba(63, 185, 80, 0.15);
+        }
+        
+        .diff-line_changed .diff-cell {
+            background-color: rgba(210, 153, 34, 0.1);
+        }
+        
+        .diff-empty {
+            background-image: repeating-linear-gradient(135deg, transparent 0 6px, rgba(110, 118, 129, 0.12) 6px 7px);
+        }
+        
+        .diff-changed-text {
+            background-color: rgba(210, 153, 34, 0.35);
+            border-radius: 2px;
+        }
+        
+        .compare-textarea {
+            display: none;
+        }
+        
+        body.diff-mode .compare-textarea {
+            display: block;
+        }
+        
+        .option-input {
+            width: 100%;
+            background-color: #1e1e1e;
+            color: #d4d4d4;
+            border: 1px solid #3e3e42;
+            border-radius: 4px;
+            padding: 0.5rem 1rem;
+            font-family: inherit;
+            font-size: 13px;
+            outline: none;
+        }
+        
+        .option-input:focus {
+            border-color: #007acc;
+        }
+        
+        .redaction-options {
+            display: flex;
+            align-items: center;
+            gap: 0.75rem;
+            color: #cccccc;
+            font-size: 13px;
+        }
+        
+        .redaction-options label {
+            white-space: nowrap;
+            cursor: pointer;
+        }
+        
+        .mapping-panel summary {
+            cursor: pointer;
+            color: #cccccc;
+            font-size: 13px;
+        }
+        
+        .mapping-textarea {
+            width: 100%;
+            height: 8rem;
+            margin-top: 0.5rem;
+            background-color: #1e1e1e;
+            color: #d4d4d4;
+            border: 1px solid #3e3e42;
+            border-radius: 4px;
+            padding: 0.5rem 1rem;
+            font-family: inherit;
+            font-size: 12px;
+            resize: vertical;
+            outline: none;
+        }
+        
         .no-stacktrace {
             color: #8b949e;
             font-style: italic;
@@ -268,6 +586,86 @@ function getHtmlTemplate(): string {
         .sample-button {
             margin-top: 0.5rem;
         }
+        
+        .trace-list {
+            display: none;
+            flex-wrap: wrap;
+            gap: 0.5rem;
+            padding: 0.5rem 1rem;
+            background-color: #252526;
+            border-bottom: 1px solid #3e3e42;
+        }
+        
+        .trace-list.visible {
+            display: flex;
+        }
+        
+        .trace-tab {
+            padding: 0.25rem 0.75rem;
+            border: 1px solid #3e3e42;
+            border-radius: 4px;
+            background-color: #2d2d30;
+            color: #cccccc;
+            cursor: pointer;
+            font-family: inherit;
+            font-size: 12px;
+        }
+        
+        .trace-tab:hover {
+            background-color: #3e3e42;
+        }
+        
+        .trace-tab.active {
+            background-color: #0e639c;
+            border-color: #007acc;
+            color: #ffffff;
+        }
+        
+        .summary-banner {
+            display: none;
+            padding: 0.75rem 1rem;
+            background-color: #3a1d1d;
+            border-bottom: 1px solid #6e2b2b;
+            color: #ffb4b4;
+            font-size: 14px;
+            word-break: break-word;
+        }
+        
+        .summary-banner.visible {
+            display: block;
+        }
+        
+        .summary-label {
+            color: #ff6b6b;
+            font-weight: 600;
+            margin-right: 0.5rem;
+        }
+        
+        .hints-panel {
+            display: none;
+            padding: 0.75rem 1rem;
+            background-color: #1d2b3a;
+            border-bottom: 1px solid #2b4a6e;
+            color: #b4d4ff;
+            font-size: 13px;
+        }
+        
+        .hints-panel.visible {
+            display: block;
+        }
+        
+        .hint + .hint {
+            margin-top: 0.5rem;
+        }
+        
+        .hint-title {
+            color: #6bb4ff;
+            font-weight: 600;
+        }
+        
+        .hint a {
+            color: #6bb4ff;
+        }
     </style>
 </head>
 <body>
@@ -280,22 +678,70 @@ function getHtmlTemplate(): string {
         <div class="panel left-panel">
             <div class="panel-header">输入文本</div>
             <div class="input-area">
+                <div class="input-wrapper">
+                    <div id="inputBackdrop" class="input-backdrop" aria-hidden="true"></div>
+                    <textarea 
+                        id="inputText" 
+                        class="input-textarea" 
+                        placeholder="在此粘贴包含 Java 堆栈跟踪的日志或文本..."
+                    ></textarea>
+                </div>
                 <textarea 
-                    id="inputText" 
-                    class="input-textarea" 
-                    placeholder="在此粘贴包含 Java 堆栈跟踪的日志或文本..."
+                    id="compareText" 
+                    class="input-textarea compare-textarea" 
+                    placeholder="对比模式：在此粘贴另一份堆栈跟踪（如修复后或今天的），与上方的逐个异常、逐帧对齐比较..."
                 ></textarea>
+                <input 
+                    id="appPackages" 
+                    class="option-input" 
+                    placeholder="应用包前缀（逗号分隔，如 com.example, org.acme），其余帧将被折叠"
+                >
+                <input 
+                    id="logPrefixPattern" 
+                    class="option-input" 
+                    placeholder="日志前缀正则（留空则自动识别 Kubernetes、journalctl、logback 等每行重复的前缀）"
+                >
+                <div class="redaction-options">
+                    <label title="隐藏异常消息中的密码、令牌、邮箱、IP 地址和客户 ID"><input type="checkbox" id="redactMessages"> 脱敏</label>
+                    <input 
+                        id="redactionPatterns" 
+                        class="option-input" 
+                        placeholder="额外的脱敏正则（可选），匹配的内容会被替换为 [REDACTED:custom]"
+                    >
+                </div>
+                <details class="mapping-panel">
+                    <summary>ProGuard / R8 mapping.txt（反混淆）</summary>
+                    <textarea 
+                        id="mappingText" 
+                        class="mapping-textarea" 
+                        placeholder="在此粘贴 mapping.txt 内容，解析时会先还原混淆的类名、方法名和行号..."
+                    ></textarea>
+                </details>
                 <div class="button-group">
                     <button id="parseBtn" class="btn">解析堆栈跟踪</button>
                     <button id="clearBtn" class="btn btn-secondary">清空</button>
                     <button id="sampleBtn" class="btn btn-secondary sample-button">加载示例</button>
                     <button id="serializedSampleBtn" class="btn btn-secondary sample-button">JSON示例</button>
+                    <button id="threadDumpSampleBtn" class="btn btn-secondary sample-button">线程转储示例</button>
+                    <button id="pythonSampleBtn" class="btn btn-secondary sample-button">Python示例</button>
+                    <button id="dotnetSampleBtn" class="btn btn-secondary sample-button">.NET示例</button>
+                    <button id="junitSampleBtn" class="btn btn-secondary sample-button">JUnit报告示例</button>
+                    <button id="diffModeBtn" class="btn btn-secondary sample-button">对比模式</button>
                 </div>
             </div>
         </div>
         
         <div class="panel">
-            <div class="panel-header">格式化输出</div>
+            <div class="panel-header output-header">
+                格式化输出
+                <div class="header-actions">
+                    <button id="shareBtn" class="btn btn-secondary header-button">分享</button>
+                    <button id="copyMarkdownBtn" class="btn btn-secondary header-button" disabled>复制为 Markdown</button>
+                </div>
+            </div>
+            <div id="traceList" class="trace-list"></div>
+            <div id="summaryBanner" class="summary-banner"></div>
+            <div id="hintsPanel" class="hints-panel"></div>
             <div id="output" class="output-area">
                 <p class="no-stacktrace">请在左侧输入包含堆栈跟踪的文本</p>
             </div>
@@ -305,14 +751,32 @@ function getHtmlTemplate(): string {
         </div>
     </div>
 
+    ${sharedViewScript}
     <script>
         const inputText = document.getElementById('inputText');
+        const inputBackdrop = document.getElementById('inputBackdrop');
+        const compareText = document.getElementById('compareText');
+        const appPackages = document.getElementById('appPackages');
+        const mappingText = document.getElementById('mappingText');
+        const logPrefixPattern = document.getElementById('logPrefixPattern');
+        const redactMessages = document.getElementById('redactMessages');
+        const redactionPatterns = document.getElementById('redactionPatterns');
         const output = document.getElementById('output');
         const stats = document.getElementById('stats');
+        const traceList = document.getElementById('traceList');
+        const summaryBanner = document.getElementById('summaryBanner');
+        const hintsPanel = document.getElementById('hintsPanel');
         const parseBtn = document.getElementById('parseBtn');
         const clearBtn = document.getElementById('clearBtn');
         const sampleBtn = document.getElementById('sampleBtn');
         const serializedSampleBtn = document.getElementById('serializedSampleBtn');
+        const threadDumpSampleBtn = document.getElementById('threadDumpSampleBtn');
+        const pythonSampleBtn = document.getElementById('pythonSampleBtn');
+        const dotnetSampleBtn = document.getElementById('dotnetSampleBtn');
+        const junitSampleBtn = document.getElementById('junitSampleBtn');
+        const copyMarkdownBtn = document.getElementById('copyMarkdownBtn');
+        const diffModeBtn = document.getElementById('diffModeBtn');
+        const shareBtn = document.getElementById('shareBtn');
         
         const sampleStackTrace = '2024-08-21 10:30:45 [ERROR] Request processing failed\\n' +
             'java.lang.RuntimeException: Service unavailable\\n' +
@@ -336,21 +800,469 @@ function getHtmlTemplate(): string {
             '  "exception": "java.lang.RuntimeException: Service unavailable\\\\n\\\\tat com.example.service.UserService.getUser(UserService.java:45)\\\\n\\\\tat com.example.controller.UserController.handleGetUser(UserController.java:25)\\\\nCaused by: java.net.ConnectException: Connection refused\\\\n\\\\tat java.base/java.net.Socket.connect(Socket.java:666)\\\\n\\\\tSuppressed: java.lang.IllegalStateException: Pool is shutting down\\\\n\\\\t\\\\tat com.example.database.ConnectionPool.checkState(ConnectionPool.java:120)"\\n' +
             '}';
 
+        const threadDumpSample = 'Full thread dump OpenJDK 64-Bit Server VM (17.0.8+7 mixed mode, sharing):\\n\\n' +
+            '"order-worker" #21 prio=5 os_prio=0 cpu=12.30ms elapsed=35.12s tid=0x00007f2c4c0f1000 nid=0x5e03 waiting for monitor entry  [0x00007f2c2d7fe000]\\n' +
+            '   java.lang.Thread.State: BLOCKED (on object monitor)\\n' +
+            '\\tat com.example.inventory.StockService.reserve(StockService.java:58)\\n' +
+            '\\t- waiting to lock <0x000000070f5a1b28> (a com.example.inventory.Stock)\\n' +
+            '\\tat com.example.order.OrderService.place(OrderService.java:41)\\n' +
+            '\\t- locked <0x000000070f5a1a10> (a com.example.order.Order)\\n' +
+            '\\tat java.lang.Thread.run(java.base@17.0.8/Thread.java:833)\\n\\n' +
+            '"stock-worker" #22 prio=5 os_prio=0 cpu=10.02ms elapsed=35.11s tid=0x00007f2c4c0f2800 nid=0x5e04 waiting for monitor entry  [0x00007f2c2d6fd000]\\n' +
+            '   java.lang.Thread.State: BLOCKED (on object monitor)\\n' +
+            '\\tat com.example.order.OrderService.cancel(OrderService.java:77)\\n' +
+            '\\t- waiting to lock <0x000000070f5a1a10> (a com.example.order.Order)\\n' +
+            '\\tat com.example.inventory.StockService.restock(StockService.java:92)\\n' +
+            '\\t- locked <0x000000070f5a1b28> (a com.example.inventory.Stock)\\n' +
+            '\\tat java.lang.Thread.run(java.base@17.0.8/Thread.java:833)\\n\\n' +
+            '"http-nio-8080-exec-1" #32 daemon prio=5 os_prio=0 cpu=3.41ms elapsed=30.50s tid=0x00007f2c4c1a3000 nid=0x5e10 waiting on condition  [0x00007f2c2d5fc000]\\n' +
+            '   java.lang.Thread.State: WAITING (parking)\\n' +
+            '\\tat jdk.internal.misc.Unsafe.park(java.base@17.0.8/Native Method)\\n' +
+            '\\t- parking to wait for  <0x000000070f6c2e40> (a java.util.concurrent.locks.AbstractQueuedSynchronizer$ConditionObject)\\n' +
+            '\\tat java.util.concurrent.LinkedBlockingQueue.take(java.base@17.0.8/LinkedBlockingQueue.java:435)\\n' +
+            '\\tat java.lang.Thread.run(java.base@17.0.8/Thread.java:833)\\n\\n' +
+            '"http-nio-8080-exec-2" #33 daemon prio=5 os_prio=0 cpu=2.97ms elapsed=30.50s tid=0x00007f2c4c1a4800 nid=0x5e11 waiting on condition  [0x00007f2c2d4fb000]\\n' +
+            '   java.lang.Thread.State: WAITING (parking)\\n' +
+            '\\tat jdk.internal.misc.Unsafe.park(java.base@17.0.8/Native Method)\\n' +
+            '\\t- parking to wait for  <0x000000070f6c2e40> (a java.util.concurrent.locks.AbstractQueuedSynchronizer$ConditionObject)\\n' +
+            '\\tat java.util.concurrent.LinkedBlockingQueue.take(java.base@17.0.8/LinkedBlockingQueue.java:435)\\n' +
+            '\\tat java.lang.Thread.run(java.base@17.0.8/Thread.java:833)\\n';
+
+        const pythonSample = '2024-08-21 10:30:45 ERROR Order creation failed\\n' +
+            'Traceback (most recent call last):\\n' +
+            '  File "/app/orders/services.py", line 27, in reserve_stock\\n' +
+            '    stock = Stock.objects.select_for_update().get(sku=sku)\\n' +
+            '  File "/usr/local/lib/python3.11/site-packages/django/db/models/query.py", line 637, in get\\n' +
+            '    raise self.model.DoesNotExist(\\n' +
+            'orders.models.Stock.DoesNotExist: Stock matching query does not exist.\\n\\n' +
+            'The above exception was the direct cause of the following exception:\\n\\n' +
+            'Traceback (most recent call last):\\n' +
+            '  File "/app/orders/views.py", line 42, in create\\n' +
+            '    services.reserve_stock(order.sku, order.quantity)\\n' +
+            '  File "/app/orders/services.py", line 29, in reserve_stock\\n' +
+            '    raise OutOfStockError(sku) from error\\n' +
+            'orders.errors.OutOfStockError: SKU-1042\\n' +
+            '2024-08-21 10:30:46 INFO Retrying request...';
+
+        const dotnetSample = '2024-08-21 10:30:45 fail: Acme.Api.OrdersController[0] Order creation failed\\n' +
+            'System.InvalidOperationException: Failed to save order\\n' +
+            ' ---> System.IO.IOException: Disk full\\n' +
+            '   at Acme.Storage.FileStore.Write(String path, Byte[] data) in C:\\\\src\\\\Acme\\\\Storage\\\\FileStore.cs:line 42\\n' +
+            '   at Acme.Orders.OrderService.SaveAsync(Order order) in C:\\\\src\\\\Acme\\\\Orders\\\\OrderService.cs:line 88\\n' +
+            '   --- End of inner exception stack trace ---\\n' +
+            '   at Acme.Orders.OrderService.SaveAsync(Order order) in C:\\\\src\\\\Acme\\\\Orders\\\\OrderService.cs:line 95\\n' +
+            '--- End of stack trace from previous location ---\\n' +
+            '   at Microsoft.AspNetCore.Mvc.Infrastructure.ActionMethodExecutor.Execute(ActionContext context)\\n' +
+            '   at Acme.Api.OrdersController.Post(OrderDto dto) in C:\\\\src\\\\Acme\\\\Api\\\\OrdersController.cs:line 31\\n' +
+            '2024-08-21 10:30:46 info: Acme.Api.OrdersController[0] Retrying request...';
+
+        const junitSample = '<?xml version="1.0" encoding="UTF-8"?>\\n' +
+            '<testsuite name="com.example.OrderServiceTest" tests="3" failures="1" errors="1" skipped="0" time="0.412">\\n' +
+            '  <testcase name="createsOrder" classname="com.example.OrderServiceTest" time="0.051"/>\\n' +
+            '  <testcase name="rejectsEmptyCart" classname="com.example.OrderServiceTest" time="0.012">\\n' +
+            '    <failure message="expected: &lt;400&gt; but was: &lt;200&gt;" type="org.opentest4j.AssertionFailedError">org.opentest4j.AssertionFailedError: expected: &lt;400&gt; but was: &lt;200&gt;\\n' +
+            '\\tat org.junit.jupiter.api.AssertionUtils.fail(AssertionUtils.java:55)\\n' +
+            '\\tat org.junit.jupiter.api.Assertions.assertEquals(Assertions.java:150)\\n' +
+            '\\tat com.example.OrderServiceTest.rejectsEmptyCart(OrderServiceTest.java:42)\\n' +
+            '</failure>\\n' +
+            '  </testcase>\\n' +
+            '  <testcase name="reservesStock" classname="com.example.OrderServiceTest" time="0.349">\\n' +
+            '    <error message="Connection refused" type="java.net.ConnectException"><![CDATA[java.net.ConnectException: Connection refused\\n' +
+            '\\tat java.base/sun.nio.ch.Net.connect0(Native Method)\\n' +
+            '\\tat com.example.StockClient.<init>(StockClient.java:27)\\n' +
+            '\\tat com.example.OrderServiceTest.reservesStock(OrderServiceTest.java:58)\\n' +
+            ']]></error>\\n' +
+            '  </testcase>\\n' +
+            '</testsuite>';
+
+        let stackTraces = [];
+        let activeTraceIndex = -1;
+        let diffMode = false;
+        // Options of a shared view that the page has no inputs for, kept for every request
+        let sharedOptions = {};
+        
+        const redactionLabels = {
+            password: '密码',
+            token: '令牌',
+            email: '邮箱',
+            ip_address: 'IP 地址',
+            customer_id: '客户 ID',
+            custom: '自定义'
+        };
+        
+        function escapeHtml(text) {
+            return text
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;');
+        }
+        
+        // Mark the recognized stack traces in a backdrop that mirrors the textarea
+        function renderHighlights() {
+            const text = inputText.value;
+            let html = '';
+            let position = 0;
+            stackTraces.forEach((trace, index) => {
+                if (trace.start === undefined || trace.start < position) {
+                    return;
+                }
+                html += escapeHtml(text.slice(position, trace.start));
+                html += '<mark' + (index === activeTraceIndex ? ' class="active"' : '') + '>' + escapeHtml(text.slice(trace.start, trace.end)) + '</mark>';
+                position = trace.end;
+            });
+            // A trailing line break only takes up space when something follows it
+            inputBackdrop.innerHTML = html + escapeHtml(text.slice(position)) + '\\n';
+            inputBackdrop.scrollTop = inputText.scrollTop;
+        }
+        
+        function scrollToActiveTrace() {
+            const mark = inputBackdrop.querySelector('mark.active');
+            if (mark) {
+                inputText.scrollTop = Math.max(0, mark.offsetTop - inputText.clientHeight / 3);
+                inputBackdrop.scrollTop = inputText.scrollTop;
+            }
+        }
+        
+        function renderSummary(summary, labelText = '根因') {
+            summaryBanner.innerHTML = '';
+            summaryBanner.classList.toggle('visible', !!summary);
+            if (summary) {
+                const label = document.createElement('span');
+                label.className = 'summary-label';
+                label.textContent = labelText;
+                summaryBanner.appendChild(label);
+                summaryBanner.appendChild(document.createTextNode(summary.text));
+            }
+        }
+        
+        // Known causes and fixes from the knowledge base; rules may come from the team, so
+        // everything is inserted as text
+        function renderHints(hints) {
+            hintsPanel.innerHTML = '';
+            hintsPanel.classList.toggle('visible', hints.length > 0);
+            hints.forEach(hint => {
+                const item = document.createElement('div');
+                item.className = 'hint';
+                item.title = hint.exceptionClass;
+                const title = document.createElement('div');
+                title.className = 'hint-title';
+                title.textContent = '排查提示：' + hint.title;
+                const text = document.createElement('div');
+                text.textContent = hint.hint;
+                item.append(title, text);
+                if (hint.link) {
+                    const link = document.createElement('a');
+                    link.href = hint.link;
+                    link.target = '_blank';
+                    link.rel = 'noopener noreferrer';
+                    link.textContent = '了解更多';
+                    item.appendChild(link);
+                }
+                hintsPanel.appendChild(item);
+            });
+        }
+        
+        function showStackTrace(index) {
+            const trace = stackTraces[index];
+            activeTraceIndex = index;
+            renderHighlights();
+            copyMarkdownBtn.disabled = false;
+            renderSummary(trace.summary);
+            renderHints(trace.hints || []);
+            output.innerHTML = trace.formattedHtml;
+            Array.from(traceList.children).forEach((tab, tabIndex) => {
+                tab.classList.toggle('active', tabIndex === index);
+            });
+            const position = trace.methodName !== undefined
+                ? ' 个失败测试，当前第 ' + (index + 1) + ' 个：' + trace.className + '.' + trace.methodName + '（报告第 ' + trace.line + ' 行）'
+                : ' 个堆栈跟踪，当前第 ' + (index + 1) + ' 个（输入第 ' + trace.startLine + '–' + trace.endLine + ' 行）';
+            stats.textContent = '找到 ' + stackTraces.length + position + '，共 ' + trace.parsedStackTrace.lines.length + ' 行' + describeFrameCycles(trace.parsedStackTrace.frameCycles) + describeRedactions(trace.parsedStackTrace.redactions);
+        }
+        
+        function renderTraceList() {
+            activeTraceIndex = -1;
+            renderHighlights();
+            renderHints([]);
+            copyMarkdownBtn.disabled = true;
+            traceList.innerHTML = '';
+            stackTraces.forEach((trace, index) => {
+                const exceptionClass = trace.throwableTree ? trace.throwableTree.exceptionClass : '';
+                const tab = document.createElement('button');
+                tab.className = 'trace-tab';
+                if (trace.methodName !== undefined) {
+                    // Failed tests are named after the test, with the exception on hover
+                    tab.textContent = '#' + (index + 1) + ' ' + trace.className.split('.').pop() + '.' + trace.methodName;
+                    tab.title = trace.className + '.' + trace.methodName + '\\n' + exceptionClass;
+                } else {
+                    tab.textContent = '#' + (index + 1) + ' ' + exceptionClass.split('.').pop();
+                    tab.title = exceptionClass;
+                }
+                tab.addEventListener('click', () => {
+                    showStackTrace(index);
+                    scrollToActiveTrace();
+                });
+                traceList.appendChild(tab);
+            });
+            traceList.classList.toggle('visible', stackTraces.length > 1 || stackTraces.some(trace => trace.methodName !== undefined));
+        }
+        
+        function showThreadDump(threadDump, formattedHtml) {
+            stackTraces = [];
+            renderTraceList();
+            const deadlocks = threadDump.deadlocks.map(deadlock => deadlock.threadNames.map(name => '"' + name + '"').join(' ↔ '));
+            renderSummary(deadlocks.length > 0 ? { text: deadlocks.join('；') } : null, '死锁');
+            output.innerHTML = formattedHtml;
+            stats.textContent = '线程转储：' + threadDump.threads.length + ' 个线程，' + threadDump.groups.length + ' 组不同堆栈，' + threadDump.deadlocks.length + ' 个死锁';
+        }
+        
+        function applicationPackageList() {
+            return appPackages.value.split(/[\\s,]+/).filter(prefix => prefix !== '');
+        }
+        
+        function addRedactionOptions(request) {
+            if (redactMessages.checked) {
+                request.redact = true;
+                if (redactionPatterns.value) {
+                    request.redactionPatterns = [redactionPatterns.value];
+                }
+            }
+            return request;
+        }
+        
+        function addSharedOptions(request) {
+            return Object.assign(request, sharedOptions);
+        }
+        
+        // Sum the redactions of one or more stack traces for the status line
+        function describeFrameCycles(frameCycles) {
+            return frameCycles && frameCycles.length > 0 ? '，已折叠 ' + frameCycles.length + ' 处递归' : '';
+        }
+        
+        function describeRedactions(...redactionCounts) {
+            const totals = {};
+            redactionCounts.forEach(redactions => Object.entries(redactions || {}).forEach(([category, count]) => {
+                totals[category] = (totals[category] || 0) + count;
+            }));
+            const counts = Object.entries(totals).map(([category, count]) => (redactionLabels[category] || category) + ' ' + count);
+            return counts.length > 0 ? '，已脱敏：' + counts.join('、') : '';
+        }
+        
+        // Render the active stack trace as an issue body and put it on the clipboard
+        async function copyAsMarkdown() {
+            const trace = stackTraces[activeTraceIndex];
+            if (!trace) {
+                return;
+            }
+            
+            const request = addRedactionOptions({ text: trace.extractedStackTrace });
+            const packages = applicationPackageList();
+            if (packages.length > 0) {
+                request.applicationPackages = packages;
+            }
+            
+            try {
+                const response = await fetch('/api/parse?format=markdown', {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify(request)
+                });
+                
+                if (!response.ok) {
+                    throw new Error('HTTP error! status: ' + response.status);
+                }
+                
+                await navigator.clipboard.writeText(await response.text());
+                copyMarkdownBtn.textContent = '已复制';
+            } catch (error) {
+                copyMarkdownBtn.textContent = '复制失败';
+            }
+            setTimeout(() => {
+                copyMarkdownBtn.textContent = '复制为 Markdown';
+            }, 1500);
+        }
+        
+        // Store the input and options, and put the permalink on the clipboard
+        async function shareView() {
+            if (!inputText.value.trim()) {
+                return;
+            }
+            
+            const request = addSharedOptions(addRedactionOptions({ text: inputText.value }));
+            if (diffMode) {
+                request.compareText = compareText.value;
+            }
+            if (mappingText.value.trim()) {
+                request.mapping = mappingText.value;
+            }
+            const packages = applicationPackageList();
+            if (packages.length > 0) {
+                request.applicationPackages = packages;
+            }
+            if (logPrefixPattern.value) {
+                request.logPrefixPattern = logPrefixPattern.value;
+            }
+            
+            try {
+                const response = await fetch('/api/share', {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify(request)
+                });
+                
+                const result = await response.json();
+                if (!response.ok || !result.success) {
+                    throw new Error(result.error || 'HTTP error! status: ' + response.status);
+                }
+                
+                try {
+                    await navigator.clipboard.writeText(result.url);
+                    shareBtn.textContent = '链接已复制';
+                } catch (error) {
+                    window.prompt('分享链接', result.url);
+                }
+            } catch (error) {
+                shareBtn.textContent = '分享失败';
+                stats.textContent = '分享失败: ' + error.message;
+            }
+            setTimeout(() => {
+                shareBtn.textContent = '分享';
+            }, 1500);
+        }
+        
+        // Pages of /s/<id> embed the shared input and options
+        function loadSharedView() {
+            const element = document.getElementById('sharedView');
+            if (!element) {
+                return;
+            }
+            
+            const view = JSON.parse(element.textContent);
+            if (!view) {
+                output.innerHTML = '<p class="no-stacktrace">分享链接不存在或已过期</p>';
+                stats.textContent = '分享链接无效';
+                return;
+            }
+            
+            inputText.value = view.text;
+            compareText.value = view.compareText || '';
+            mappingText.value = view.mapping || '';
+            mappingText.parentElement.open = !!view.mapping;
+            appPackages.value = (view.applicationPackages || []).join(', ');
+            logPrefixPattern.value = view.logPrefixPattern || '';
+            redactMessages.checked = !!view.redact;
+            sharedOptions = {};
+            for (const option of ['language', 'reconstructElidedFrames', 'sourceRepositories']) {
+                if (view[option] !== undefined) {
+                    sharedOptions[option] = view[option];
+                }
+            }
+            if (view.compareText !== undefined) {
+                toggleDiffMode();
+            } else {
+                parseStackTrace();
+            }
+        }
+        
+        function toggleDiffMode() {
+            diffMode = !diffMode;
+            document.body.classList.toggle('diff-mode', diffMode);
+            diffModeBtn.textContent = diffMode ? '退出对比' : '对比模式';
+            parseStackTrace();
+        }
+        
+        // Compare the first stack trace of both inputs side by side
+        async function diffStackTraces() {
+            stackTraces = [];
+            renderTraceList();
+            renderSummary(null);
+            if (!inputText.value.trim() || !compareText.value.trim()) {
+                output.innerHTML = '<p class="no-stacktrace">请在两个输入框中分别粘贴要对比的堆栈跟踪</p>';
+                stats.textContent = '等待输入...';
+                return;
+            }
+            
+            const request = addSharedOptions(addRedactionOptions({ left: inputText.value, right: compareText.value }));
+            const packages = applicationPackageList();
+            if (packages.length > 0) {
+                request.applicationPackages = packages;
+            }
+            if (logPrefixPattern.value) {
+                request.logPrefixPattern = logPrefixPattern.value;
+            }
+            
+            try {
+                const response = await fetch('/api/diff', {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify(request)
+                });
+                
+                if (!response.ok) {
+                    throw new Error('HTTP error! status: ' + response.status);
+                }
+                
+                const result = await response.json();
+                const diff = result.diff;
+                output.innerHTML = result.formattedHtml;
+                stats.textContent = (diff.identical
+                    ? '两个堆栈跟踪结构相同'
+                    : '对比：新增 ' + diff.addedFrames + ' 帧，删除 ' + diff.removedFrames + ' 帧，' + diff.changedLineNumbers + ' 处行号变化') +
+                    (diff.alignmentTruncated ? '（堆栈过长，部分帧未对齐）' : '') +
+                    describeRedactions(result.left.parsedStackTrace.redactions, result.right.parsedStackTrace.redactions);
+            } catch (error) {
+                output.innerHTML = '<p class="no-stacktrace">请求失败: ' + error.message + '</p>';
+                stats.textContent = '请求失败';
+            }
+        }
+        
         async function parseStackTrace() {
+            if (diffMode) {
+                return diffStackTraces();
+            }
+            
             const input = inputText.value;
             if (!input.trim()) {
+                stackTraces = [];
+                renderTraceList();
+                renderSummary(null);
                 output.innerHTML = '<p class="no-stacktrace">请输入文本</p>';
                 stats.textContent = '等待输入...';
                 return;
             }
             
+            // JUnit XML reports are listed by failed test. They are recognized first, since
+            // the output a report captures can hold a thread dump
+            const isTestReport = [${JUnitReportParser.REPORT_PATTERNS.join(', ')}].every(pattern => pattern.test(input));
+            // Thread dumps get their own view instead of the exception trace list
+            const isThreadDump = !isTestReport && /^\\s*java\\.lang\\.Thread\\.State:/m.test(input);
+            const request = addSharedOptions(addRedactionOptions({ text: input, mode: isTestReport ? 'junit' : isThreadDump ? 'threads' : 'all', reconstructElidedFrames: true }));
+            const packages = applicationPackageList();
+            if (packages.length > 0) {
+                request.applicationPackages = packages;
+            }
+            if (logPrefixPattern.value) {
+                request.logPrefixPattern = logPrefixPattern.value;
+            }
+            
+            // With a mapping file, retrace the input before parsing
+            const endpoint = mappingText.value.trim() ? '/api/retrace' : '/api/parse';
+            if (endpoint === '/api/retrace') {
+                request.mapping = mappingText.value;
+            }
+            
             try {
-                const response = await fetch('/api/parse', {
+                const response = await fetch(endpoint, {
                     method: 'POST',
                     headers: {
                         'Content-Type': 'application/json',
                     },
-                    body: JSON.stringify({ text: input })
+                    body: JSON.stringify(request)
                 });
                 
                 if (!response.ok) {
@@ -359,18 +1271,35 @@ function getHtmlTemplate(): string {
                 
                 const result = await response.json();
                 
-                if (result.success) {
-                    output.innerHTML = result.formattedHtml;
-                    const lineCount = result.parsedStackTrace.lines.length;
-                    const hasStackTrace = result.parsedStackTrace.hasStackTrace;
-                    stats.textContent = hasStackTrace 
-                        ? '找到堆栈跟踪，共 ' + lineCount + ' 行'
-                        : '未找到有效的堆栈跟踪';
+                if (result.success && result.threadDump) {
+                    showThreadDump(result.threadDump, result.formattedHtml);
+                } else if (result.success && result.testFailures) {
+                    stackTraces = result.testFailures.filter(failure => failure.parsedStackTrace.hasStackTrace);
+                    renderTraceList();
+                    if (stackTraces.length > 0) {
+                        showStackTrace(0);
+                    } else {
+                        renderSummary(null);
+                        output.innerHTML = '<p class="no-stacktrace">No failed tests found</p>';
+                        stats.textContent = '报告中没有失败的测试';
+                    }
+                } else if (result.success) {
+                    stackTraces = result.stackTraces.filter(trace => trace.parsedStackTrace.hasStackTrace);
+                    renderTraceList();
+                    if (stackTraces.length > 0) {
+                        showStackTrace(0);
+                    } else {
+                        renderSummary(null);
+                        output.innerHTML = '<p class="no-stacktrace">No stack trace found</p>';
+                        stats.textContent = '未找到有效的堆栈跟踪';
+                    }
                 } else {
+                    renderSummary(null);
                     output.innerHTML = '<p class="no-stacktrace">解析失败: ' + (result.error || '未知错误') + '</p>';
                     stats.textContent = '解析失败';
                 }
             } catch (error) {
+                renderSummary(null);
                 output.innerHTML = '<p class="no-stacktrace">请求失败: ' + error.message + '</p>';
                 stats.textContent = '请求失败';
             }
@@ -378,6 +1307,10 @@ function getHtmlTemplate(): string {
         
         function clearInput() {
             inputText.value = '';
+            compareText.value = '';
+            stackTraces = [];
+            renderTraceList();
+            renderSummary(null);
             output.innerHTML = '<p class="no-stacktrace">请在左侧输入包含堆栈跟踪的文本</p>';
             stats.textContent = '等待输入...';
             inputText.focus();
@@ -393,77 +1326,778 @@ function getHtmlTemplate(): string {
             parseStackTrace();
         }
         
+        function loadThreadDumpSample() {
+            inputText.value = threadDumpSample;
+            parseStackTrace();
+        }
+        
+        function loadPythonSample() {
+            inputText.value = pythonSample;
+            parseStackTrace();
+        }
+        
+        function loadDotnetSample() {
+            inputText.value = dotnetSample;
+            parseStackTrace();
+        }
+        
+        function loadJunitSample() {
+            inputText.value = junitSample;
+            parseStackTrace();
+        }
+        
         parseBtn.addEventListener('click', parseStackTrace);
         clearBtn.addEventListener('click', clearInput);
         sampleBtn.addEventListener('click', loadSample);
         serializedSampleBtn.addEventListener('click', loadSerializedSample);
+        threadDumpSampleBtn.addEventListener('click', loadThreadDumpSample);
+        pythonSampleBtn.addEventListener('click', loadPythonSample);
+        dotnetSampleBtn.addEventListener('click', loadDotnetSample);
+        junitSampleBtn.addEventListener('click', loadJunitSample);
+        copyMarkdownBtn.addEventListener('click', copyAsMarkdown);
+        diffModeBtn.addEventListener('click', toggleDiffMode);
+        shareBtn.addEventListener('click', shareView);
+        
+        mappingText.addEventListener('change', parseStackTrace);
+        logPrefixPattern.addEventListener('change', parseStackTrace);
+        redactionPatterns.addEventListener('change', parseStackTrace);
+        
+        // Keep redacting once turned on, e.g. for production traces
+        redactMessages.checked = localStorage.getItem('redactMessages') === 'true';
+        redactMessages.addEventListener('change', () => {
+            localStorage.setItem('redactMessages', String(redactMessages.checked));
+            parseStackTrace();
+        });
+        
+        // Remember the application packages between visits
+        appPackages.value = localStorage.getItem('appPackages') || '';
+        appPackages.addEventListener('change', () => {
+            localStorage.setItem('appPackages', appPackages.value);
+            parseStackTrace();
+        });
+        
+        loadSharedView();
         
         // Auto-parse on input change (debounced)
         let parseTimeout;
         inputText.addEventListener('input', () => {
+            // Offsets of the previous parse no longer match the text
+            stackTraces = [];
+            renderHighlights();
+            clearTimeout(parseTimeout);
+            parseTimeout = setTimeout(parseStackTrace, 500);
+        });
+        
+        compareText.addEventListener('input', () => {
             clearTimeout(parseTimeout);
             parseTimeout = setTimeout(parseStackTrace, 500);
         });
         
+        inputText.addEventListener('scroll', () => {
+            inputBackdrop.scrollTop = inputText.scrollTop;
+        });
+        
         // Handle keyboard shortcuts
-        inputText.addEventListener('keydown', (e) => {
+        [inputText, compareText].forEach(textarea => textarea.addEventListener('keydown', (e) => {
             if (e.ctrlKey && e.key === 'Enter') {
                 parseStackTrace();
             }
-        });
+        }));
     </script>
 </body>
 </html>`;
 }
 
+/**
+ * Response modes of the API endpoints: the first stack trace, or every stack trace in the input
+ */
+type ParseMode = 'single' | 'all';
+
+/**
+ * Create a JSON response
+ */
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Create a JSON error response
+ */
+function errorResponse(error: string, status = 400): Response {
+  return jsonResponse({ success: false, error }, status);
+}
+
+/**
+ * Validate the common `text` and `mode` fields of an API request body against the modes
+ * of the endpoint
+ */
+function validateTextRequest(body: { text?: unknown; mode?: unknown }, modes: readonly string[] = ['single', 'all']): string | null {
+  if (typeof body.text !== 'string') {
+    return 'Invalid input: text field is required and must be a string';
+  }
+  
+  if (body.mode !== undefined && !modes.includes(body.mode as string)) {
+    return `Invalid input: mode must be one of ${modes.map(mode => `"${mode}"`).join(', ')}`;
+  }
+  
+  return null;
+}
+
+/**
+ * Check the texts of a validated request against the configured input limits: 413 for
+ * texts that are too large, 422 for a pattern that can backtrack catastrophically
+ */
+function inputLimitResponse(env: Env, texts: Record<string, string>, patterns: Record<string, string | undefined> = {}): Response | null {
+  const limits = InputLimiter.resolveLimits(env);
+  
+  for (const [field, text] of Object.entries(texts)) {
+    const violation = InputLimiter.checkText(text, limits);
+    if (violation) {
+      return errorResponse(`Input too large: ${field} ${violation}`, 413);
+    }
+  }
+  
+  for (const [field, pattern] of Object.entries(patterns)) {
+    const unsafePattern = pattern ? InputLimiter.checkPattern(pattern) : null;
+    if (unsafePattern) {
+      return errorResponse(`Unprocessable input: ${field} ${unsafePattern}, which can take exponential time`, 422);
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Collect the user-supplied regular expressions of a request, keyed by field
+ */
+function requestPatterns(body: ParseOptions & HintOptions): Record<string, string | undefined> {
+  const patterns: Record<string, string | undefined> = { logPrefixPattern: body.logPrefixPattern };
+  (body.redactionPatterns || []).forEach((pattern, index) => {
+    patterns[`redactionPatterns[${index}]`] = pattern;
+  });
+  (body.hintRules || []).forEach((rule, index) => {
+    patterns[`hintRules[${index}].messagePattern`] = rule.messagePattern;
+    (rule.framePatterns || []).forEach((pattern, patternIndex) => {
+      patterns[`hintRules[${index}].framePatterns[${patternIndex}]`] = pattern;
+    });
+  });
+  return patterns;
+}
+
+/**
+ * Parse, structure and format one extracted stack trace
+ */
+function analyzeStackTrace(extractedStackTrace: string, options: ParseOptions & HtmlFormatOptions & HintOptions = {}, lineLocations?: InputLocation[]) {
+  // Parse stack trace
+  const parsedStackTrace = StackTraceParser.parseStackTrace(extractedStackTrace, options, lineLocations);
+  
+  // Build cause/suppressed hierarchy
+  const throwableTree = StackTraceParser.buildThrowableTree(parsedStackTrace);
+  
+  // Fingerprint for grouping duplicates
+  const fingerprint = StackTraceFingerprinter.fingerprint(parsedStackTrace);
+  
+  // Root cause and first application frame
+  const summary = StackTraceSummarizer.summarize(parsedStackTrace);
+  
+  // Known causes and fixes
+  const hints = KnowledgeBase.match(parsedStackTrace, options);
+  
+  // Format as HTML
+  const formattedHtml = BrowserCompatibleStackTraceParser.formatAsHtml(parsedStackTrace, options);
+  
+  return {
+    // Redaction rewrites the text as well
+    extractedStackTrace: parsedStackTrace.extractedText,
+    parsedStackTrace,
+    throwableTree,
+    fingerprint,
+    summary,
+    hints,
+    formattedHtml
+  };
+}
+
+/**
+ * Modes of /api/parse: `threads` parses the input as a thread dump, `junit` parses the
+ * failed tests of a JUnit XML report
+ */
+const PARSE_REQUEST_MODES = ['single', 'all', 'threads', 'junit'] as const;
+
+/**
+ * Request body of /api/parse, see `PARSE_REQUEST_MODES`
+ */
+type ParseRequest = { text: string; mode?: typeof PARSE_REQUEST_MODES[number]; sourceRepositories?: SourceRepository[]; hintRules?: HintRule[] } & ParseOptions;
+
+/**
+ * Result of /api/parse and /api/retrace, see `buildParseResult`
+ */
+interface ParseResult {
+  success: true;
+  parsedStackTrace?: ParsedStackTrace;
+  stackTraces?: { parsedStackTrace: ParsedStackTrace }[];
+  testFailures?: (Pick<TestFailure, 'className' | 'methodName'> & { parsedStackTrace: ParsedStackTrace })[];
+  threadDump?: ThreadDump;
+  [key: string]: unknown;
+}
+
+/**
+ * Resolve the parse and format options of a validated request body
+ */
+function resolveParseOptions(body: ParseRequest, env: Env): ParseOptions & HtmlFormatOptions & HintOptions {
+  return {
+    language: body.language || undefined,
+    reconstructElidedFrames: body.reconstructElidedFrames === true,
+    // Per-request packages and repositories take precedence over the configured ones
+    applicationPackages: body.applicationPackages || FrameClassifier.parsePackageList(env.APPLICATION_PACKAGES),
+    logPrefixPattern: body.logPrefixPattern || undefined,
+    redact: body.redact === true,
+    redactionPatterns: body.redactionPatterns,
+    sourceRepositories: body.sourceRepositories || SourceLinkResolver.parseRepositories(env.SOURCE_REPOSITORIES),
+    // Per-request rules are tried before the configured ones
+    hintRules: [...(body.hintRules || []), ...KnowledgeBase.parseRules(env.HINT_RULES)]
+  };
+}
+
+/**
+ * Build the /api/parse result for a request body whose text has been validated.
+ * `prepareExtracted` may rewrite each extracted stack trace before it is parsed,
+ * keeping its positions in the request text.
+ */
+function buildParseResult(
+  body: ParseRequest,
+  env: Env,
+  prepareExtracted: (extracted: ExtractedStackTrace) => ExtractedStackTrace = extracted => extracted
+): ParseResult {
+  const options = resolveParseOptions(body, env);
+  
+  if (body.mode === 'threads') {
+    const threadDump = ThreadDumpParser.parseThreadDump(body.text, options);
+    return { success: true, threadDump, formattedHtml: ThreadDumpParser.formatAsHtml(threadDump, options) };
+  }
+  
+  if (body.mode === 'junit') {
+    // The type and message attributes repeat the trace without being redacted
+    const testFailures = JUnitReportParser.parseReport(body.text).map(({ stackTrace, type, message, ...failure }) => ({
+      ...failure,
+      ...analyzeStackTrace(stackTrace, options)
+    }));
+    
+    return { success: true, testFailures };
+  }
+  
+  const analyzeExtracted = (found: ExtractedStackTrace) => {
+    const extracted = prepareExtracted(found);
+    return {
+      start: extracted.start,
+      end: extracted.end,
+      startLine: extracted.startLine,
+      endLine: extracted.endLine,
+      ...analyzeStackTrace(extracted.text, options, extracted.lineLocations)
+    };
+  };
+  
+  if (body.mode === 'all') {
+    // Extract every stack trace with its position in the input
+    const stackTraces = StackTraceParser.extractAllStackTraces(body.text, options).map(analyzeExtracted);
+    
+    return { success: true, stackTraces };
+  }
+  
+  // Extract stack trace
+  const extracted = StackTraceParser.findStackTrace(body.text, options);
+  
+  return {
+    success: true,
+    ...(extracted ? analyzeExtracted(extracted) : analyzeStackTrace('', options))
+  };
+}
+
+/**
+ * Validate the fields of an /api/parse request body
+ */
+function validateParseRequest(body: ParseRequest): string | null {
+  const validationError = validateTextRequest(body, PARSE_REQUEST_MODES);
+  if (validationError) {
+    return validationError;
+  }
+  
+  if (body.language !== undefined && !StackTraceParser.languages.includes(body.language)) {
+    return `Invalid input: language must be one of ${StackTraceParser.languages.join(', ')}`;
+  }
+  
+  if (body.applicationPackages !== undefined &&
+      (!Array.isArray(body.applicationPackages) || !body.applicationPackages.every(prefix => typeof prefix === 'string'))) {
+    return 'Invalid input: applicationPackages must be an array of strings';
+  }
+  
+  if (body.sourceRepositories !== undefined &&
+      (!Array.isArray(body.sourceRepositories) || !body.sourceRepositories.every(repository => SourceLinkResolver.isSourceRepository(repository)))) {
+    return 'Invalid input: sourceRepositories must be an array of { packagePrefix, host, url } objects with host github, gitlab, bitbucket or template';
+  }
+  
+  if (body.hintRules !== undefined &&
+      (!Array.isArray(body.hintRules) || !body.hintRules.every(rule => KnowledgeBase.isHintRule(rule)))) {
+    return 'Invalid input: hintRules must be an array of { id, title, hint } objects with at least one of exceptionClass, messagePattern and framePatterns, and valid regular expressions';
+  }
+  
+  if (body.logPrefixPattern !== undefined) {
+    if (typeof body.logPrefixPattern !== 'string') {
+      return 'Invalid input: logPrefixPattern must be a string';
+    }
+    try {
+      new RegExp(body.logPrefixPattern);
+    } catch {
+      return 'Invalid input: logPrefixPattern is not a valid regular expression';
+    }
+  }
+  
+  if (body.redactionPatterns !== undefined) {
+    if (!Array.isArray(body.redactionPatterns) || !body.redactionPatterns.every(pattern => typeof pattern === 'string')) {
+      return 'Invalid input: redactionPatterns must be an array of strings';
+    }
+    for (const pattern of body.redactionPatterns) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        return `Invalid input: redactionPatterns contains an invalid regular expression: ${pattern}`;
+      }
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Respond with a parse result in the requested format: JSON by default, a Markdown
+ * issue body for `?format=markdown`, terminal text for `?format=ansi` or `Accept: text/plain`
+ */
+function parseResultResponse(request: Request, env: Env, result: ParseResult): Response {
+  const url = new URL(request.url);
+  const format = url.searchParams.get('format') || (acceptsPlainText(request) ? 'ansi' : 'json');
+  
+  if (format !== 'markdown' && format !== 'ansi') {
+    return jsonResponse(result);
+  }
+  
+  if (result.threadDump) {
+    return errorResponse(`Invalid input: format=${format} is not supported for thread dumps`);
+  }
+  
+  // Failed tests of a JUnit report are headed by the test they belong to
+  const traces = (result.testFailures || result.stackTraces || [result])
+    .map(trace => ({
+      title: 'className' in trace ? `${trace.className}.${trace.methodName}` : undefined,
+      parsed: trace.parsedStackTrace
+    }))
+    .filter((trace): trace is { title: string | undefined; parsed: ParsedStackTrace } => !!trace.parsed && trace.parsed.hasStackTrace);
+  
+  if (format === 'markdown') {
+    const markdown = traces.length > 0
+      ? traces.map(({ title, parsed }) => `${title !== undefined ? `### \`${title}\`\n\n` : ''}${StackTraceParser.formatAsMarkdown(parsed)}`).join('\n\n---\n\n')
+      : '_No stack trace found_';
+    
+    return new Response(markdown, {
+      headers: { 'Content-Type': 'text/markdown; charset=utf-8' }
+    });
+  }
+  
+  const width = parseInt(url.searchParams.get('width') || '');
+  const options: AnsiRenderOptions = {
+    width: width > 0 ? width : undefined,
+    // https://no-color.org: `?no_color` from the client, or NO_COLOR configured for the worker
+    color: !url.searchParams.has('no_color') && !env.NO_COLOR
+  };
+  const text = traces.length > 0
+    ? traces.map(({ title, parsed }) => `${title !== undefined ? `${title}\n` : ''}${AnsiRenderer.format(parsed, options)}`).join('\n\n')
+    : 'No stack trace found';
+  
+  return new Response(text + '\n', {
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+  });
+}
+
+/**
+ * Check whether the client asked for plain text rather than JSON
+ */
+function acceptsPlainText(request: Request): boolean {
+  const accept = request.headers.get('Accept') || '';
+  return accept.includes('text/plain') && !accept.includes('application/json');
+}
+
+/**
+ * Read the body of /api/parse: a JSON request, or the raw text to parse as sent by
+ * `curl --data-binary @app.log`, with the mode taken from `?mode=`; XML bodies are read as
+ * JUnit reports
+ */
+async function readParseRequest(request: Request): Promise<ParseRequest> {
+  const body = await request.text();
+  const contentType = request.headers.get('Content-Type') || '';
+  
+  if (contentType.includes('application/json')) {
+    return JSON.parse(body) as ParseRequest;
+  }
+  
+  // JSON requests sent without a content type, e.g. with `curl -d`
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed.text === 'string') {
+      return parsed as ParseRequest;
+    }
+  } catch {
+    // Not JSON, parse the body itself
+  }
+  
+  const mode = new URL(request.url).searchParams.get('mode');
+  if (/\bxml\b/.test(contentType) || (!mode && JUnitReportParser.isJUnitReport(body))) {
+    return { text: body, mode: 'junit' };
+  }
+  return { text: body, mode: mode === 'all' || mode === 'threads' || mode === 'junit' ? mode : undefined };
+}
+
+/**
+ * Handle POST /api/parse
+ */
+async function handleParse(request: Request, env: Env): Promise<Response> {
+  const body = await readParseRequest(request);
+  
+  const validationError = validateParseRequest(body);
+  if (validationError) {
+    return errorResponse(validationError);
+  }
+  
+  const limitResponse = inputLimitResponse(env, { text: body.text }, requestPatterns(body));
+  if (limitResponse) {
+    return limitResponse;
+  }
+  
+  return parseResultResponse(request, env, buildParseResult(body, env));
+}
+
+/**
+ * Handle POST /api/parse-batch: the raw body is a log file, plain text or NDJSON log
+ * events, and every stack trace in it is streamed back as one NDJSON line. Options come
+ * from the query string: `?applicationPackages=com.example,org.acme&logPrefixPattern=...&reconstructElidedFrames=true`,
+ * `redact=true` with any number of `redactionPattern=...`, and `language` to parse every
+ * stack trace as one language instead of detecting it
+ */
+async function handleParseBatch(request: Request, env: Env): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const applicationPackages = params.get('applicationPackages');
+  const body: ParseRequest = {
+    text: await request.text(),
+    language: params.get('language') || undefined,
+    applicationPackages: applicationPackages !== null ? FrameClassifier.parsePackageList(applicationPackages) : undefined,
+    logPrefixPattern: params.get('logPrefixPattern') || undefined,
+    reconstructElidedFrames: params.get('reconstructElidedFrames') === 'true',
+    redact: params.get('redact') === 'true',
+    redactionPatterns: params.has('redactionPattern') ? params.getAll('redactionPattern') : undefined
+  };
+  
+  const validationError = validateParseRequest(body);
+  if (validationError) {
+    return errorResponse(validationError);
+  }
+  
+  const limitResponse = inputLimitResponse(env, { text: body.text }, requestPatterns(body));
+  if (limitResponse) {
+    return limitResponse;
+  }
+  
+  const results = BatchParser.parseAll(body.text, resolveParseOptions(body, env));
+  
+  return new Response(BatchParser.toNdjsonStream(results), {
+    headers: { 'Content-Type': 'application/x-ndjson' }
+  });
+}
+
+/**
+ * Handle POST /api/retrace: deobfuscate with a ProGuard/R8 mapping, then parse
+ */
+async function handleRetrace(request: Request, env: Env): Promise<Response> {
+  const body = await request.json() as ParseRequest & { mapping: string };
+  
+  const validationError = validateParseRequest(body);
+  if (validationError) {
+    return errorResponse(validationError);
+  }
+  
+  if (typeof body.mapping !== 'string') {
+    return errorResponse('Invalid input: mapping field is required and must be a string');
+  }
+  
+  const limitResponse = inputLimitResponse(env, { text: body.text, mapping: body.mapping }, requestPatterns(body));
+  if (limitResponse) {
+    return limitResponse;
+  }
+  
+  const mapping = ProguardRetracer.parseMapping(body.mapping);
+  if (mapping.classes.size === 0) {
+    return errorResponse('Invalid input: mapping contains no class mappings');
+  }
+  
+  // Retrace before extraction so that obfuscated exception headers are recognized;
+  // serialized stack traces only become visible once the extractor unescapes them.
+  // Positions are moved back into the request text, which is what clients show.
+  const retraced = ProguardRetracer.retraceText(body.text, mapping, { logPrefixPattern: body.logPrefixPattern || undefined });
+  const locate = ProguardRetracer.createLocator(body.text, retraced);
+  const result = buildParseResult({ ...body, text: retraced.text }, env, found => {
+    const extracted = locate(found);
+    if (!extracted.serialized) {
+      return extracted;
+    }
+    const retracedTrace = ProguardRetracer.retraceText(extracted.text, mapping);
+    return {
+      ...extracted,
+      text: retracedTrace.text,
+      lineLocations: retracedTrace.sourceLines.map(index => extracted.lineLocations[index])
+    };
+  });
+  
+  // The retraced input is the whole request text, so it is redacted as a whole
+  return parseResultResponse(request, env, {
+    ...result,
+    retracedInput: body.redact === true ? Redactor.redactText(retraced.text, body) : retraced.text
+  });
+}
+
+/**
+ * Handle POST /api/diff: align the first stack trace of two inputs
+ */
+async function handleDiff(request: Request, env: Env): Promise<Response> {
+  const body = await request.json() as { left: string; right: string; sourceRepositories?: SourceRepository[] } & ParseOptions;
+  
+  if (typeof body.left !== 'string' || typeof body.right !== 'string') {
+    return errorResponse('Invalid input: left and right fields are required and must be strings');
+  }
+  
+  const validationError = validateParseRequest({ ...body, text: body.left });
+  if (validationError) {
+    return errorResponse(validationError);
+  }
+  
+  const limitResponse = inputLimitResponse(env, { left: body.left, right: body.right }, requestPatterns(body));
+  if (limitResponse) {
+    return limitResponse;
+  }
+  
+  // Elided frames stay elided: `... N more` differences are noise in a diff
+  const options: ParseOptions & HtmlFormatOptions = {
+    language: body.language || undefined,
+    applicationPackages: body.applicationPackages || FrameClassifier.parsePackageList(env.APPLICATION_PACKAGES),
+    logPrefixPattern: body.logPrefixPattern || undefined,
+    redact: body.redact === true,
+    redactionPatterns: body.redactionPatterns,
+    sourceRepositories: body.sourceRepositories || SourceLinkResolver.parseRepositories(env.SOURCE_REPOSITORIES)
+  };
+  const parseSide = (text: string) => {
+    const parsedStackTrace = StackTraceParser.parseStackTrace(StackTraceParser.extractStackTrace(text, options), options);
+    return { extractedStackTrace: parsedStackTrace.extractedText, parsedStackTrace };
+  };
+  
+  const left = parseSide(body.left);
+  const right = parseSide(body.right);
+  const diff = StackTraceDiffer.diff(left.parsedStackTrace, right.parsedStackTrace);
+  
+  return jsonResponse({
+    success: true,
+    left,
+    right,
+    diff,
+    formattedHtml: StackTraceDiffer.formatAsHtml(diff, options)
+  });
+}
+
+/**
+ * Handle POST /api/fingerprint
+ */
+async function handleFingerprint(request: Request, env: Env): Promise<Response> {
+  const body = await request.json() as { text: string; mode?: ParseMode } & FingerprintOptions;
+  
+  const validationError = validateTextRequest(body);
+  if (validationError) {
+    return errorResponse(validationError);
+  }
+  
+  const limitResponse = inputLimitResponse(env, { text: body.text });
+  if (limitResponse) {
+    return limitResponse;
+  }
+  
+  const options: FingerprintOptions = {
+    ignoreLineNumbers: body.ignoreLineNumbers === true,
+    ignoreMessages: body.ignoreMessages === true
+  };
+  
+  const fingerprintOf = (stackTraceText: string) => {
+    const parsedStackTrace = StackTraceParser.parseStackTrace(stackTraceText);
+    const throwableTree = StackTraceParser.buildThrowableTree(parsedStackTrace);
+    return {
+      exceptionClass: throwableTree ? throwableTree.exceptionClass : null,
+      fingerprint: StackTraceFingerprinter.fingerprint(parsedStackTrace, options)
+    };
+  };
+  
+  if (body.mode === 'all') {
+    const fingerprints = StackTraceParser.extractAllStackTraces(body.text).map(extracted => ({
+      start: extracted.start,
+      end: extracted.end,
+      ...fingerprintOf(extracted.text)
+    }));
+    
+    return jsonResponse({ success: true, fingerprints });
+  }
+  
+  return jsonResponse({
+    success: true,
+    ...fingerprintOf(StackTraceParser.extractStackTrace(body.text))
+  });
+}
+
+/**
+ * Handle POST /api/share: store the input and options of a view in the SHARES KV
+ * namespace and return its permalink
+ */
+async function handleShare(request: Request, env: Env): Promise<Response> {
+  if (!env.SHARES) {
+    return errorResponse('Sharing is not configured: bind a KV namespace as SHARES', 503);
+  }
+  
+  const body = await request.json() as ShareRequest;
+  
+  const validationError = validateParseRequest(body);
+  if (validationError) {
+    return errorResponse(validationError);
+  }
+  
+  if ((body.compareText !== undefined && typeof body.compareText !== 'string') ||
+      (body.mapping !== undefined && typeof body.mapping !== 'string')) {
+    return errorResponse('Invalid input: compareText and mapping must be strings');
+  }
+  
+  if (body.reconstructElidedFrames !== undefined && typeof body.reconstructElidedFrames !== 'boolean') {
+    return errorResponse('Invalid input: reconstructElidedFrames must be a boolean');
+  }
+  
+  const limitResponse = inputLimitResponse(env, {
+    text: body.text,
+    compareText: body.compareText || '',
+    mapping: body.mapping || ''
+  }, requestPatterns(body));
+  if (limitResponse) {
+    return limitResponse;
+  }
+  
+  // Secrets never reach the store: the inputs are redacted before saving
+  const options = resolveParseOptions(body, env);
+  const redactions: RedactionCounts = {};
+  const redact = (text: string) => body.redact === true ? redactInput(text, options, redactions) : text;
+  
+  // Only the fields a view is rebuilt from are stored
+  const { id, view } = await ShareStore.save(env.SHARES, {
+    text: redact(body.text),
+    compareText: body.compareText !== undefined ? redact(body.compareText) : undefined,
+    mapping: body.mapping,
+    language: body.language || undefined,
+    reconstructElidedFrames: body.reconstructElidedFrames,
+    applicationPackages: body.applicationPackages,
+    logPrefixPattern: body.logPrefixPattern,
+    sourceRepositories: body.sourceRepositories,
+    redact: body.redact === true || undefined
+  }, ShareStore.resolveTtl(env.SHARE_TTL_SECONDS));
+  
+  return jsonResponse({
+    success: true,
+    id,
+    url: new URL('/s/' + id, request.url).toString(),
+    expiresAt: view.expiresAt,
+    ...(body.redact === true ? { redactions } : {})
+  }, 201);
+}
+
+/**
+ * Redact the exception messages of every stack trace in an input, adding the number of
+ * redacted values to `counts`. Serialized stack traces are escaped back into JSON.
+ */
+function redactInput(input: string, options: ParseOptions, counts: RedactionCounts): string {
+  const edits: TextEdit[] = [];
+  
+  for (const extracted of StackTraceParser.extractAllStackTraces(input, options)) {
+    const parsedStackTrace = StackTraceParser.parseStackTrace(extracted.text, { ...options, redact: true }, extracted.lineLocations);
+    for (const [category, count] of Object.entries(parsedStackTrace.redactions || {}) as [keyof RedactionCounts, number][]) {
+      counts[category] = (counts[category] || 0) + count;
+    }
+    
+    if (parsedStackTrace.extractedText !== extracted.text) {
+      // Quoted serialized stack traces are located including their quotes
+      const escaped = JSON.stringify(parsedStackTrace.extractedText);
+      edits.push({
+        start: extracted.start,
+        end: extracted.end,
+        text: !extracted.serialized ? parsedStackTrace.extractedText : input[extracted.start] === '"' ? escaped : escaped.slice(1, -1)
+      });
+    }
+  }
+  
+  return Redactor.applyEdits(input, edits);
+}
+
+/**
+ * Handle GET /s/<id>: serve the page with a shared view, which the page parses again
+ */
+async function handleSharedView(id: string, env: Env): Promise<Response> {
+  const view = env.SHARES ? await ShareStore.load(env.SHARES, id) : null;
+  
+  return new Response(getHtmlTemplate(view), {
+    status: view ? 200 : 404,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' }
+  });
+}
+
+/**
+ * API routes, keyed by path; all of them accept POST requests with a JSON body, and
+ * /api/parse and /api/parse-batch also the raw text
+ */
+const API_ROUTES: Record<string, (request: Request, env: Env) => Promise<Response>> = {
+  '/api/parse': handleParse,
+  '/api/parse-batch': handleParseBatch,
+  '/api/retrace': handleRetrace,
+  '/api/diff': handleDiff,
+  '/api/fingerprint': handleFingerprint,
+  '/api/share': handleShare
+};
+
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     
     // Handle API endpoints
-    if (url.pathname === '/api/parse' && request.method === 'POST') {
+    const apiHandler = API_ROUTES[url.pathname];
+    if (apiHandler && request.method === 'POST') {
+      // Refuse bodies that cannot fit the limits without reading them; a character takes
+      // at most six bytes in a JSON string
+      const contentLength = Number(request.headers.get('Content-Length'));
+      const maxInputLength = InputLimiter.resolveLimits(env).maxInputLength;
+      if (contentLength > maxInputLength * 6) {
+        return errorResponse(`Input too large: request body has ${contentLength} bytes, the limit is ${maxInputLength} characters`, 413);
+      }
+      
       try {
-        const { text } = await request.json() as { text: string };
-        
-        if (typeof text !== 'string') {
-          return new Response(JSON.stringify({
-            success: false,
-            error: 'Invalid input: text field is required and must be a string'
-          }), {
-            status: 400,
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
-        
-        // Extract stack trace
-        const extractedStackTrace = StackTraceParser.extractStackTrace(text);
-        
-        // Parse stack trace
-        const parsedStackTrace = StackTraceParser.parseStackTrace(extractedStackTrace);
-        
-        // Format as HTML
-        const formattedHtml = BrowserCompatibleStackTraceParser.formatAsHtml(parsedStackTrace);
-        
-        return new Response(JSON.stringify({
-          success: true,
-          extractedStackTrace,
-          parsedStackTrace,
-          formattedHtml
-        }), {
-          headers: { 'Content-Type': 'application/json' }
-        });
-        
+        return await apiHandler(request, env);
       } catch (error) {
-        return new Response(JSON.stringify({
-          success: false,
-          error: 'Failed to parse request: ' + (error instanceof Error ? error.message : 'Unknown error')
-        }), {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' }
-        });
+        return errorResponse('Failed to parse request: ' + (error instanceof Error ? error.message : 'Unknown error'));
       }
     }
     
+    // Shared views: /s/<id>
+    const shareMatch = url.pathname.match(/^\/s\/([^/]+)$/);
+    if (shareMatch && request.method === 'GET') {
+      return handleSharedView(shareMatch[1], env);
+    }
+    
     // Handle health check
     if (url.pathname === '/health') {
       return new Response(JSON.stringify({
@@ -484,5 +2118,19 @@ export default {
 
 // Type definitions for Cloudflare Workers
 export interface Env {
-  // Add any environment variables here
+  // Comma-separated package prefixes of application code, e.g. "com.example,org.acme"
+  APPLICATION_PACKAGES?: string;
+  // JSON array of source repositories to link frames to, see `SourceRepository`
+  SOURCE_REPOSITORIES?: string;
+  // Set to any non-empty value to render `?format=ansi` output without colors
+  NO_COLOR?: string;
+  // Longest accepted text in characters and most accepted lines, see `InputLimiter`
+  MAX_INPUT_LENGTH?: string;
+  MAX_INPUT_LINES?: string;
+  // KV namespace that /api/share stores views in; sharing is disabled without it
+  SHARES?: KVNamespace;
+  // Lifetime of shared views in seconds, 30 days by default, see `ShareStore`
+  SHARE_TTL_SECONDS?: string;
+  // JSON array of team rules for fix hints, see `HintRule`
+  HINT_RULES?: string;
 }
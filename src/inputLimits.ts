@@ -0,0 +1,242 @@
+/**
+ * Interface representing the limits on the text accepted for parsing
+ */
+export interface InputLimits {
+  // Longest text, in characters
+  maxInputLength: number;
+  // Most lines in a text
+  maxInputLines: number;
+}
+
+/**
+ * Interface representing limits configured as strings, e.g. Worker environment variables
+ */
+export interface InputLimitSettings {
+  MAX_INPUT_LENGTH?: string;
+  MAX_INPUT_LINES?: string;
+}
+
+/**
+ * Guard the parser against inputs too large to process within a request, and against
+ * user-supplied regular expressions that can backtrack catastrophically
+ */
+export class InputLimiter {
+  public static readonly DEFAULT_LIMITS: InputLimits = {
+    maxInputLength: 2_000_000,
+    maxInputLines: 100_000
+  };
+
+  /**
+   * Longest accepted `logPrefixPattern`; prefix patterns are short in practice
+   */
+  public static readonly MAX_PATTERN_LENGTH = 200;
+
+  /**
+   * Resolve the configured limits, falling back to the defaults for missing or invalid values
+   */
+  public static resolveLimits(settings: InputLimitSettings = {}): InputLimits {
+    const parseLimit = (value: string | undefined, fallback: number) => {
+      const limit = Number(value);
+      return value && Number.isInteger(limit) && limit > 0 ? limit : fallback;
+    };
+
+    return {
+      maxInputLength: parseLimit(settings.MAX_INPUT_LENGTH, this.DEFAULT_LIMITS.maxInputLength),
+      maxInputLines: parseLimit(settings.MAX_INPUT_LINES, this.DEFAULT_LIMITS.maxInputLines)
+    };
+  }
+
+  /**
+   * Check a text against the limits, returning a description of the exceeded limit
+   */
+  public static checkText(text: string, limits: InputLimits = this.DEFAULT_LIMITS): string | null {
+    if (text.length > limits.maxInputLength) {
+      return `has ${text.length} characters, the limit is ${limits.maxInputLength}`;
+    }
+
+    let lines = 1;
+    for (let index = text.indexOf('\n'); index >= 0; index = text.indexOf('\n', index + 1)) {
+      if (++lines > limits.maxInputLines) {
+        return `has more than ${limits.maxInputLines} lines`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Characters that stand for the alphabet when comparing what two atoms can match: ASCII
+   * and a few characters of other classes (letters, CJK, spaces, line separators)
+   */
+  private static readonly SAMPLE_CHARACTERS = [
+    ...Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)),
+    '\u00a0', '\u00e9', '\u0416', '\u4e2d', '\u2028'
+  ];
+
+  /**
+   * Check a user-supplied regular expression for constructs that can take exponential
+   * time, returning a description of the first one found:
+   * - quantified groups that contain a quantifier themselves, such as `(\d+)+`
+   * - quantified groups with alternatives, such as `(a|a)+`
+   * - quantified atoms that can match the same characters with nothing required between
+   *   them, such as `\d*\d*` or `\w+\d+`
+   * - backreferences
+   */
+  public static checkPattern(pattern: string): string | null {
+    if (pattern.length > this.MAX_PATTERN_LENGTH) {
+      return `is longer than ${this.MAX_PATTERN_LENGTH} characters`;
+    }
+
+    // Per open group: whether it contains an unbounded quantifier or alternatives, the
+    // characters its atoms match, and the characters of the unbounded quantified atoms
+    // that end the current branch (`null` once something is required after them)
+    interface Group {
+      lookaround: boolean;
+      hasQuantifier: boolean;
+      hasAlternation: boolean;
+      characters: boolean[];
+      entryTrailing: boolean[] | null;
+      trailing: boolean[] | null;
+      branchEnds: boolean[] | null;
+    }
+    const openGroup = (lookaround: boolean, trailing: boolean[] | null): Group => ({
+      lookaround,
+      hasQuantifier: false,
+      hasAlternation: false,
+      characters: this.SAMPLE_CHARACTERS.map(() => false),
+      entryTrailing: trailing,
+      trailing,
+      branchEnds: null
+    });
+    const groups: Group[] = [openGroup(false, null)];
+
+    for (let i = 0; i < pattern.length; i++) {
+      const group = groups[groups.length - 1];
+      const char = pattern[i];
+      let atom: string;
+
+      if (char === '(') {
+        const prefix = pattern.substring(i).match(/^\((?:\?(?:[:=!]|<[=!]|<[A-Za-z_$][\w$]*>))?/)![0];
+        const lookaround = /^\(\?<?[=!]/.test(prefix);
+        groups.push(openGroup(lookaround, lookaround ? null : group.trailing));
+        i += prefix.length - 1;
+        continue;
+      } else if (char === '|') {
+        group.hasAlternation = true;
+        group.branchEnds = this.union(group.branchEnds, group.trailing);
+        group.trailing = group.entryTrailing;
+        continue;
+      } else if (char === '^' || char === '$') {
+        continue;
+      } else if (char === '\\') {
+        const escape = pattern.substring(i).match(/^\\(?:[1-9]|k<|[xX][0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|u\{[0-9a-fA-F]+\}|[pP]\{[^}]*\}|c[A-Za-z]|[\s\S])/)?.[0] || '\\';
+        if (/^\\(?:[1-9]|k<)/.test(escape)) {
+          return 'contains a backreference';
+        }
+        i += escape.length - 1;
+        if (escape === '\\b' || escape === '\\B') {
+          continue;
+        }
+        atom = escape;
+      } else if (char === '[') {
+        let end = i + 1;
+        while (end < pattern.length && pattern[end] !== ']') {
+          end += pattern[end] === '\\' ? 2 : 1;
+        }
+        atom = pattern.substring(i, end + 1);
+        i = end;
+      } else if (char === ')' && groups.length > 1) {
+        groups.pop();
+        const parent = groups[groups.length - 1];
+        const quantifier = this.readQuantifier(pattern, i + 1);
+        i += quantifier.length;
+
+        if (group.lookaround) {
+          if (group.hasQuantifier && quantifier.unbounded) {
+            return 'contains a nested quantifier';
+          }
+          continue;
+        }
+
+        if (quantifier.unbounded && group.hasQuantifier) {
+          return 'contains a nested quantifier';
+        }
+        if (quantifier.unbounded && group.hasAlternation) {
+          return 'contains a quantified alternation';
+        }
+
+        const ends = this.union(group.branchEnds, group.trailing);
+        parent.hasQuantifier = parent.hasQuantifier || group.hasQuantifier || quantifier.unbounded;
+        parent.characters = this.union(parent.characters, group.characters)!;
+        if (quantifier.unbounded) {
+          if (this.overlaps(parent.trailing, group.characters)) {
+            return 'contains adjacent quantifiers that overlap';
+          }
+          parent.trailing = this.union(parent.trailing, group.characters);
+        } else {
+          parent.trailing = quantifier.optional ? this.union(parent.trailing, ends) : ends;
+        }
+        continue;
+      } else {
+        atom = char;
+      }
+
+      const characters = this.matchedCharacters(atom);
+      const quantifier = this.readQuantifier(pattern, i + 1);
+      i += quantifier.length;
+
+      group.characters = this.union(group.characters, characters)!;
+      if (quantifier.unbounded) {
+        if (this.overlaps(group.trailing, characters)) {
+          return 'contains adjacent quantifiers that overlap';
+        }
+        group.hasQuantifier = true;
+        group.trailing = this.union(group.trailing, characters);
+      } else if (!quantifier.optional) {
+        group.trailing = null;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Read the quantifier starting at an index, if any, with its lazy `?`. Quantifiers that
+   * repeat more than a fixed number of times (`*`, `+`, `{n,}`, `{n,m}`) are unbounded;
+   * those that allow no repetition at all (`*`, `?`, `{0,m}`) are optional.
+   */
+  private static readQuantifier(pattern: string, index: number): { length: number; unbounded: boolean; optional: boolean } {
+    const match = pattern.substring(index, index + 24).match(/^(?:[*+?]|\{(\d+)(,\d*)?\})\??/);
+    if (!match) {
+      return { length: 0, unbounded: false, optional: false };
+    }
+
+    const symbol = match[0][0];
+    return {
+      length: match[0].length,
+      unbounded: symbol === '*' || symbol === '+' || match[2] !== undefined,
+      optional: symbol === '*' || symbol === '?' || match[1] === '0'
+    };
+  }
+
+  /**
+   * Work out which sample characters a single atom (a character, escape, class or `.`)
+   * matches; atoms that do not compile on their own match everything
+   */
+  private static matchedCharacters(atom: string): boolean[] {
+    try {
+      const regex = new RegExp(`^(?:${atom})$`);
+      return this.SAMPLE_CHARACTERS.map(char => regex.test(char));
+    } catch {
+      return this.SAMPLE_CHARACTERS.map(() => true);
+    }
+  }
+
+  private static union(a: boolean[] | null, b: boolean[] | null): boolean[] | null {
+    return a && b ? a.map((value, index) => value || b[index]) : a || b;
+  }
+
+  private static overlaps(a: boolean[] | null, b: boolean[]): boolean {
+    return !!a && a.some((value, index) => value && b[index]);
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Interface representing a failed test of a JUnit XML report
+ */
+export interface TestFailure {
+  // `failure` for a failed assertion, `error` for an unexpected exception
+  kind: 'failure' | 'error';
+  // Name of the enclosing `<testsuite>`
+  suiteName?: string;
+  // `classname` and `name` of the `<testcase>`
+  className: string;
+  methodName: string;
+  // `type` and `message` attributes of the failure element
+  type?: string;
+  message?: string;
+  // Content of the failure element, decoded; `type: message` when it is empty
+  stackTrace: string;
+  // Position of the failure element in the report: character offsets (end exclusive)
+  // and the 1-based line it starts on
+  start: number;
+  end: number;
+  line: number;
+}
+
+/**
+ * Read the failures of JUnit XML reports as Maven Surefire/Failsafe, Gradle and the JUnit
+ * Platform write them (`TEST-*.xml`, `<testsuites>` or a single `<testsuite>`).
+ *
+ * The reports are scanned for the few elements that matter instead of being parsed as a
+ * whole, in time linear in the size of the report; elements left open at the end of the
+ * input are ignored.
+ */
+export class JUnitReportParser {
+  // Start and end tags of the elements read from a report
+  private static readonly TAG_PATTERN = /<(\/?)(testsuite|testcase|failure|error)(?=[\s/>])/g;
+
+  // Attribute of a start tag: name="value" or name='value'; names start at a boundary
+  private static readonly ATTRIBUTE_PATTERN = /(?<![\w:.-])([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  private static readonly ENTITY_PATTERN = /&(?:#x([0-9a-fA-F]+)|#(\d+)|(lt|gt|amp|quot|apos));/g;
+
+  private static readonly NAMED_ENTITIES: Record<string, string> = {
+    lt: '<',
+    gt: '>',
+    amp: '&',
+    quot: '"',
+    apos: "'"
+  };
+
+  /**
+   * Patterns a JUnit XML report matches all of: a `<testsuites>` or `<testsuite>` and a
+   * `<testcase>` element. The page script checks pasted text with them as well.
+   */
+  public static readonly REPORT_PATTERNS: readonly RegExp[] = [/<testsuites?[\s>]/, /<testcase[\s/>]/];
+
+  /**
+   * Check whether a text is a JUnit XML report
+   */
+  public static isJUnitReport(text: string): boolean {
+    return this.REPORT_PATTERNS.every(pattern => pattern.test(text));
+  }
+
+  /**
+   * Find the `<failure>` and `<error>` elements of a report, in report order, with the
+   * test case and suite they belong to
+   */
+  public static parseReport(text: string): TestFailure[] {
+    const failures: TestFailure[] = [];
+    const suiteNames: (string | undefined)[] = [];
+    let testCase: Record<string, string> | null = null;
+
+    // Line numbers are counted as the scan moves forward
+    let countedUpTo = 0;
+    let line = 1;
+    const lineAt = (index: number) => {
+      for (; countedUpTo < index; countedUpTo++) {
+        if (text.charCodeAt(countedUpTo) === 10) {
+          line++;
+        }
+      }
+      return line;
+    };
+
+    const tagPattern = new RegExp(this.TAG_PATTERN.source, 'g');
+    let match: RegExpExecArray | null;
+
+    while ((match = tagPattern.exec(text)) !== null) {
+      const [, closing, name] = match;
+      const tagEnd = text.indexOf('>', tagPattern.lastIndex);
+      if (tagEnd < 0) {
+        break;
+      }
+      tagPattern.lastIndex = tagEnd + 1;
+
+      if (closing) {
+        if (name === 'testsuite') {
+          suiteNames.pop();
+        } else if (name === 'testcase') {
+          testCase = null;
+        }
+        continue;
+      }
+
+      const selfClosing = text[tagEnd - 1] === '/';
+      const attributes = this.parseAttributes(text.substring(match.index + match[0].length, selfClosing ? tagEnd - 1 : tagEnd));
+
+      if (name === 'testsuite') {
+        if (!selfClosing) {
+          suiteNames.push(attributes.name);
+        }
+      } else if (name === 'testcase') {
+        testCase = selfClosing ? null : attributes;
+      } else if (testCase) {
+        let content = '';
+        let end = tagEnd + 1;
+        if (!selfClosing) {
+          const closeTag = `</${name}>`;
+          const contentEnd = text.indexOf(closeTag, tagEnd + 1);
+          if (contentEnd < 0) {
+            break;
+          }
+          content = this.decodeText(text.substring(tagEnd + 1, contentEnd));
+          end = contentEnd + closeTag.length;
+          tagPattern.lastIndex = end;
+        }
+
+        const { type, message } = attributes;
+        const stackTrace = content.replace(/^\s*\n/, '').trimEnd() ||
+          [type, message].filter(part => part !== undefined && part !== '').join(': ');
+
+        failures.push({
+          kind: name as TestFailure['kind'],
+          suiteName: suiteNames[suiteNames.length - 1],
+          className: testCase.classname || '',
+          methodName: testCase.name || '',
+          type,
+          message,
+          stackTrace,
+          start: match.index,
+          end,
+          line: lineAt(match.index)
+        });
+      }
+    }
+
+    return failures;
+  }
+
+  /**
+   * Parse the attributes of a start tag, decoding their values
+   */
+  private static parseAttributes(tag: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+
+    for (const match of tag.matchAll(this.ATTRIBUTE_PATTERN)) {
+      attributes[match[1]] = this.decodeEntities(match[2] ?? match[3]);
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Decode element content: entities outside CDATA sections, CDATA sections as written
+   */
+  private static decodeText(content: string): string {
+    const parts: string[] = [];
+    let position = 0;
+
+    while (position < content.length) {
+      const cdataStart = content.indexOf('<![CDATA[', position);
+      if (cdataStart < 0) {
+        parts.push(this.decodeEntities(content.substring(position)));
+        break;
+      }
+      parts.push(this.decodeEntities(content.substring(position, cdataStart)));
+
+      const cdataEnd = content.indexOf(']]>', cdataStart + 9);
+      if (cdataEnd < 0) {
+        parts.push(content.substring(cdataStart + 9));
+        break;
+      }
+      parts.push(content.substring(cdataStart + 9, cdataEnd));
+      position = cdataEnd + 3;
+    }
+
+    return parts.join('');
+  }
+
+  /**
+   * Replace the predefined entities and character references; unknown entities are kept
+   */
+  private static decodeEntities(text: string): string {
+    return text.replace(this.ENTITY_PATTERN, (entity, hex: string | undefined, decimal: string | undefined, name: string | undefined) => {
+      if (name) {
+        return this.NAMED_ENTITIES[name];
+      }
+      const codePoint = parseInt(hex ?? decimal!, hex ? 16 : 10);
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    });
+  }
+}
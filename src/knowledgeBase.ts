@@ -0,0 +1,318 @@
+import { StackTraceParser, ParsedStackTrace, ThrowableNode } from './stackTraceParser';
+
+/**
+ * Interface representing a rule of the knowledge base. A rule matches a throwable when
+ * every condition it has holds; it needs at least one condition.
+ */
+export interface HintRule {
+  id: string;
+  // Fully qualified or simple class name of the throwable, or several alternatives
+  exceptionClass?: string | string[];
+  // Regular expression tested against the message
+  messagePattern?: string;
+  // Regular expressions that must each match `className.methodName` of some frame of the
+  // throwable or of the throwables enclosing it (their frames are the ones `... N more` elides)
+  framePatterns?: string[];
+  title: string;
+  hint: string;
+  // Documentation to read further
+  link?: string;
+}
+
+/**
+ * Interface representing a hint matched to a throwable of a stack trace
+ */
+export interface FixHint {
+  ruleId: string;
+  title: string;
+  hint: string;
+  link?: string;
+  exceptionClass: string;
+  message?: string;
+}
+
+/**
+ * Interface representing the options for matching hints
+ */
+export interface HintOptions {
+  // Team rules; they are tried before the built-in ones and replace built-in rules with the same id
+  hintRules?: HintRule[];
+}
+
+/**
+ * Interface representing a throwable being matched: its depth in the cause chain and
+ * the throwable enclosing it, whose frames it can see as well
+ */
+interface VisibleThrowable {
+  node: ThrowableNode;
+  depth: number;
+  enclosing?: VisibleThrowable;
+}
+
+/**
+ * Match the throwables of parsed stack traces to known causes and their fixes
+ */
+export class KnowledgeBase {
+  /**
+   * Built-in rules for common JDK, Spring and Hibernate exceptions. Rules are tried in
+   * order and the first match per throwable wins, so specific rules come first.
+   */
+  public static readonly BUILT_IN_RULES: HintRule[] = [
+    {
+      id: 'db-connection-refused',
+      exceptionClass: 'java.net.ConnectException',
+      messagePattern: 'Connection refused',
+      framePatterns: ['ConnectionPool|HikariPool|DataSource|[Dd]river|\\.jdbc\\.'],
+      title: 'Database unreachable',
+      hint: 'The connection pool could not reach the database. Check that the database is up and reachable from this host, and the host and port in the pool\'s JDBC URL.'
+    },
+    {
+      id: 'connection-refused',
+      exceptionClass: 'java.net.ConnectException',
+      messagePattern: 'Connection refused',
+      title: 'Remote service unreachable',
+      hint: 'Nothing accepted the connection on the target host and port. Check that the service is running, the configured address and port, and firewalls in between.'
+    },
+    {
+      id: 'unknown-host',
+      exceptionClass: 'java.net.UnknownHostException',
+      title: 'Host name does not resolve',
+      hint: 'DNS has no address for the host. Check the configured host name for typos and the DNS setup of this environment, e.g. the service name in Kubernetes.'
+    },
+    {
+      id: 'read-timeout',
+      exceptionClass: 'java.net.SocketTimeoutException',
+      messagePattern: '[Rr]ead timed out',
+      title: 'Downstream call timed out',
+      hint: 'The remote side accepted the connection but did not answer in time. Look at the latency of the called service and whether the read timeout fits it.'
+    },
+    {
+      id: 'pkix-path',
+      exceptionClass: ['javax.net.ssl.SSLHandshakeException', 'sun.security.validator.ValidatorException', 'sun.security.provider.certpath.SunCertPathBuilderException'],
+      messagePattern: 'PKIX path building failed|unable to find valid certification path',
+      title: 'Server certificate not trusted',
+      hint: 'The JVM truststore does not contain the CA that signed the server certificate. Import the CA into the truststore the application uses instead of disabling certificate checks.'
+    },
+    {
+      id: 'address-in-use',
+      exceptionClass: 'java.net.BindException',
+      messagePattern: 'Address already in use',
+      title: 'Port already in use',
+      hint: 'Another process, often an earlier instance of the application, is listening on the port. Stop it or configure a different port.'
+    },
+    {
+      id: 'hikari-pool-exhausted',
+      exceptionClass: 'java.sql.SQLTransientConnectionException',
+      messagePattern: 'Connection is not available, request timed out',
+      title: 'Connection pool exhausted',
+      hint: 'Every pooled connection was in use for the whole connection timeout. Look for slow queries, long transactions and connections that are never closed (enable leakDetectionThreshold) before raising maximumPoolSize.',
+      link: 'https://github.com/brettwooldridge/HikariCP/wiki/About-Pool-Sizing'
+    },
+    {
+      id: 'db-deadlock',
+      exceptionClass: ['org.springframework.dao.DeadlockLoserDataAccessException', 'org.springframework.dao.CannotAcquireLockException', 'java.sql.SQLTransactionRollbackException'],
+      title: 'Database deadlock',
+      hint: 'Two transactions waited for each other\'s locks and the database rolled one back. Retry the transaction, and access rows in the same order in all transactions.'
+    },
+    {
+      id: 'constraint-violation',
+      exceptionClass: ['java.sql.SQLIntegrityConstraintViolationException', 'org.hibernate.exception.ConstraintViolationException', 'org.springframework.dao.DataIntegrityViolationException', 'org.springframework.dao.DuplicateKeyException'],
+      title: 'Database constraint violated',
+      hint: 'The statement broke a unique, foreign key or not-null constraint, often a duplicate insert. The constraint name in the message tells which; check for concurrent inserts of the same key.'
+    },
+    {
+      id: 'optimistic-lock',
+      exceptionClass: ['jakarta.persistence.OptimisticLockException', 'javax.persistence.OptimisticLockException', 'org.hibernate.StaleObjectStateException', 'org.springframework.orm.ObjectOptimisticLockingFailureException'],
+      title: 'Concurrent update',
+      hint: 'Another transaction updated the entity after it was loaded, so its version no longer matches. Reload and retry, or show the conflict to the user.'
+    },
+    {
+      id: 'lazy-initialization',
+      exceptionClass: 'org.hibernate.LazyInitializationException',
+      title: 'Hibernate session closed',
+      hint: 'A lazy association was loaded after its session closed, typically outside the transaction or in the view. Fetch it in the query (JOIN FETCH or an entity graph) or map it to a DTO inside the transaction; enabling open-in-view only hides the problem.'
+    },
+    {
+      id: 'no-transaction',
+      exceptionClass: ['jakarta.persistence.TransactionRequiredException', 'javax.persistence.TransactionRequiredException', 'org.springframework.dao.InvalidDataAccessApiUsageException'],
+      messagePattern: 'No EntityManager with actual transaction available|Executing an update/delete query',
+      title: 'No transaction',
+      hint: 'A modifying query ran without a transaction. Annotate the calling service method with @Transactional, and call it through the Spring proxy rather than from the same class.'
+    },
+    {
+      id: 'no-such-bean',
+      exceptionClass: ['org.springframework.beans.factory.NoSuchBeanDefinitionException', 'org.springframework.beans.factory.NoUniqueBeanDefinitionException'],
+      title: 'Missing or ambiguous Spring bean',
+      hint: 'No single bean matches the injection point. Check component scanning and @Configuration classes, conditions on auto-configuration and active profiles; with several candidates, mark one @Primary or use @Qualifier.'
+    },
+    {
+      id: 'circular-dependency',
+      exceptionClass: 'org.springframework.beans.factory.BeanCurrentlyInCreationException',
+      title: 'Circular bean dependency',
+      hint: 'Beans depend on each other through their constructors. Break the cycle by moving the shared logic into a third bean, or inject one side lazily with @Lazy.'
+    },
+    {
+      id: 'metaspace',
+      exceptionClass: 'java.lang.OutOfMemoryError',
+      messagePattern: 'Metaspace',
+      title: 'Metaspace exhausted, likely a class loader leak',
+      hint: 'Class metadata filled Metaspace. When it grows with every redeploy or with generated classes (proxies, scripts), a class loader is leaking; take a heap dump and look for class loaders of old deployments.'
+    },
+    {
+      id: 'heap-space',
+      exceptionClass: 'java.lang.OutOfMemoryError',
+      messagePattern: 'Java heap space|GC overhead limit exceeded',
+      title: 'Heap exhausted',
+      hint: 'The heap is full of reachable objects. Run with -XX:+HeapDumpOnOutOfMemoryError and look for the largest retainers, such as unbounded caches or whole result sets loaded into memory, before raising -Xmx.'
+    },
+    {
+      id: 'native-thread',
+      exceptionClass: 'java.lang.OutOfMemoryError',
+      messagePattern: 'unable to create (?:new )?native thread',
+      title: 'Thread limit reached',
+      hint: 'The operating system refused another thread. Look for thread pools without bounds or threads that never end in a thread dump, and check the process and container thread limits.'
+    },
+    {
+      id: 'stack-overflow',
+      exceptionClass: 'java.lang.StackOverflowError',
+      title: 'Unbounded recursion',
+      hint: 'A call cycle repeats until the stack runs out; the repeating frames show the cycle. Common causes are recursive toString/equals/hashCode or JSON serialization of bidirectional entity relations.'
+    },
+    {
+      id: 'linkage-error',
+      exceptionClass: ['java.lang.NoSuchMethodError', 'java.lang.NoSuchFieldError', 'java.lang.NoClassDefFoundError', 'java.lang.AbstractMethodError', 'java.lang.IncompatibleClassChangeError'],
+      title: 'Dependency version conflict',
+      hint: 'The code was compiled against a different version of a library than the one on the classpath. Compare versions with mvn dependency:tree or gradle dependencies and align them.'
+    },
+    {
+      id: 'concurrent-modification',
+      exceptionClass: 'java.util.ConcurrentModificationException',
+      title: 'Collection modified during iteration',
+      hint: 'A collection changed while it was being iterated, by the same thread (remove inside a for-each loop) or by another one. Use Iterator.remove or removeIf, or a concurrent collection.'
+    }
+  ];
+
+  /**
+   * Match the throwables of a stack trace, innermost cause first, to hints. Each rule
+   * appears at most once.
+   */
+  public static match(parsedStackTrace: ParsedStackTrace, options: HintOptions = {}): FixHint[] {
+    const root = StackTraceParser.buildThrowableTree(parsedStackTrace);
+    if (!root) {
+      return [];
+    }
+
+    const teamRules = options.hintRules || [];
+    const rules = [...teamRules, ...this.BUILT_IN_RULES.filter(rule => !teamRules.some(teamRule => teamRule.id === rule.id))];
+
+    // Every throwable in the order it is printed, visited with a stack rather than
+    // recursion since cause chains can be thousands of throwables long
+    const throwables: VisibleThrowable[] = [];
+    const pending: VisibleThrowable[] = [{ node: root, depth: 0 }];
+    while (pending.length > 0) {
+      const throwable = pending.pop()!;
+      throwables.push(throwable);
+      [...throwable.node.suppressed].reverse().forEach(suppressed => pending.push({ node: suppressed, depth: throwable.depth + 1, enclosing: throwable }));
+      if (throwable.node.cause) {
+        pending.push({ node: throwable.node.cause, depth: throwable.depth + 1, enclosing: throwable });
+      }
+    }
+    throwables.sort((a, b) => b.depth - a.depth);
+
+    const hints: FixHint[] = [];
+    for (const throwable of throwables) {
+      const { node } = throwable;
+      const rule = rules.find(candidate => this.matches(candidate, throwable));
+      if (rule && !hints.some(hint => hint.ruleId === rule.id)) {
+        hints.push({
+          ruleId: rule.id,
+          title: rule.title,
+          hint: rule.hint,
+          link: rule.link,
+          exceptionClass: node.exceptionClass,
+          message: node.message
+        });
+      }
+    }
+
+    return hints;
+  }
+
+  /**
+   * Parse team rules from a JSON array, e.g. an environment variable; invalid rules are skipped
+   */
+  public static parseRules(value: string | undefined): HintRule[] {
+    if (!value || value.trim() === '') {
+      return [];
+    }
+
+    try {
+      const rules: unknown = JSON.parse(value);
+      return Array.isArray(rules) ? rules.filter(rule => this.isHintRule(rule)) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Check whether a value from a request or the environment is a valid rule
+   */
+  public static isHintRule(value: unknown): value is HintRule {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+
+    const rule = value as Record<string, unknown>;
+    const isStringList = (list: unknown) => Array.isArray(list) && list.every(item => typeof item === 'string');
+    const isPattern = (pattern: unknown) => {
+      if (typeof pattern !== 'string') {
+        return false;
+      }
+      try {
+        new RegExp(pattern);
+        return true;
+      } catch {
+        return false;
+      }
+    };
+
+    return typeof rule.id === 'string' &&
+      typeof rule.title === 'string' &&
+      typeof rule.hint === 'string' &&
+      (rule.exceptionClass !== undefined || rule.messagePattern !== undefined || rule.framePatterns !== undefined) &&
+      (rule.exceptionClass === undefined || typeof rule.exceptionClass === 'string' || isStringList(rule.exceptionClass)) &&
+      (rule.messagePattern === undefined || isPattern(rule.messagePattern)) &&
+      (rule.framePatterns === undefined || (isStringList(rule.framePatterns) && (rule.framePatterns as string[]).every(isPattern))) &&
+      (rule.link === undefined || (typeof rule.link === 'string' && /^https?:\/\//.test(rule.link)));
+  }
+
+  /**
+   * Check whether a rule matches a throwable, looking for frames in the throwables
+   * enclosing it as well
+   */
+  private static matches(rule: HintRule, throwable: VisibleThrowable): boolean {
+    const { node } = throwable;
+    if (rule.exceptionClass !== undefined) {
+      const classNames = Array.isArray(rule.exceptionClass) ? rule.exceptionClass : [rule.exceptionClass];
+      // Simple names match any package
+      const simpleName = node.exceptionClass.substring(node.exceptionClass.lastIndexOf('.') + 1);
+      if (!classNames.some(className => className === node.exceptionClass || className === simpleName)) {
+        return false;
+      }
+    }
+
+    if (rule.messagePattern !== undefined && !new RegExp(rule.messagePattern).test(node.message || '')) {
+      return false;
+    }
+
+    return (rule.framePatterns || []).every(pattern => {
+      const framePattern = new RegExp(pattern);
+      for (let visible: VisibleThrowable | undefined = throwable; visible; visible = visible.enclosing) {
+        if (visible.node.frames.some(frame => framePattern.test(`${frame.className}.${frame.methodName}`))) {
+          return true;
+        }
+      }
+      return false;
+    });
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Interface representing the options for stripping log prefixes
+ */
+export interface LogPrefixOptions {
+  // Regular expression source of the prefix to strip; detected automatically if omitted
+  logPrefixPattern?: string;
+}
+
+/**
+ * Interface representing a line split into its log prefix and the remaining text
+ */
+export interface StrippedLine {
+  prefix: string;
+  text: string;
+}
+
+/**
+ * Strip prefixes that log pipelines put in front of every line, such as
+ * `kubectl logs --timestamps`, journalctl, syslog or logback patterns repeating the
+ * timestamp and thread, and unwrap Docker JSON-file log lines
+ */
+export class LogPrefixStripper {
+  /**
+   * A frame line with something other than whitespace in front of `at`
+   */
+  private static readonly PREFIXED_FRAME_PATTERN = /^(.*?\S)\s+at\s+[^\s()]+\([^()]*\)\s*$/;
+
+  private static readonly DOCKER_JSON_LOG_PATTERN = /"log"\s*:\s*"/;
+
+  /**
+   * Split every line into its log prefix and text. Lines without a prefix keep their
+   * text and get an empty prefix.
+   */
+  public static stripLines(lines: string[], options: LogPrefixOptions = {}): StrippedLine[] {
+    const unwrapped = lines.map(line => this.unwrapDockerJson(line) || { prefix: '', text: line });
+
+    const patterns = options.logPrefixPattern
+      ? [new RegExp(`^(?:${options.logPrefixPattern})`)]
+      : this.detectPrefixPatterns(unwrapped.map(line => line.text));
+
+    if (patterns.length === 0) {
+      return unwrapped;
+    }
+
+    return unwrapped.map(line => {
+      for (const pattern of patterns) {
+        const match = line.text.match(pattern);
+        if (match && match[0] !== '') {
+          const prefix = match[0];
+          return {
+            prefix: line.prefix ? `${line.prefix} ${prefix}` : prefix,
+            text: line.text.substring(prefix.length)
+          };
+        }
+      }
+      return line;
+    });
+  }
+
+  /**
+   * Detect repeated prefixes from the frame lines: prefixes that have the same shape,
+   * with digits masked, on at least two frames are turned into patterns
+   */
+  public static detectPrefixPatterns(lines: string[]): RegExp[] {
+    const shapeCounts = new Map<string, number>();
+
+    for (const line of lines) {
+      const match = line.match(this.PREFIXED_FRAME_PATTERN);
+      if (match) {
+        const shape = this.escapeRegExp(match[1]).replace(/\d+/g, '\\d+');
+        shapeCounts.set(shape, (shapeCounts.get(shape) || 0) + 1);
+      }
+    }
+
+    // The separator after the prefix is stripped too, the indentation of frames is kept
+    return [...shapeCounts.entries()]
+      .filter(([, count]) => count >= 2)
+      .sort((a, b) => b[1] - a[1])
+      .map(([shape]) => new RegExp(`^${shape} ?`));
+  }
+
+  /**
+   * Unwrap a Docker JSON-file log line: {"log":"\tat ...\n","stream":"stderr","time":"..."}
+   */
+  private static unwrapDockerJson(line: string): StrippedLine | null {
+    // Checked piecewise: a single `^\{.*"log".*\}$` pattern backtracks quadratically
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{') || !trimmed.endsWith('}') || !this.DOCKER_JSON_LOG_PATTERN.test(trimmed)) {
+      return null;
+    }
+
+    try {
+      const entry = JSON.parse(line) as { log?: unknown; stream?: unknown; time?: unknown };
+      if (typeof entry.log !== 'string') {
+        return null;
+      }
+
+      return {
+        prefix: [entry.time, entry.stream].filter(value => typeof value === 'string').join(' '),
+        text: entry.log.replace(/\r?\n$/, '')
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Escape regular expression special characters
+   */
+  private static escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
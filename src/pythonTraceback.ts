@@ -0,0 +1,257 @@
+import type { StackTraceLine, ThrowableNode, LineRange } from './stackTraceParser';
+
+/**
+ * Parse Python tracebacks, including chained exceptions:
+ *
+ * ```
+ * Traceback (most recent call last):
+ *   File "/app/orders/views.py", line 42, in create
+ *     order = Order.objects.get(pk=order_id)
+ * orders.models.Order.DoesNotExist: Order matching query does not exist.
+ *
+ * During handling of the above exception, another exception occurred:
+ *
+ * Traceback (most recent call last):
+ *   ...
+ * ```
+ *
+ * Python prints frames most recent call last and the exception that was raised first
+ * at the top, the reverse of Java.
+ */
+export class PythonTracebackParser {
+  public static readonly language = 'python';
+
+  private static readonly TRACEBACK_PATTERN = /^\s*Traceback \(most recent call last\):\s*$/;
+
+  // "During handling of the above exception, another exception occurred:" (implicit
+  // chaining through __context__) or "The above exception was the direct cause of the
+  // following exception:" (`raise ... from ...`)
+  private static readonly CHAIN_PATTERN = /^\s*(?:During handling of the above exception, another exception occurred|The above exception was the direct cause of the following exception):\s*$/;
+
+  // Frame line: File "/app/orders/views.py", line 42, in create; module-level code is
+  // `in <module>`, and syntax errors print no function at all. Matched against the
+  // trimmed line, so that the function name cannot backtrack into trailing whitespace
+  private static readonly FRAME_PATTERN = /^File "(.*)", line (\d+)(?:, in (\S(?:.*\S)?))?$/;
+
+  // Recursion folded by the interpreter: [Previous line repeated 996 more times]
+  private static readonly REPEATED_PATTERN = /^\s*\[Previous line repeated (\d+) more times?\]\s*$/;
+
+  // Exception line: ValueError: invalid literal, requests.exceptions.ConnectionError: ..., KeyboardInterrupt
+  private static readonly EXCEPTION_PATTERN = /^([A-Za-z_][\w.]*)(?::(?: (.*))?)?$/;
+
+  /**
+   * Find the tracebacks among the lines of an input. A traceback runs from its header
+   * to its exception line, and on through chained tracebacks.
+   */
+  public static findBlocks(lines: string[]): LineRange[] {
+    const parsedLines = this.parseLines(lines);
+    const blocks: LineRange[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      if (parsedLines[i]?.type !== 'traceback') {
+        i++;
+        continue;
+      }
+
+      const start = i;
+      let end = i + 1;
+      i++;
+      while (i < lines.length) {
+        const type = parsedLines[i]?.type;
+        if (type === 'at' || type === 'source' || type === 'more') {
+          end = ++i;
+        } else if (type === 'exception') {
+          end = ++i;
+          // A chained traceback follows after a blank line, a chain sentence and another blank line
+          const chain = this.skipBlankLines(lines, i);
+          const next = this.skipBlankLines(lines, chain + 1);
+          if (parsedLines[chain]?.type !== 'chain' || parsedLines[next]?.type !== 'traceback') {
+            break;
+          }
+          end = i = next + 1;
+        } else {
+          break;
+        }
+      }
+
+      blocks.push({ start, end });
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Check whether a text holds a traceback: a header followed by at least one frame
+   */
+  public static containsStackTrace(text: string): boolean {
+    const lines = text.split(/\r?\n/);
+    const header = lines.findIndex(line => this.TRACEBACK_PATTERN.test(line));
+    return header >= 0 && lines.slice(header + 1).some(line => this.FRAME_PATTERN.test(line.trim()));
+  }
+
+  /**
+   * Parse the lines of a traceback. Lines only count as code and exception lines where
+   * Python prints them: code is indented under a frame, and the exception line follows
+   * the frames without indentation.
+   */
+  public static parseLines(lines: string[]): (StackTraceLine | null)[] {
+    // Whether the previous line was a frame or its code, and whether an exception line is expected
+    let inFrames = false;
+    let expectingException = false;
+
+    return lines.map(line => {
+      if (line.trim() === '') {
+        return null;
+      }
+
+      const indent = line.length - line.trimStart().length;
+
+      if (this.TRACEBACK_PATTERN.test(line)) {
+        inFrames = false;
+        expectingException = true;
+        return { type: 'traceback', content: line, indent };
+      }
+
+      if (this.CHAIN_PATTERN.test(line)) {
+        inFrames = expectingException = false;
+        return { type: 'chain', content: line, indent };
+      }
+
+      const frameMatch = line.trim().match(this.FRAME_PATTERN);
+      if (frameMatch) {
+        inFrames = true;
+        return {
+          type: 'at',
+          content: line,
+          language: this.language,
+          className: this.moduleName(frameMatch[1]),
+          methodName: frameMatch[3],
+          fileName: frameMatch[1],
+          lineNumber: parseInt(frameMatch[2]),
+          indent
+        };
+      }
+
+      const repeatedMatch = line.match(this.REPEATED_PATTERN);
+      if (repeatedMatch && inFrames) {
+        return { type: 'more', content: line, moreCount: parseInt(repeatedMatch[1]), indent };
+      }
+
+      // Code, and the `^^^^` markers Python 3.11 prints under it
+      if (inFrames && indent > 0) {
+        return { type: 'source', content: line, indent };
+      }
+
+      inFrames = false;
+      const exceptionMatch = expectingException && indent === 0 ? line.match(this.EXCEPTION_PATTERN) : null;
+      if (exceptionMatch) {
+        expectingException = false;
+        return {
+          type: 'exception',
+          content: line,
+          exceptionClass: exceptionMatch[1],
+          message: exceptionMatch[2],
+          indent
+        };
+      }
+
+      // Further lines of a multi-line message, or text around the traceback
+      return { type: 'unknown', content: line, indent };
+    });
+  }
+
+  /**
+   * Build the exception hierarchy. The exception printed last is the one that
+   * propagated, so it becomes the root and every exception printed before it is the
+   * cause of the next one; frames are reversed to list the innermost call first.
+   */
+  public static buildThrowableTree(lines: StackTraceLine[]): ThrowableNode | null {
+    const nodes: ThrowableNode[] = [];
+    let frames: StackTraceLine[] = [];
+    let current: ThrowableNode | undefined;
+
+    for (const line of lines) {
+      switch (line.type) {
+        case 'traceback':
+          frames = [];
+          current = undefined;
+          break;
+        case 'at':
+          frames.push(line);
+          break;
+        case 'exception':
+          current = {
+            kind: 'cause',
+            exceptionClass: line.exceptionClass || '',
+            message: line.message,
+            header: line,
+            frames: frames.reverse(),
+            moreCount: 0,
+            suppressed: []
+          };
+          nodes.push(current);
+          frames = [];
+          break;
+        case 'unknown':
+          // Lines right after the exception line continue its message
+          if (current) {
+            current.message = current.message !== undefined ? `${current.message}\n${line.content}` : line.content;
+          }
+          break;
+        default:
+          current = undefined;
+      }
+    }
+
+    if (nodes.length === 0) {
+      return null;
+    }
+
+    for (let i = 1; i < nodes.length; i++) {
+      nodes[i].cause = nodes[i - 1];
+    }
+    const root = nodes[nodes.length - 1];
+    root.kind = 'root';
+
+    return root;
+  }
+
+  /**
+   * Derive the dotted module name of a source file: relative to `site-packages` or the
+   * standard library directory when the path has one, else the whole path. Pseudo files
+   * such as `<stdin>` keep their name.
+   */
+  public static moduleName(path: string): string {
+    const frozenMatch = path.match(/^<frozen (.+)>$/);
+    if (frozenMatch) {
+      return frozenMatch[1];
+    }
+    if (path.startsWith('<')) {
+      return path;
+    }
+
+    const normalized = path.replace(/\\/g, '/');
+    const libraryMatch = normalized.match(/\/(?:site|dist)-packages\/(.+)$/) ||
+      normalized.match(/\/lib\/python\d+(?:\.\d+)?\/(.+)$/i) ||
+      normalized.match(/\/python\d*\/lib\/(.+)$/i);
+    const relative = libraryMatch ? libraryMatch[1] : normalized.replace(/^[A-Za-z]:/, '');
+
+    return relative
+      .replace(/\.pyw?$/, '')
+      .split('/')
+      .filter(segment => segment !== '' && segment !== '.')
+      .filter((segment, index, segments) => !(segment === '__init__' && index === segments.length - 1))
+      .join('.');
+  }
+
+  /**
+   * Find the first line at or after an index that is not blank
+   */
+  private static skipBlankLines(lines: string[], index: number): number {
+    while (index < lines.length && lines[index].trim() === '') {
+      index++;
+    }
+    return index;
+  }
+}
@@ -0,0 +1,146 @@
+import type { StackTraceLine } from './stackTraceParser';
+
+/**
+ * Kinds of sensitive values found in exception messages; `custom` covers matches of
+ * user-supplied patterns
+ */
+export type RedactionCategory = 'password' | 'token' | 'email' | 'ip_address' | 'customer_id' | 'custom';
+
+/**
+ * Number of values redacted per category
+ */
+export type RedactionCounts = Partial<Record<RedactionCategory, number>>;
+
+/**
+ * Interface representing the options for redacting exception messages
+ */
+export interface RedactionOptions {
+  // Regular expressions whose matches are redacted in addition to the built-in detectors
+  redactionPatterns?: string[];
+}
+
+/**
+ * Interface representing a text span to replace, offsets end exclusive
+ */
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Interface representing a detector: the `secret` group is replaced, the `keep` group
+ * in front of it stays; without a `secret` group the whole match is replaced
+ */
+interface Detector {
+  category: RedactionCategory;
+  pattern: RegExp;
+}
+
+/**
+ * Remove passwords, tokens, email addresses, IP addresses and customer ids from
+ * exception messages, so that production stack traces can be shared
+ */
+export class Redactor {
+  /**
+   * Built-in detectors, applied in order. Every quantifier is bounded, so a message is
+   * scanned in linear time however long it is.
+   */
+  private static readonly DETECTORS: Detector[] = [
+    // Credentials in URLs: jdbc:postgresql://app:s3cret@db:5432/shop
+    { category: 'password', pattern: /(?<keep>\b[a-z][a-z0-9+.-]{0,30}:\/\/[^\s:/@]{1,256}:)(?<secret>[^\s/@]{1,256})(?=@)/gi },
+    // Oracle thin URLs: jdbc:oracle:thin:scott/tiger@db:1521/orcl
+    { category: 'password', pattern: /(?<keep>\bjdbc:oracle:[a-z]{1,10}:[^\s/@:]{1,128}\/)(?<secret>[^\s@]{1,256})(?=@)/gi },
+    // Parameters and properties: ?password=s3cret, ;pwd=s3cret, "clientSecret": "s3cret"
+    { category: 'password', pattern: /(?<keep>\b(?:password|passwd|pwd|secret|client[_-]?secret)"?\s{0,3}[=:]\s{0,3}"?)(?<secret>[^\s"'&;,]{1,256})/gi },
+    { category: 'token', pattern: /(?<keep>\b(?:(?:access|refresh|id)?[_-]?token|api[_-]?key|access[_-]?key|session[_-]?id)"?\s{0,3}[=:]\s{0,3}"?)(?<secret>[^\s"'&;,]{1,256})/gi },
+    // Authorization headers; the credentials contain a digit, unlike "Basic authentication"
+    { category: 'token', pattern: /(?<keep>\b(?:Bearer|Basic)\s{1,3})(?<secret>(?=[A-Za-z\-._~+/]{0,4096}\d)[A-Za-z0-9\-._~+/]{8,4096}=*)/g },
+    // JSON Web Tokens
+    { category: 'token', pattern: /\beyJ[A-Za-z0-9_-]{4,4096}\.[A-Za-z0-9_-]{4,4096}\.[A-Za-z0-9_-]{0,4096}/g },
+    // The top-level domain is made of letters, so module versions like java.base@17.0.8 stay
+    { category: 'email', pattern: /\b[A-Za-z0-9._%+-]{1,64}@[A-Za-z0-9-]{1,63}(?:\.[A-Za-z0-9-]{1,63}){0,8}\.[A-Za-z]{2,24}\b/g },
+    { category: 'ip_address', pattern: /(?<![\w.])(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?!\w|\.\d)/g },
+    // IPv6: eight groups, or fewer around `::`
+    { category: 'ip_address', pattern: /(?<![\w:])(?:(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}|(?:[0-9a-f]{1,4}:){0,6}[0-9a-f]{0,4}::[0-9a-f]{0,4}(?::[0-9a-f]{1,4}){0,6})(?![\w:])/gi },
+    // customerId=C-1042, account_id: 77, userId u42, tenant 1042, customer #1042; without a
+    // separator only values with a digit count, so that "userId is null" stays
+    { category: 'customer_id', pattern: /(?<keep>\b(?:customer|client|account|tenant|user|member)[_-]?id\b"?(?:\s{0,3}[=:#]\s{0,3}"?|\s{1,3}(?=[A-Za-z_-]{0,64}\d)))(?<secret>[A-Za-z0-9_-]{1,64})/gi },
+    { category: 'customer_id', pattern: /(?<keep>\b(?:customer|client|account|tenant)\s{1,3}#?)(?<secret>\d{1,20})\b/gi }
+  ];
+
+  /**
+   * Text that replaces a redacted value
+   */
+  public static placeholder(category: RedactionCategory): string {
+    return `[REDACTED:${category}]`;
+  }
+
+  /**
+   * Check whether a line carries exception message text: a header, or a line of a
+   * multi-line message (see `StackTraceParser.buildThrowableTree`)
+   */
+  public static isMessageLine(line: StackTraceLine): boolean {
+    return line.type === 'exception' || line.type === 'caused_by' || line.type === 'suppressed' || line.type === 'unknown';
+  }
+
+  /**
+   * Redact a text with the built-in detectors and the user-supplied patterns, adding the
+   * number of redacted values per category to `counts`
+   */
+  public static redactText(text: string, options: RedactionOptions = {}, counts: RedactionCounts = {}): string {
+    const detectors = [
+      ...this.DETECTORS,
+      ...(options.redactionPatterns || []).map(pattern => ({ category: 'custom' as const, pattern: new RegExp(pattern, 'g') }))
+    ];
+
+    return detectors.reduce((redacted, { category, pattern }) => redacted.replace(pattern, (match: string, ...args: unknown[]) => {
+      // Patterns with named groups get the groups as last argument
+      const last = args[args.length - 1];
+      const groups = typeof last === 'object' && last !== null ? last as Record<string, string | undefined> : {};
+      const secret = groups.secret ?? match;
+      // Empty matches and a lone `::` are nothing to hide
+      if (secret === '' || secret === '::') {
+        return match;
+      }
+
+      counts[category] = (counts[category] || 0) + 1;
+      return (groups.keep || '') + this.placeholder(category);
+    }), text);
+  }
+
+  /**
+   * Redact the content and message of a message line, returning whether anything changed
+   */
+  public static redactLine(line: StackTraceLine, options: RedactionOptions = {}, counts: RedactionCounts = {}): boolean {
+    if (!this.isMessageLine(line)) {
+      return false;
+    }
+
+    const content = this.redactText(line.content, options, counts);
+    if (content === line.content) {
+      return false;
+    }
+
+    line.content = content;
+    if (line.message !== undefined) {
+      line.message = this.redactText(line.message, options);
+    }
+    return true;
+  }
+
+  /**
+   * Apply non-overlapping edits, sorted by position, to a text
+   */
+  public static applyEdits(text: string, edits: TextEdit[]): string {
+    let result = '';
+    let position = 0;
+
+    for (const edit of edits) {
+      result += text.substring(position, edit.start) + edit.text;
+      position = edit.end;
+    }
+
+    return result + text.substring(position);
+  }
+}
@@ -0,0 +1,346 @@
+import { StackTraceParser, StackTraceLine, ExtractedStackTrace, InputLocation } from './stackTraceParser';
+import { LogPrefixStripper, LogPrefixOptions } from './logPrefix';
+
+/**
+ * Interface representing one method entry of a class in a ProGuard/R8 mapping file
+ */
+export interface MemberMapping {
+  obfuscatedName: string;
+  originalName: string;
+  // Set when an inlined method belongs to another class than the enclosing one
+  originalClassName?: string;
+  obfuscatedStartLine?: number;
+  obfuscatedEndLine?: number;
+  originalStartLine?: number;
+  originalEndLine?: number;
+}
+
+/**
+ * Interface representing one class entry of a ProGuard/R8 mapping file
+ */
+export interface ClassMapping {
+  originalName: string;
+  obfuscatedName: string;
+  sourceFile?: string;
+  members: MemberMapping[];
+}
+
+/**
+ * Interface representing a parsed ProGuard/R8 mapping file, keyed by obfuscated class name
+ */
+export interface ProguardMapping {
+  classes: Map<string, ClassMapping>;
+}
+
+/**
+ * Interface representing a retraced text along with where each of its lines came from
+ */
+export interface RetracedText {
+  text: string;
+  // 0-based index of the input line each line of `text` was retraced from; inlined
+  // frames expanded from one obfuscated frame share its line
+  sourceLines: number[];
+}
+
+/**
+ * Deobfuscate stack traces with ProGuard/R8 `mapping.txt` files
+ */
+export class ProguardRetracer {
+  /**
+   * Parse a mapping file. Unrecognized lines are ignored, field mappings are skipped.
+   */
+  public static parseMapping(mappingText: string): ProguardMapping {
+    const classes = new Map<string, ClassMapping>();
+    let current: ClassMapping | null = null;
+
+    for (const rawLine of mappingText.split(/\r?\n/)) {
+      // Class line: com.example.Foo -> a.b.c:
+      const classMatch = rawLine.match(/^(\S+)\s+->\s+(\S+):\s*$/);
+      if (classMatch) {
+        current = { originalName: classMatch[1], obfuscatedName: classMatch[2], members: [] };
+        classes.set(current.obfuscatedName, current);
+        continue;
+      }
+
+      if (!current) {
+        continue;
+      }
+
+      // R8 metadata: # {"id":"sourceFile","fileName":"Foo.kt"}
+      const metadataMatch = rawLine.match(/^\s*#\s*(\{.*\})\s*$/);
+      if (metadataMatch) {
+        try {
+          const metadata = JSON.parse(metadataMatch[1]) as { id?: string; fileName?: string };
+          if (metadata.id === 'sourceFile' && metadata.fileName) {
+            current.sourceFile = metadata.fileName;
+          }
+        } catch {
+          // Not JSON, just a comment
+        }
+        continue;
+      }
+
+      // Method line: 7:9:void com.other.Bar.caller(int):30:32 -> c
+      const memberMatch = rawLine.match(/^\s+(?:(\d+):(\d+):)?\S+\s+([^\s(]+)\([^)]*\)(?::(\d+)(?::(\d+))?)?\s+->\s+(\S+)\s*$/);
+      if (memberMatch) {
+        const qualifiedName = memberMatch[3];
+        const lastDotIndex = qualifiedName.lastIndexOf('.');
+        current.members.push({
+          obfuscatedName: memberMatch[6],
+          originalName: lastDotIndex >= 0 ? qualifiedName.substring(lastDotIndex + 1) : qualifiedName,
+          originalClassName: lastDotIndex >= 0 ? qualifiedName.substring(0, lastDotIndex) : undefined,
+          obfuscatedStartLine: this.toNumber(memberMatch[1]),
+          obfuscatedEndLine: this.toNumber(memberMatch[2]),
+          originalStartLine: this.toNumber(memberMatch[4]),
+          originalEndLine: this.toNumber(memberMatch[5])
+        });
+      }
+    }
+
+    return { classes };
+  }
+
+  /**
+   * Retrace every line of a text: frames are remapped, possibly into several inlined
+   * frames, and obfuscated exception class names in header lines are restored.
+   * Lines that are not part of a stack trace are kept as they are; log prefixes are
+   * repeated in front of every expanded inline frame.
+   */
+  public static retrace(text: string, mapping: ProguardMapping, options: LogPrefixOptions = {}): string {
+    return this.retraceText(text, mapping, options).text;
+  }
+
+  /**
+   * Retrace a text like `retrace`, keeping track of the input line of every output line
+   */
+  public static retraceText(text: string, mapping: ProguardMapping, options: LogPrefixOptions = {}): RetracedText {
+    const lines = text.split(/\r?\n/);
+    const strippedLines = LogPrefixStripper.stripLines(lines, options);
+    const retracedLines: string[] = [];
+    const sourceLines: number[] = [];
+
+    strippedLines.forEach(({ prefix, text: line }, index) => {
+      const retraced = this.retraceLine(lines[index], prefix, line, mapping);
+      retracedLines.push(...retraced);
+      retraced.forEach(() => sourceLines.push(index));
+    });
+
+    return { text: retracedLines.join('\n'), sourceLines };
+  }
+
+  /**
+   * Create a function that moves the positions of a stack trace extracted from a
+   * retraced text back into the text that was retraced. Retraced lines point to the
+   * whole input line they came from; columns are only kept on lines left unchanged.
+   */
+  public static createLocator(input: string, retraced: RetracedText): (extracted: ExtractedStackTrace) => ExtractedStackTrace {
+    const inputLines = this.lineSpans(input);
+    const retracedLines = this.lineSpans(retraced.text);
+
+    const locateOffset = (offset: number, isEnd: boolean) => {
+      // Index of the retraced line holding the offset, found by binary search
+      let low = 0;
+      let high = retracedLines.length - 1;
+      while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (retracedLines[middle].start <= offset - (isEnd ? 1 : 0)) {
+          low = middle;
+        } else {
+          high = middle - 1;
+        }
+      }
+
+      const retracedLine = retracedLines[low];
+      const inputLine = inputLines[retraced.sourceLines[low]];
+      const column = offset - retracedLine.start;
+      const unchanged = retracedLine.end - retracedLine.start === inputLine.end - inputLine.start &&
+        retraced.text.substring(retracedLine.start, retracedLine.end) === input.substring(inputLine.start, inputLine.end);
+
+      if (unchanged) {
+        return { offset: inputLine.start + column, line: inputLine.line };
+      }
+      return {
+        offset: isEnd && offset >= retracedLine.end ? inputLine.end : Math.min(inputLine.start + column, inputLine.end),
+        line: inputLine.line
+      };
+    };
+
+    const locate = ({ start, end }: InputLocation): InputLocation => {
+      const located = locateOffset(start, false);
+      return { start: located.offset, end: Math.max(located.offset, locateOffset(end, end > start).offset), line: located.line };
+    };
+
+    return extracted => {
+      const { start, end, line } = locate({ start: extracted.start, end: extracted.end, line: extracted.startLine });
+      return {
+        ...extracted,
+        start,
+        end,
+        startLine: line,
+        endLine: locateOffset(extracted.end, extracted.end > extracted.start).line,
+        lineLocations: extracted.lineLocations.map(locate)
+      };
+    };
+  }
+
+  /**
+   * Retrace one line of input into one or more lines
+   */
+  private static retraceLine(originalLine: string, prefix: string, line: string, mapping: ProguardMapping): string[] {
+    if (line.trim() === '') {
+      return [originalLine];
+    }
+
+    const [parsedLine] = StackTraceParser.parseStackTrace(line).lines;
+    if (parsedLine.type !== 'at') {
+      const retracedHeader = this.retraceHeader(line, mapping);
+      return [retracedHeader === line ? originalLine : this.withPrefix(originalLine, prefix, retracedHeader)];
+    }
+
+    const retracedFrames = this.retraceFrame(parsedLine, mapping);
+    return retracedFrames.length === 1 && retracedFrames[0] === line
+      ? [originalLine]
+      : retracedFrames.map(frame => this.withPrefix(originalLine, prefix, frame));
+  }
+
+  /**
+   * Positions of the lines of a text: character offsets (end exclusive) and 1-based numbers
+   */
+  private static lineSpans(text: string): InputLocation[] {
+    const spans: InputLocation[] = [];
+    const lineBreakPattern = /\r?\n/g;
+    let lineStart = 0;
+    let match;
+
+    while ((match = lineBreakPattern.exec(text)) !== null) {
+      spans.push({ start: lineStart, end: match.index, line: spans.length + 1 });
+      lineStart = match.index + match[0].length;
+    }
+    spans.push({ start: lineStart, end: text.length, line: spans.length + 1 });
+
+    return spans;
+  }
+
+  /**
+   * Put the stripped log prefix back in front of a retraced line
+   */
+  private static withPrefix(originalLine: string, prefix: string, line: string): string {
+    // Docker JSON lines were unwrapped, their prefix is not part of the line text
+    return prefix && originalLine.startsWith(prefix) ? prefix + line : line;
+  }
+
+  /**
+   * Retrace a single frame into one or more frame lines, innermost first
+   */
+  private static retraceFrame(frame: StackTraceLine, mapping: ProguardMapping): string[] {
+    const classMapping = mapping.classes.get(frame.className || '');
+    if (!classMapping) {
+      return [frame.content];
+    }
+
+    const prefix = frame.content.match(/^\s*/)![0];
+    const members = this.findMembers(classMapping, frame.methodName || '', frame.lineNumber);
+
+    if (members.length === 0) {
+      // Kept method names: only the class was renamed
+      return [`${prefix}at ${classMapping.originalName}.${frame.methodName}(${this.formatLocation(classMapping, classMapping.originalName, frame, frame.lineNumber)})`];
+    }
+
+    return members.map(member => {
+      const className = member.originalClassName || classMapping.originalName;
+      const lineNumber = this.mapLineNumber(member, frame.lineNumber);
+      return `${prefix}at ${className}.${member.originalName}(${this.formatLocation(classMapping, className, frame, lineNumber)})`;
+    });
+  }
+
+  /**
+   * Find the mapping entries of an obfuscated method. With a line number, R8 lists an
+   * inline chain as consecutive entries sharing the same obfuscated range.
+   */
+  private static findMembers(classMapping: ClassMapping, obfuscatedName: string, lineNumber: number | undefined): MemberMapping[] {
+    const candidates = classMapping.members.filter(member => member.obfuscatedName === obfuscatedName);
+
+    if (lineNumber !== undefined) {
+      const first = candidates.find(member =>
+        member.obfuscatedStartLine !== undefined &&
+        member.obfuscatedStartLine <= lineNumber &&
+        lineNumber <= member.obfuscatedEndLine!
+      );
+
+      if (first) {
+        return candidates.filter(member =>
+          member.obfuscatedStartLine === first.obfuscatedStartLine &&
+          member.obfuscatedEndLine === first.obfuscatedEndLine
+        );
+      }
+    }
+
+    // Without a matching range, fall back to entries that carry no line information
+    const unranged = candidates.filter(member => member.obfuscatedStartLine === undefined);
+    if (unranged.length > 0) {
+      return [unranged[0]];
+    }
+
+    return lineNumber === undefined && candidates.length > 0 ? [candidates[0]] : [];
+  }
+
+  /**
+   * Map an obfuscated line number into the original range of a mapping entry
+   */
+  private static mapLineNumber(member: MemberMapping, lineNumber: number | undefined): number | undefined {
+    if (lineNumber === undefined || member.obfuscatedStartLine === undefined) {
+      return lineNumber;
+    }
+
+    if (member.originalStartLine === undefined) {
+      // Without an original range the lines were not changed
+      return lineNumber;
+    }
+
+    const obfuscatedSpan = member.obfuscatedEndLine! - member.obfuscatedStartLine;
+    const originalSpan = (member.originalEndLine ?? member.originalStartLine) - member.originalStartLine;
+
+    // Inline callers map the whole range onto the single line of the call site
+    return obfuscatedSpan === originalSpan
+      ? member.originalStartLine + (lineNumber - member.obfuscatedStartLine)
+      : member.originalStartLine;
+  }
+
+  /**
+   * Format the location of a retraced frame, deriving the file name from the class
+   */
+  private static formatLocation(classMapping: ClassMapping, className: string, frame: StackTraceLine, lineNumber: number | undefined): string {
+    if (frame.isNative) {
+      return 'Native Method';
+    }
+
+    const outerClassName = className.substring(className.lastIndexOf('.') + 1).split('$')[0];
+    const fileName = className === classMapping.originalName && classMapping.sourceFile
+      ? classMapping.sourceFile
+      : `${outerClassName}.java`;
+
+    return lineNumber !== undefined ? `${fileName}:${lineNumber}` : fileName;
+  }
+
+  /**
+   * Restore an obfuscated exception class name at the start of a header line
+   */
+  private static retraceHeader(line: string, mapping: ProguardMapping): string {
+    const headerMatch = line.match(/^(\s*(?:Caused by:\s*|Suppressed:\s*|Exception in thread ".*?"\s+)?)([^\s:]+)(:.*)?$/);
+    if (!headerMatch) {
+      return line;
+    }
+
+    const classMapping = mapping.classes.get(headerMatch[2]);
+    return classMapping
+      ? `${headerMatch[1]}${classMapping.originalName}${headerMatch[3] || ''}`
+      : line;
+  }
+
+  /**
+   * Parse an optional numeric capture group
+   */
+  private static toNumber(value: string | undefined): number | undefined {
+    return value === undefined ? undefined : parseInt(value);
+  }
+}
@@ -0,0 +1,124 @@
+import { SourceRepository } from './sourceLinks';
+
+/**
+ * Interface representing the input and options of a view, as sent to /api/share
+ */
+export interface ShareRequest {
+  text: string;
+  // Second input of the diff view
+  compareText?: string;
+  // ProGuard/R8 mapping to retrace the input with
+  mapping?: string;
+  // Language to parse the input as, detected when missing
+  language?: string;
+  // Whether `... N more` frames are filled back in; the page fills them in when missing
+  reconstructElidedFrames?: boolean;
+  applicationPackages?: string[];
+  logPrefixPattern?: string;
+  sourceRepositories?: SourceRepository[];
+  // Redact exception messages before storing; the patterns themselves are not stored
+  redact?: boolean;
+  redactionPatterns?: string[];
+}
+
+/**
+ * Interface representing a stored view
+ */
+export interface SharedView extends ShareRequest {
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Interface representing the part of a Workers KV namespace that views are stored in,
+ * so that tests can stand in an in-memory map
+ */
+export interface ShareStorage {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+/**
+ * Store views under short random ids that expire after a TTL
+ */
+export class ShareStore {
+  public static readonly DEFAULT_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+  /**
+   * Shortest TTL Workers KV accepts
+   */
+  public static readonly MIN_TTL_SECONDS = 60;
+
+  /**
+   * Ids are 10 URL-safe base64 characters: 60 random bits, too many to guess
+   */
+  private static readonly ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+  private static readonly ID_LENGTH = 10;
+  private static readonly ID_PATTERN = /^[A-Za-z0-9_-]{10}$/;
+
+  private static readonly KEY_PREFIX = 'share:';
+
+  /**
+   * Resolve the configured TTL in seconds, falling back to the default for missing or
+   * invalid values and raising values below the KV minimum
+   */
+  public static resolveTtl(setting?: string): number {
+    const ttl = Number(setting);
+    if (!setting || !Number.isInteger(ttl) || ttl <= 0) {
+      return this.DEFAULT_TTL_SECONDS;
+    }
+    return Math.max(ttl, this.MIN_TTL_SECONDS);
+  }
+
+  /**
+   * Check whether a string has the shape of a share id
+   */
+  public static isShareId(id: string): boolean {
+    return this.ID_PATTERN.test(id);
+  }
+
+  /**
+   * Store a view for `ttlSeconds` and return it with its new id
+   */
+  public static async save(storage: ShareStorage, request: ShareRequest, ttlSeconds: number, now = Date.now()): Promise<{ id: string; view: SharedView }> {
+    const id = this.createId();
+    const view: SharedView = {
+      ...request,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlSeconds * 1000).toISOString()
+    };
+
+    await storage.put(this.KEY_PREFIX + id, JSON.stringify(view), { expirationTtl: ttlSeconds });
+
+    return { id, view };
+  }
+
+  /**
+   * Load a stored view, or return null if the id is unknown or has expired
+   */
+  public static async load(storage: ShareStorage, id: string): Promise<SharedView | null> {
+    if (!this.isShareId(id)) {
+      return null;
+    }
+
+    const stored = await storage.get(this.KEY_PREFIX + id);
+    if (stored === null) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(stored) as SharedView;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Create a random id; the alphabet has 64 characters, so masking a random byte keeps
+   * every character equally likely
+   */
+  private static createId(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(this.ID_LENGTH));
+    return Array.from(bytes, byte => this.ID_ALPHABET[byte & 63]).join('');
+  }
+}
@@ -0,0 +1,152 @@
+import type { StackTraceLine } from './stackTraceParser';
+
+/**
+ * Hosting service of a source repository; `template` builds links from `url` itself
+ */
+export type SourceHost = 'github' | 'gitlab' | 'bitbucket' | 'template';
+
+/**
+ * Interface representing a source repository holding the classes of a package prefix
+ */
+export interface SourceRepository {
+  // Package prefix of the classes in the repository, e.g. `com.example.order`
+  packagePrefix: string;
+  host: SourceHost;
+  // Repository URL, e.g. `https://github.com/acme/shop`. For `template` hosts a URL
+  // with `{path}`, `{line}`, `{ref}`, `{fileName}` and `{className}` placeholders
+  url: string;
+  // Commit or branch to link to (default `HEAD`)
+  ref?: string;
+  // Directory of the package root in the repository, e.g. `order-service/src/main/java`;
+  // defaults to `src/main/<language>` by file extension
+  sourceRoot?: string;
+}
+
+/**
+ * Resolve `at` frames to links to the line in their source repository
+ */
+export class SourceLinkResolver {
+  private static readonly HOSTS: SourceHost[] = ['github', 'gitlab', 'bitbucket', 'template'];
+
+  /**
+   * Conventional source directories of JVM languages other than Java
+   */
+  private static readonly SOURCE_ROOTS: Record<string, string> = {
+    kt: 'src/main/kotlin',
+    scala: 'src/main/scala',
+    groovy: 'src/main/groovy'
+  };
+
+  /**
+   * Link a frame to its source line, or return null when no repository holds the class
+   * or the frame has no usable file name and line number
+   */
+  public static resolve(line: StackTraceLine, repositories: SourceRepository[]): string | null {
+    if (line.type !== 'at' || !line.className || !line.fileName || !line.lineNumber || line.lineNumber < 1) {
+      return null;
+    }
+
+    // Obfuscated or stripped frames report `SourceFile` and friends instead of a file;
+    // paths, as Python prints them, are not relative to a package root
+    const extension = line.fileName.match(/\.([A-Za-z0-9]+)$/);
+    if (!extension || /[\\/]/.test(line.fileName)) {
+      return null;
+    }
+
+    const repository = this.findRepository(line.className, repositories);
+    if (!repository) {
+      return null;
+    }
+
+    // The directory comes from the package and the file name from the frame, so Kotlin
+    // file facades (`OrderUtilsKt` in OrderUtils.kt) and nested classes resolve too
+    const packagePath = line.className.includes('.')
+      ? line.className.substring(0, line.className.lastIndexOf('.')).split('.')
+      : [];
+    const sourceRoot = (repository.sourceRoot ?? (this.SOURCE_ROOTS[extension[1]] || 'src/main/java'))
+      .split('/')
+      .filter(segment => segment !== '');
+    const path = [...sourceRoot, ...packagePath, line.fileName].map(segment => encodeURIComponent(segment)).join('/');
+
+    return this.formatUrl(repository, path, line);
+  }
+
+  /**
+   * Parse the JSON array of repositories configured in the environment; invalid
+   * configuration links nothing rather than failing every request
+   */
+  public static parseRepositories(value: string | undefined): SourceRepository[] {
+    if (!value || value.trim() === '') {
+      return [];
+    }
+
+    try {
+      const repositories: unknown = JSON.parse(value);
+      return Array.isArray(repositories) ? repositories.filter(repository => this.isSourceRepository(repository)) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Check whether a value from a request or the environment is a valid repository
+   */
+  public static isSourceRepository(value: unknown): value is SourceRepository {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+
+    const repository = value as Record<string, unknown>;
+    return typeof repository.packagePrefix === 'string' &&
+      typeof repository.url === 'string' &&
+      /^https?:\/\//.test(repository.url) &&
+      this.HOSTS.includes(repository.host as SourceHost) &&
+      (repository.ref === undefined || typeof repository.ref === 'string') &&
+      (repository.sourceRoot === undefined || typeof repository.sourceRoot === 'string');
+  }
+
+  /**
+   * Find the repository with the longest package prefix containing a class
+   */
+  private static findRepository(className: string, repositories: SourceRepository[]): SourceRepository | null {
+    let best: SourceRepository | null = null;
+
+    for (const repository of repositories) {
+      const prefix = repository.packagePrefix.replace(/\.\*?$/, '');
+      const matches = prefix === '' || className === prefix || className.startsWith(prefix + '.');
+      if (matches && (!best || prefix.length > best.packagePrefix.replace(/\.\*?$/, '').length)) {
+        best = repository;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Build the link to a line of a file in a repository
+   */
+  private static formatUrl(repository: SourceRepository, path: string, line: StackTraceLine): string {
+    const base = repository.url.replace(/\/+$/, '');
+    const ref = (repository.ref || 'HEAD').split('/').map(segment => encodeURIComponent(segment)).join('/');
+    const lineNumber = String(line.lineNumber);
+
+    switch (repository.host) {
+      case 'github':
+        return `${base}/blob/${ref}/${path}#L${lineNumber}`;
+      case 'gitlab':
+        return `${base}/-/blob/${ref}/${path}#L${lineNumber}`;
+      case 'bitbucket':
+        return `${base}/src/${ref}/${path}#lines-${lineNumber}`;
+      case 'template': {
+        const values: Record<string, string> = {
+          path,
+          line: lineNumber,
+          ref,
+          fileName: encodeURIComponent(line.fileName || ''),
+          className: encodeURIComponent(line.className || '')
+        };
+        return repository.url.replace(/\{(path|line|ref|fileName|className)\}/g, (_, name: string) => values[name]);
+      }
+    }
+  }
+}
@@ -0,0 +1,392 @@
+import { StackTraceParser, ParsedStackTrace, StackTraceLine, ThrowableNode, HtmlFormatOptions } from './stackTraceParser';
+import { SourceLinkResolver, SourceRepository } from './sourceLinks';
+import { StackTraceFingerprinter } from './stackTraceFingerprint';
+
+/**
+ * How a frame differs between the left and the right stack trace
+ */
+export type FrameChange = 'unchanged' | 'line_changed' | 'added' | 'removed';
+
+/**
+ * How a throwable differs between the left and the right stack trace
+ */
+export type ThrowableChange = 'unchanged' | 'changed' | 'added' | 'removed';
+
+/**
+ * Interface representing a pair of aligned frames; `left` or `right` is missing for
+ * added and removed frames
+ */
+export interface FrameDiff {
+  change: FrameChange;
+  left?: StackTraceLine;
+  right?: StackTraceLine;
+}
+
+/**
+ * Interface representing the header of a throwable on one side of a diff
+ */
+export interface DiffedThrowable {
+  kind: ThrowableNode['kind'];
+  exceptionClass: string;
+  message?: string;
+  header: StackTraceLine;
+}
+
+/**
+ * Interface representing a pair of aligned throwables and their aligned frames
+ */
+export interface ThrowableDiff {
+  change: ThrowableChange;
+  left?: DiffedThrowable;
+  right?: DiffedThrowable;
+  exceptionClassChanged: boolean;
+  messageChanged: boolean;
+  frames: FrameDiff[];
+}
+
+/**
+ * Interface representing the structural diff of two stack traces
+ */
+export interface StackTraceDiff {
+  identical: boolean;
+  // Set when the traces were too long and different to align completely; the frames
+  // left unaligned are shown as removed and added
+  alignmentTruncated: boolean;
+  throwables: ThrowableDiff[];
+  addedFrames: number;
+  removedFrames: number;
+  changedLineNumbers: number;
+}
+
+/**
+ * Interface representing the key comparisons an alignment may still spend
+ */
+interface AlignmentBudget {
+  comparisons: number;
+  exhausted: boolean;
+}
+
+/**
+ * Align two stack traces cause by cause and frame by frame. Frames are matched on class
+ * and method, so that moved lines show up as line number changes; indentation and
+ * `... N more` lines do not take part in the comparison.
+ */
+export class StackTraceDiffer {
+  /**
+   * Key comparisons spent on aligning the throwables and frames of one diff, a fraction
+   * of a second; aligning n against m differing items takes about 2·n·m
+   */
+  private static readonly MAX_COMPARISONS = 40_000_000;
+
+  /**
+   * Diff two parsed stack traces
+   */
+  public static diff(left: ParsedStackTrace, right: ParsedStackTrace): StackTraceDiff {
+    const budget: AlignmentBudget = { comparisons: this.MAX_COMPARISONS, exhausted: false };
+    const leftThrowables = this.flattenThrowables(StackTraceParser.buildThrowableTree(left));
+    const rightThrowables = this.flattenThrowables(StackTraceParser.buildThrowableTree(right));
+
+    // Throwables left over between matches are paired up, so that a cause whose type
+    // changed is shown as changed rather than as removed and added
+    const throwables = this.align(leftThrowables, rightThrowables, node => `${node.kind} ${node.exceptionClass}`, true, budget)
+      .map(([leftNode, rightNode]) => this.diffThrowables(leftNode, rightNode, budget));
+
+    const frames = throwables.flatMap(throwable => throwable.frames);
+    return {
+      identical: throwables.every(throwable => throwable.change === 'unchanged'),
+      alignmentTruncated: budget.exhausted,
+      throwables,
+      addedFrames: frames.filter(frame => frame.change === 'added').length,
+      removedFrames: frames.filter(frame => frame.change === 'removed').length,
+      changedLineNumbers: frames.filter(frame => frame.change === 'line_changed').length
+    };
+  }
+
+  /**
+   * Format a diff as two HTML columns, one row per aligned header or frame; frame
+   * locations link to `options.sourceRepositories`
+   */
+  public static formatAsHtml(diff: StackTraceDiff, options: HtmlFormatOptions = {}): string {
+    const sourceRepositories = options.sourceRepositories || [];
+    if (diff.throwables.length === 0) {
+      return '<p class="no-stacktrace">No stack trace found</p>';
+    }
+
+    const html = diff.throwables.map(throwable => {
+      const header = this.formatRow(
+        `diff-header diff-${throwable.change}`,
+        throwable.left && this.formatHeaderCell(throwable.left, throwable),
+        throwable.right && this.formatHeaderCell(throwable.right, throwable)
+      );
+      const frames = throwable.frames.map(frame => this.formatRow(
+        `diff-frame diff-${frame.change}`,
+        frame.left && this.formatFrameCell(frame.left, frame.change === 'line_changed', sourceRepositories),
+        frame.right && this.formatFrameCell(frame.right, frame.change === 'line_changed', sourceRepositories)
+      ));
+      return `<div class="diff-throwable diff-${throwable.change}">${[header, ...frames].join('\n')}</div>`;
+    });
+
+    return `<div class="stacktrace-diff">${html.join('\n')}</div>`;
+  }
+
+  /**
+   * Flatten a throwable tree in the order its lines appear: each throwable, then its
+   * suppressed throwables, then its cause
+   */
+  private static flattenThrowables(root: ThrowableNode | null | undefined): ThrowableNode[] {
+    const throwables: ThrowableNode[] = [];
+    // Throwables still to visit, the next one last
+    const pending = root ? [root] : [];
+
+    while (pending.length > 0) {
+      const node = pending.pop()!;
+      throwables.push(node);
+      if (node.cause) {
+        pending.push(node.cause);
+      }
+      pending.push(...[...node.suppressed].reverse());
+    }
+
+    return throwables;
+  }
+
+  /**
+   * Diff the frames and headers of a pair of aligned throwables
+   */
+  private static diffThrowables(left: ThrowableNode | undefined, right: ThrowableNode | undefined, budget: AlignmentBudget): ThrowableDiff {
+    // Reconstructed frames repeat the enclosing throwable and would be diffed twice
+    const ownFrames = (node: ThrowableNode | undefined) => (node ? node.frames.filter(frame => !frame.inherited) : []);
+
+    const frames = this.align(ownFrames(left), ownFrames(right), frame => this.frameKey(frame), false, budget)
+      .map(([leftFrame, rightFrame]): FrameDiff => {
+        if (!leftFrame) {
+          return { change: 'added', right: rightFrame };
+        }
+        if (!rightFrame) {
+          return { change: 'removed', left: leftFrame };
+        }
+        const change = leftFrame.lineNumber === rightFrame.lineNumber ? 'unchanged' : 'line_changed';
+        return { change, left: leftFrame, right: rightFrame };
+      });
+
+    const exceptionClassChanged = !!left && !!right && left.exceptionClass !== right.exceptionClass;
+    const messageChanged = !!left && !!right && (left.message || '') !== (right.message || '');
+
+    let change: ThrowableChange = 'unchanged';
+    if (!left) {
+      change = 'added';
+    } else if (!right) {
+      change = 'removed';
+    } else if (exceptionClassChanged || messageChanged || frames.some(frame => frame.change !== 'unchanged')) {
+      change = 'changed';
+    }
+
+    return {
+      change,
+      left: left && this.describeThrowable(left),
+      right: right && this.describeThrowable(right),
+      exceptionClassChanged,
+      messageChanged,
+      frames
+    };
+  }
+
+  /**
+   * Keep the header of a throwable without its nested causes, which are diffed separately
+   */
+  private static describeThrowable(node: ThrowableNode): DiffedThrowable {
+    return { kind: node.kind, exceptionClass: node.exceptionClass, message: node.message, header: node.header };
+  }
+
+  /**
+   * Identity of a frame across builds: class and method, without volatile lambda and
+   * proxy suffixes
+   */
+  private static frameKey(frame: StackTraceLine): string {
+    return `${StackTraceFingerprinter.normalizeClassName(frame.className || '')}.${StackTraceFingerprinter.normalizeMethodName(frame.methodName || '')}`;
+  }
+
+  /**
+   * Align two sequences on their longest common subsequence of keys. Unmatched items
+   * between two matches come out removed first, then added, or paired up by position
+   * when `pairGaps` is set.
+   */
+  private static align<T>(left: T[], right: T[], key: (item: T) => string, pairGaps: boolean, budget: AlignmentBudget): [T | undefined, T | undefined][] {
+    const matches: [number, number][] = [];
+    this.commonSubsequence(left.map(key), right.map(key), 0, left.length, 0, right.length, matches, budget);
+
+    const pairs: [T | undefined, T | undefined][] = [];
+    let removed: T[] = [];
+    let added: T[] = [];
+    const flushGap = () => {
+      if (pairGaps) {
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+          pairs.push([removed[k], added[k]]);
+        }
+      } else {
+        removed.forEach(item => pairs.push([item, undefined]));
+        added.forEach(item => pairs.push([undefined, item]));
+      }
+      removed = [];
+      added = [];
+    };
+
+    let i = 0;
+    let j = 0;
+    for (const [leftIndex, rightIndex] of matches) {
+      removed = left.slice(i, leftIndex);
+      added = right.slice(j, rightIndex);
+      flushGap();
+      pairs.push([left[leftIndex], right[rightIndex]]);
+      i = leftIndex + 1;
+      j = rightIndex + 1;
+    }
+    removed = left.slice(i);
+    added = right.slice(j);
+    flushGap();
+
+    return pairs;
+  }
+
+  /**
+   * Find a longest common subsequence of `leftKeys[leftStart..leftEnd)` and
+   * `rightKeys[rightStart..rightEnd)`, appending the index pairs of its items to `matches`
+   * in order. Common prefixes and suffixes are matched directly; the rest is split with
+   * Hirschberg's algorithm, which needs space linear in the length of the sequences.
+   * Ranges that would take more comparisons than the budget has left stay unmatched.
+   */
+  private static commonSubsequence(
+    leftKeys: string[],
+    rightKeys: string[],
+    leftStart: number,
+    leftEnd: number,
+    rightStart: number,
+    rightEnd: number,
+    matches: [number, number][],
+    budget: AlignmentBudget
+  ): void {
+    const suffix: [number, number][] = [];
+    while (leftStart < leftEnd && rightStart < rightEnd && leftKeys[leftStart] === rightKeys[rightStart]) {
+      matches.push([leftStart++, rightStart++]);
+    }
+    while (leftStart < leftEnd && rightStart < rightEnd && leftKeys[leftEnd - 1] === rightKeys[rightEnd - 1]) {
+      suffix.push([--leftEnd, --rightEnd]);
+    }
+    suffix.reverse();
+
+    if (leftEnd - leftStart === 1) {
+      const rightIndex = rightKeys.indexOf(leftKeys[leftStart], rightStart);
+      if (rightIndex >= 0 && rightIndex < rightEnd) {
+        matches.push([leftStart, rightIndex]);
+      }
+    } else if (leftEnd - leftStart > 1 && rightEnd > rightStart) {
+      const comparisons = (leftEnd - leftStart) * (rightEnd - rightStart);
+      if (comparisons > budget.comparisons) {
+        budget.exhausted = true;
+        suffix.forEach(match => matches.push(match));
+        return;
+      }
+      budget.comparisons -= comparisons;
+
+      // Split the left range in half and the right range where the common subsequences
+      // of the two halves add up to the longest
+      const middle = (leftStart + leftEnd) >> 1;
+      const forward = this.commonLengths(leftKeys, rightKeys, leftStart, middle, rightStart, rightEnd, false);
+      const backward = this.commonLengths(leftKeys, rightKeys, middle, leftEnd, rightStart, rightEnd, true);
+      const width = rightEnd - rightStart;
+
+      let split = 0;
+      for (let k = 1; k <= width; k++) {
+        if (forward[k] + backward[width - k] > forward[split] + backward[width - split]) {
+          split = k;
+        }
+      }
+
+      this.commonSubsequence(leftKeys, rightKeys, leftStart, middle, rightStart, rightStart + split, matches, budget);
+      this.commonSubsequence(leftKeys, rightKeys, middle, leftEnd, rightStart + split, rightEnd, matches, budget);
+    }
+
+    suffix.forEach(match => matches.push(match));
+  }
+
+  /**
+   * Lengths of the longest common subsequence of the left range and each prefix of the
+   * right range, or, `fromEnd`, each suffix of both, keeping one row of the table at a time
+   */
+  private static commonLengths(
+    leftKeys: string[],
+    rightKeys: string[],
+    leftStart: number,
+    leftEnd: number,
+    rightStart: number,
+    rightEnd: number,
+    fromEnd: boolean
+  ): Int32Array {
+    const width = rightEnd - rightStart;
+    let previous = new Int32Array(width + 1);
+    let current = new Int32Array(width + 1);
+
+    for (let i = 0; i < leftEnd - leftStart; i++) {
+      const leftKey = leftKeys[fromEnd ? leftEnd - 1 - i : leftStart + i];
+      for (let j = 1; j <= width; j++) {
+        current[j] = leftKey === rightKeys[fromEnd ? rightEnd - j : rightStart + j - 1]
+          ? previous[j - 1] + 1
+          : Math.max(previous[j], current[j - 1]);
+      }
+      [previous, current] = [current, previous];
+    }
+
+    return previous;
+  }
+
+  /**
+   * Format a row of the side-by-side view; a missing cell is left blank
+   */
+  private static formatRow(cssClass: string, left: string | undefined, right: string | undefined): string {
+    const cell = (side: string, content: string | undefined) =>
+      content === undefined
+        ? `<div class="diff-cell diff-${side} diff-empty"></div>`
+        : `<div class="diff-cell diff-${side}">${content}</div>`;
+    return `<div class="diff-row ${cssClass}">${cell('left', left)}${cell('right', right)}</div>`;
+  }
+
+  /**
+   * Format a throwable header, marking the exception class and message where they differ
+   */
+  private static formatHeaderCell(throwable: DiffedThrowable, diff: ThrowableDiff): string {
+    const keyword = throwable.kind === 'cause' ? 'Caused by: ' : throwable.kind === 'suppressed' ? 'Suppressed: ' : '';
+    const mark = (text: string, changed: boolean) =>
+      changed ? `<span class="diff-changed-text">${this.escapeHtml(text)}</span>` : this.escapeHtml(text);
+
+    const message = throwable.message === undefined ? '' : `: ${mark(throwable.message, diff.messageChanged)}`;
+    return `${keyword}<span class="exception-text">${mark(throwable.exceptionClass, diff.exceptionClassChanged)}${message}</span>`;
+  }
+
+  /**
+   * Format a frame like `formatAsHtml` does, marking the line number when it changed
+   */
+  private static formatFrameCell(frame: StackTraceLine, lineChanged: boolean, sourceRepositories: SourceRepository[]): string {
+    const lineNumber = frame.lineNumber === undefined
+      ? ''
+      : `:${lineChanged ? `<span class="diff-changed-text">${frame.lineNumber}</span>` : frame.lineNumber}`;
+    const location = `<span class="location">${this.escapeHtml(frame.fileName || '')}${lineNumber}</span>`;
+    const sourceLink = SourceLinkResolver.resolve(frame, sourceRepositories);
+    const linkedLocation = sourceLink
+      ? `<a class="source-link" href="${this.escapeHtml(sourceLink)}" target="_blank" rel="noopener noreferrer">${location}</a>`
+      : location;
+    return `<span class="at-keyword">at</span> <span class="method-name">${this.escapeHtml(frame.className || '')}.${this.escapeHtml(frame.methodName || '')}</span>` +
+      `(${linkedLocation})`;
+  }
+
+  /**
+   * Escape HTML special characters
+   */
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,131 @@
+import { ParsedStackTrace, StackTraceLine } from './stackTraceParser';
+
+/**
+ * Interface representing the options for fingerprinting a stack trace
+ */
+export interface FingerprintOptions {
+  // Leave line numbers out so that traces from different builds group together
+  ignoreLineNumbers?: boolean;
+  // Leave exception messages out entirely instead of normalizing them
+  ignoreMessages?: boolean;
+}
+
+/**
+ * Interface representing the fingerprint of a stack trace
+ */
+export interface StackTraceFingerprint {
+  hash: string;
+  signature: string[];
+}
+
+/**
+ * Compute stable fingerprints of parsed stack traces for grouping duplicates
+ */
+export class StackTraceFingerprinter {
+  private static readonly FNV_OFFSET_BASIS = 0xcbf29ce484222325n;
+  private static readonly FNV_PRIME = 0x100000001b3n;
+  private static readonly UINT64_MASK = 0xffffffffffffffffn;
+
+  /**
+   * Volatile class name parts produced by proxies, lambdas and bytecode generators
+   */
+  private static readonly CLASS_NAME_NORMALIZERS: [RegExp, string][] = [
+    // Lambda classes: Foo$$Lambda$14/0x0000000800c02a00, Foo$$Lambda/0x0000000800c02a00
+    [/\$\$Lambda(?:\$\d+)?(?:\/0x[0-9a-fA-F]+)?/g, '$$$$Lambda'],
+    // JDK dynamic proxies: com.sun.proxy.$Proxy12, jdk.proxy2.$Proxy45
+    [/\bjdk\.proxy\d+\b/g, 'jdk.proxy'],
+    [/\$Proxy\d+/g, '$$Proxy'],
+    // CGLIB and Spring proxies: Foo$$EnhancerBySpringCGLIB$$1a2b3c4d, Foo$$SpringCGLIB$$0
+    [/(\$\$[A-Za-z]*CGLIB[A-Za-z]*\$\$)[0-9a-zA-Z]+/g, '$1'],
+    // Hibernate and ByteBuddy proxies: Foo$HibernateProxy$x1y2z3, Foo$ByteBuddy$abc123
+    [/(\$(?:HibernateProxy|ByteBuddy)\$)[0-9a-zA-Z]+/g, '$1'],
+    // Reflection accessors: GeneratedMethodAccessor123, GeneratedConstructorAccessor7
+    [/(Generated(?:Serialization)?(?:Method|Constructor)Accessor)\d+/g, '$1']
+  ];
+
+  /**
+   * Compute the fingerprint of a parsed stack trace, or null if it has none
+   */
+  public static fingerprint(parsedStackTrace: ParsedStackTrace, options: FingerprintOptions = {}): StackTraceFingerprint | null {
+    if (!parsedStackTrace.hasStackTrace) {
+      return null;
+    }
+
+    // Reconstructed frames depend on how the trace was parsed, not on the failure
+    const signature = parsedStackTrace.lines
+      .filter(line => !line.inherited)
+      .map(line => this.signatureLine(line, options))
+      .filter((line): line is string => line !== null);
+
+    return {
+      hash: this.hash(signature.join('\n')),
+      signature
+    };
+  }
+
+  /**
+   * Normalize an exception message by masking UUIDs, memory addresses and numbers
+   */
+  public static normalizeMessage(message: string): string {
+    return message
+      .replace(/\b[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\b/g, '<uuid>')
+      .replace(/\b0x[0-9a-fA-F]+\b/g, '<address>')
+      .replace(/@[0-9a-fA-F]{4,}\b/g, '@<address>')
+      .replace(/\d+(?:\.\d+)*/g, '<number>')
+      .trim();
+  }
+
+  /**
+   * Normalize a class name by removing generated proxy and lambda suffixes
+   */
+  public static normalizeClassName(className: string): string {
+    return this.CLASS_NAME_NORMALIZERS.reduce(
+      (name, [pattern, replacement]) => name.replace(pattern, replacement),
+      className
+    );
+  }
+
+  /**
+   * Normalize a method name by removing the counter of synthetic lambda methods
+   */
+  public static normalizeMethodName(methodName: string): string {
+    return methodName.replace(/^(lambda\$.*\$)\d+$/, '$1');
+  }
+
+  /**
+   * Build the signature entry of a single line, or null if the line does not contribute
+   */
+  private static signatureLine(line: StackTraceLine, options: FingerprintOptions): string | null {
+    switch (line.type) {
+      case 'exception':
+      case 'caused_by':
+      case 'suppressed': {
+        const exceptionClass = this.normalizeClassName(line.exceptionClass || '');
+        const message = options.ignoreMessages || !line.message ? '' : `: ${this.normalizeMessage(line.message)}`;
+        return `${line.type} ${exceptionClass}${message}`;
+      }
+      case 'at': {
+        const method = `${this.normalizeClassName(line.className || '')}.${this.normalizeMethodName(line.methodName || '')}`;
+        const location = options.ignoreLineNumbers || line.lineNumber === undefined ? '' : `:${line.lineNumber}`;
+        return `at ${method}${location}`;
+      }
+      default:
+        // `... N more` counts and unrecognized lines vary between occurrences
+        return null;
+    }
+  }
+
+  /**
+   * 64-bit FNV-1a hash of the UTF-16 code units of a string, as 16 hex digits
+   */
+  private static hash(text: string): string {
+    let hash = this.FNV_OFFSET_BASIS;
+
+    for (let i = 0; i < text.length; i++) {
+      hash ^= BigInt(text.charCodeAt(i));
+      hash = (hash * this.FNV_PRIME) & this.UINT64_MASK;
+    }
+
+    return hash.toString(16).padStart(16, '0');
+  }
+}
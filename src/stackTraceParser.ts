@@ -1,16 +1,75 @@
+import { FrameClassifier, FrameCategory, FrameClassifierOptions } from './frameClassifier';
+import { LogPrefixStripper, LogPrefixOptions } from './logPrefix';
+import { EscapedStringTokenizer, EscapedRun } from './escapedStrings';
+import { SourceLinkResolver, SourceRepository } from './sourceLinks';
+import { Redactor, RedactionOptions, RedactionCounts, TextEdit } from './redaction';
+import { PythonTracebackParser } from './pythonTraceback';
+import { DotNetStackTraceParser } from './dotnetStackTrace';
+import { FrameDemangler } from './frameDemangler';
+import { FrameCycleDetector, FrameCycle, FoldedLines } from './frameCycles';
+
 /**
  * Interface representing a parsed stack trace line
  */
 export interface StackTraceLine {
-  type: 'exception' | 'at' | 'caused_by' | 'suppressed' | 'more' | 'unknown';
+  type: 'exception' | 'at' | 'caused_by' | 'suppressed' | 'more' | 'thread' | 'thread_state' | 'lock' | 'traceback' | 'chain' | 'source' | 'unknown';
   content: string;
+  // Language of a line that is not printed the way Java prints it, see `LanguageParser`
+  language?: string;
   className?: string;
   methodName?: string;
+  // Readable name of a JVM frame with a compiler-generated name, see `FrameDemangler`
+  displayName?: string;
+  // Accessor, bridge or call site plumbing rather than code someone wrote
+  synthetic?: boolean;
+  // Parameter list of a .NET frame, e.g. `String path, Int32 count`
+  methodParameters?: string;
   fileName?: string;
   lineNumber?: number;
+  classLoaderName?: string;
+  moduleName?: string;
+  moduleVersion?: string;
+  isNative?: boolean;
+  isUnknownSource?: boolean;
+  frameCategory?: FrameCategory;
+  framework?: string;
+  exceptionClass?: string;
+  message?: string;
+  moreCount?: number;
+  inherited?: boolean;
+  threadName?: string;
+  threadId?: number;
+  daemon?: boolean;
+  priority?: number;
+  threadState?: string;
+  lockAction?: LockAction;
+  lockAddress?: string;
+  lockClassName?: string;
+  // Log pipeline prefix stripped from the line, e.g. a Kubernetes timestamp
+  logPrefix?: string;
+  // Position of the line in the original input, see `InputLocation`
+  start?: number;
+  end?: number;
+  inputLine?: number;
   indent: number;
 }
 
+/**
+ * Interface representing the position of a line in the original input: character
+ * offsets (end exclusive) and the 1-based line number
+ */
+export interface InputLocation {
+  start: number;
+  end: number;
+  line: number;
+}
+
+/**
+ * Monitor line of a thread dump: `- locked <0x...>`, `- waiting to lock <0x...>`, ...
+ * Entries under "Locked ownable synchronizers:" count as `locked`.
+ */
+export type LockAction = 'locked' | 'waiting_to_lock' | 'waiting_on' | 'parking' | 'eliminated';
+
 /**
  * Interface representing a complete parsed stack trace
  */
@@ -18,44 +77,292 @@ export interface ParsedStackTrace {
   lines: StackTraceLine[];
   hasStackTrace: boolean;
   extractedText: string;
+  // Language the stack trace was parsed as; Java when missing
+  language?: string;
+  // Number of values redacted from exception messages per category, when redacting
+  redactions?: RedactionCounts;
+  // Recursion in `lines`, folded by the HTML, Markdown and terminal output
+  frameCycles?: FrameCycle[];
 }
 
 /**
- * Extract and parse Java stack trace from a string
+ * Interface representing the options for parsing a stack trace
+ */
+export interface ParseOptions extends FrameClassifierOptions, LogPrefixOptions, RedactionOptions {
+  // Language to parse the stack trace as, detected from the text when missing
+  language?: string;
+  // Fill frames elided by `... N more` back in from the enclosing throwable
+  reconstructElidedFrames?: boolean;
+  // Redact secrets and personal data from exception messages, see `Redactor`
+  redact?: boolean;
+}
+
+/**
+ * Interface representing the options for formatting a stack trace as HTML
+ */
+export interface HtmlFormatOptions {
+  // Fold runs of non-application frames into an expander (default true)
+  collapseFrameworkFrames?: boolean;
+  // Repositories to link frame locations to, see `SourceLinkResolver`
+  sourceRepositories?: SourceRepository[];
+}
+
+/**
+ * Interface representing a stack trace extracted from a larger input
+ */
+export interface ExtractedStackTrace {
+  text: string;
+  start: number;
+  end: number;
+  startLine: number;
+  endLine: number;
+  // Position of every line of `text` in the input, mapped through escape sequences
+  lineLocations: InputLocation[];
+  // True when the text was unescaped from a serialized (JSON) string
+  serialized: boolean;
+}
+
+/**
+ * Interface representing one throwable in the cause/suppressed hierarchy
+ */
+export interface ThrowableNode {
+  kind: 'root' | 'cause' | 'suppressed';
+  exceptionClass: string;
+  message?: string;
+  threadName?: string;
+  header: StackTraceLine;
+  frames: StackTraceLine[];
+  moreCount: number;
+  cause?: ThrowableNode;
+  suppressed: ThrowableNode[];
+}
+
+/**
+ * Interface representing a range of lines, as indexes into a list of lines (end exclusive)
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Interface representing the stack trace format of a programming language. Parsers see
+ * lines without their log prefixes; positions, frame classification and redaction are
+ * left to `StackTraceParser`.
+ */
+export interface LanguageParser {
+  // Name of the language, e.g. `java` or `python`
+  language: string;
+  // Find the stack traces among the lines of an input, ordered and without overlaps
+  findBlocks(lines: string[]): LineRange[];
+  // Check whether a text, such as a string unescaped from JSON, holds a stack trace
+  containsStackTrace(text: string): boolean;
+  // Parse the lines of one stack trace, one entry per line; entries of blank lines are ignored
+  parseLines(lines: string[]): (StackTraceLine | null)[];
+  // Build the cause/suppressed hierarchy of the first throwable, frames innermost call first
+  buildThrowableTree(lines: StackTraceLine[]): ThrowableNode | null;
+}
+
+/**
+ * Extract and parse stack traces from a string
  */
 export class StackTraceParser {
+  /**
+   * Frame line in any form `StackTraceElement.toString()` produces:
+   * `at [classLoader/][module[@version]/]declaringClass.method(location)`, where the
+   * method may be `<init>` or `<clinit>` and identifiers may contain any non-ASCII letter
+   */
+  private static readonly FRAME_PATTERN = /^(\s*)at\s+([^\s()]+?\.(?:<init>|<clinit>|[^\s().<>]+(?: [^\s().<>]+)*))\(([^()]+)\)\s*$/;
+
+  /**
+   * Kotlin coroutine stack traces of kotlinx.coroutines before 1.7 start the frames of the
+   * coroutine that awaited the failed one with `(Coroutine boundary)`; debug dumps start
+   * the frames that created a coroutine with `(Coroutine creation stack trace)`
+   */
+  private static readonly COROUTINE_SECTION_PATTERN = /^\s*\(Coroutine (?:boundary|creation stack trace)\)\s*$/;
+
+  /**
+   * Line patterns of stack traces. Every pattern is anchored and has at most one way to
+   * match each character, so a line is checked in linear time however long it is.
+   * Messages end at a non-space character so that they never compete with the trailing
+   * whitespace, which can include a lone `\r` or U+2028 that `.` does not match.
+   */
   private static readonly STACK_TRACE_PATTERNS = [
     // Exception line: Exception in thread "main" java.lang.NullPointerException: Cannot invoke...
-    /^(\s*)(Exception in thread .+|[a-zA-Z_$][a-zA-Z0-9_$.]*(?:\.[a-zA-Z_$][a-zA-Z0-9_$]*)*(?:Exception|Error)(?::\s*.+)?)\s*$/,
+    /^(\s*)(Exception in thread .*\S|[a-zA-Z_$][a-zA-Z0-9_$.]*(?:Exception|Error)(?::(?=[\s\S])(?:.*\S)?)?)\s*$/,
     
-    // At line: at com.example.Class.method(File.java:123)
-    /^(\s*)at\s+([a-zA-Z_$][a-zA-Z0-9_$.]*\.[a-zA-Z_$][a-zA-Z0-9_$]*)\(([^)]+)\)\s*$/,
+    // At line: at java.base/com.example.Class.method(File.java:123)
+    StackTraceParser.FRAME_PATTERN,
     
     // Caused by line: Caused by: java.lang.RuntimeException: Something went wrong
-    /^(\s*)Caused by:\s*([a-zA-Z_$][a-zA-Z0-9_$.]*(?:\.[a-zA-Z_$][a-zA-Z0-9_$]*)*(?:Exception|Error)(?::\s*.+)?)\s*$/,
+    /^(\s*)Caused by:\s*([a-zA-Z_$][a-zA-Z0-9_$.]*(?:Exception|Error)(?::(?=[\s\S])(?:.*\S)?)?)\s*$/,
     
     // Suppressed line: Suppressed: java.lang.IOException: File not found
-    /^(\s*)Suppressed:\s*([a-zA-Z_$][a-zA-Z0-9_$.]*(?:\.[a-zA-Z_$][a-zA-Z0-9_$]*)*(?:Exception|Error)(?::\s*.+)?)\s*$/,
+    /^(\s*)Suppressed:\s*([a-zA-Z_$][a-zA-Z0-9_$.]*(?:Exception|Error)(?::(?=[\s\S])(?:.*\S)?)?)\s*$/,
     
     // More line: ... 15 more
-    /^(\s*)\.\.\.\s*\d+\s*more\s*$/
+    /^(\s*)\.\.\.\s*\d+\s*more\s*$/,
+
+    // Kotlin coroutine section: (Coroutine boundary)
+    StackTraceParser.COROUTINE_SECTION_PATTERN
   ];
 
+  private static readonly ESCAPE_SEQUENCE_PATTERN = /^\\(?:[nrt"\\/]|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2})/;
+
+  private static readonly LOCK_ACTIONS: Record<string, LockAction> = {
+    'locked': 'locked',
+    'waiting to lock': 'waiting_to_lock',
+    'waiting to re-lock in wait()': 'waiting_to_lock',
+    'waiting on': 'waiting_on',
+    'parking to wait for': 'parking',
+    'eliminated': 'eliminated'
+  };
+
+  /**
+   * Java stack traces, from the JVM's own format that the rest of this class parses
+   */
+  private static readonly JAVA_PARSER: LanguageParser = {
+    language: 'java',
+    findBlocks: lines => StackTraceParser.findJavaBlocks(lines),
+    containsStackTrace: text => StackTraceParser.containsStackTracePatterns(text),
+    parseLines: lines => lines.map(line => StackTraceParser.parseStackTraceLine(line)),
+    buildThrowableTree: lines => StackTraceParser.buildJavaThrowableTree(lines)
+  };
+
+  /**
+   * Parsers of the supported languages, in the order the language of a text is detected
+   * in. Java comes last: it is the fallback, and its patterns also match exception and
+   * frame lines of other languages.
+   */
+  private static readonly LANGUAGE_PARSERS: LanguageParser[] = [PythonTracebackParser, DotNetStackTraceParser, StackTraceParser.JAVA_PARSER];
+
+  /**
+   * Add support for a language, or replace the parser of a supported language. Added
+   * languages are detected before the built-in ones.
+   */
+  public static registerLanguage(parser: LanguageParser): void {
+    const index = this.LANGUAGE_PARSERS.findIndex(existing => existing.language === parser.language);
+    if (index >= 0) {
+      this.LANGUAGE_PARSERS.splice(index, 1);
+    }
+    this.LANGUAGE_PARSERS.unshift(parser);
+  }
+
+  /**
+   * Names of the supported languages
+   */
+  public static get languages(): string[] {
+    return this.LANGUAGE_PARSERS.map(parser => parser.language);
+  }
+
+  /**
+   * Detect the language of a stack trace, falling back to Java
+   */
+  public static detectLanguage(text: string): string {
+    return this.detectLanguageParser(text).language;
+  }
+
   /**
    * Extract stack trace text from input string
    */
-  public static extractStackTrace(input: string): string {
+  public static extractStackTrace(input: string, options: LogPrefixOptions = {}): string {
+    const stackTrace = this.findStackTrace(input, options);
+    return stackTrace ? stackTrace.text : '';
+  }
+
+  /**
+   * Extract the preferred stack trace of the input together with its position
+   */
+  public static findStackTrace(input: string, options: LogPrefixOptions = {}): ExtractedStackTrace | null {
     // First, try to extract serialized stack trace from JSON fields
-    const serializedStackTrace = this.extractSerializedStackTrace(input);
+    const [serializedStackTrace] = this.findSerializedStackTraces(input);
     if (serializedStackTrace) {
       return serializedStackTrace;
     }
     
     // Fallback to regular line-by-line extraction
-    const lines = input.split(/\r?\n/);
-    const stackTraceLines: string[] = [];
-    let inStackTrace = false;
-    let stackTraceStartIndex = -1;
+    const [firstBlock] = this.findStackTraceBlocks(input, options);
+    return firstBlock || null;
+  }
+
+  /**
+   * Extract every stack trace in the input, ordered by position.
+   *
+   * Serialized traces from quoted JSON strings and plain multi-line traces are both
+   * collected; when two candidates overlap, the serialized one wins.
+   */
+  public static extractAllStackTraces(input: string, options: LogPrefixOptions = {}): ExtractedStackTrace[] {
+    const serialized = this.findSerializedStackTraces(input);
+    const accepted = [...serialized];
+    
+    // Both lists are ordered and free of overlaps among themselves, so a single sweep
+    // finds the plain blocks that overlap a serialized stack trace
+    let next = 0;
+    for (const block of this.findStackTraceBlocks(input, options)) {
+      while (next < serialized.length && serialized[next].end <= block.start) {
+        next++;
+      }
+      if (next < serialized.length && serialized[next].start < block.end) {
+        continue;
+      }
+      accepted.push(block);
+    }
+    
+    return accepted.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Find plain multi-line stack trace blocks of every language by scanning the input
+   * line by line. Lines are recognized without their log prefixes, but blocks keep the
+   * input as is. Languages scan in detection order, and lines in a block of one language
+   * are blank to the languages after it, so that Java does not claim the exception
+   * lines of other languages.
+   */
+  private static findStackTraceBlocks(input: string, options: LogPrefixOptions): ExtractedStackTrace[] {
+    const lines = this.splitLinesWithOffsets(input);
+    const strippedLines = LogPrefixStripper.stripLines(lines.map(line => line.text), options).map(line => line.text);
+    const ranges: LineRange[] = [];
+    
+    for (const parser of this.LANGUAGE_PARSERS) {
+      for (const range of parser.findBlocks(strippedLines)) {
+        ranges.push(range);
+        strippedLines.fill('', range.start, range.end);
+      }
+    }
+    
+    const blocks: ExtractedStackTrace[] = [];
+    for (const range of ranges.sort((a, b) => a.start - b.start)) {
+      const blockLines = lines.slice(range.start, range.end);
+      blocks.push({
+        text: blockLines.map(line => line.text).join('\n'),
+        start: blockLines[0].start,
+        end: blockLines[blockLines.length - 1].end,
+        startLine: blockLines[0].line,
+        endLine: blockLines[blockLines.length - 1].line,
+        lineLocations: blockLines.map(({ start, end, line }) => ({ start, end, line })),
+        serialized: false
+      });
+    }
+    
+    return blocks;
+  }
+
+  /**
+   * Find Java stack traces among lines without their log prefixes
+   */
+  private static findJavaBlocks(lines: string[]): LineRange[] {
+    const blocks: LineRange[] = [];
+    let blockStartIndex = -1;
+    let lastStackTraceLineIndex = -1;
+    let blockHasFrames = false;
+    
+    const closeBlock = () => {
+      if (blockStartIndex >= 0) {
+        blocks.push({ start: blockStartIndex, end: lastStackTraceLineIndex + 1 });
+      }
+      blockStartIndex = -1;
+      blockHasFrames = false;
+    };
     
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
@@ -63,19 +370,22 @@ export class StackTraceParser {
       
       // Check if this line looks like a stack trace line
       const isStackTraceLine = this.isStackTraceLine(line);
+      const inStackTrace = blockStartIndex >= 0;
       
-      if (isStackTraceLine && !inStackTrace) {
-        // Start of stack trace
-        inStackTrace = true;
-        stackTraceStartIndex = i;
-        stackTraceLines.push(line);
-      } else if (isStackTraceLine && inStackTrace) {
-        // Continue stack trace
-        stackTraceLines.push(line);
-      } else if (inStackTrace && trimmedLine === '') {
-        // Empty line in stack trace - might be end or continuation
-        stackTraceLines.push(line);
-      } else if (inStackTrace && !isStackTraceLine) {
+      if (isStackTraceLine) {
+        const lineType = this.parseStackTraceLine(line)?.type;
+        
+        // A new top-level exception after frames starts the next stack trace
+        if (inStackTrace && blockHasFrames && lineType === 'exception') {
+          closeBlock();
+        }
+        
+        if (blockStartIndex < 0) {
+          blockStartIndex = i;
+        }
+        lastStackTraceLineIndex = i;
+        blockHasFrames = blockHasFrames || lineType === 'at';
+      } else if (inStackTrace && trimmedLine !== '') {
         // Non-stack trace line found, might be end of stack trace
         // Look ahead to see if there are more stack trace lines
         let foundMoreStackTrace = false;
@@ -88,211 +398,210 @@ export class StackTraceParser {
         
         if (!foundMoreStackTrace) {
           // End of stack trace
-          break;
-        } else {
-          // Include this line and continue
-          stackTraceLines.push(line);
+          closeBlock();
         }
       }
     }
     
-    return stackTraceLines.join('\n');
+    closeBlock();
+    return blocks;
   }
 
   /**
-   * Extract serialized stack trace from JSON strings or any text containing escaped stacktraces
+   * Split input into lines, keeping the position of each line
    */
-  private static extractSerializedStackTrace(input: string): string | null {
-    // Try multiple extraction strategies in order of preference
-    
-    // Strategy 1: Look for complete quoted JSON strings
-    const completeQuotedResult = this.extractFromQuotedStrings(input);
-    if (completeQuotedResult) {
-      return completeQuotedResult;
-    }
-    
-    // Strategy 2: Look for incomplete JSON or partial strings with escaped content
-    const incompleteJsonResult = this.extractFromIncompleteJson(input);
-    if (incompleteJsonResult) {
-      return incompleteJsonResult;
-    }
+  private static splitLinesWithOffsets(input: string): ({ text: string } & InputLocation)[] {
+    const lines: ({ text: string } & InputLocation)[] = [];
+    const lineBreakPattern = /\r?\n/g;
+    let lineStart = 0;
+    let match;
     
-    // Strategy 3: Look for raw escaped sequences in any text
-    const rawEscapedResult = this.extractFromRawEscapedText(input);
-    if (rawEscapedResult) {
-      return rawEscapedResult;
+    while ((match = lineBreakPattern.exec(input)) !== null) {
+      lines.push({ text: input.substring(lineStart, match.index), start: lineStart, end: match.index, line: lines.length + 1 });
+      lineStart = match.index + match[0].length;
     }
+    lines.push({ text: input.substring(lineStart), start: lineStart, end: input.length, line: lines.length + 1 });
     
-    return null;
+    return lines;
   }
 
   /**
-   * Extract from properly quoted JSON strings
+   * Create an extracted stack trace from escaped input content, locating every line of
+   * the unescaped text through the input offsets of its characters
    */
-  private static extractFromQuotedStrings(input: string): string | null {
-    // Pattern to match quoted strings that contain stack trace patterns
-    const quotedStringPattern = /"([^"\\]*(\\.[^"\\]*)*)"/g;
+  private static createSerializedStackTrace(
+    lineStarts: number[],
+    unescaped: { text: string; offsets: number[] },
+    start: number,
+    end: number
+  ): ExtractedStackTrace {
+    // `lineStarts` holds the offsets at which input lines start, for mapping offsets to line numbers
+    const lineAt = (offset: number) => {
+      let low = 0;
+      let high = lineStarts.length - 1;
+      while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (lineStarts[middle] <= offset) {
+          low = middle;
+        } else {
+          high = middle - 1;
+        }
+      }
+      return low + 1;
+    };
+    
+    const lineLocations: InputLocation[] = [];
+    const lineBreakPattern = /\r?\n/g;
+    let lineStart = 0;
     let match;
     
-    while ((match = quotedStringPattern.exec(input)) !== null) {
-      const quotedContent = match[1];
-      
-      // Unescape the string content
-      const unescapedContent = this.unescapeJsonString(quotedContent);
-      
-      // Check if this unescaped content contains stack trace patterns
-      if (this.containsStackTracePatterns(unescapedContent)) {
-        return unescapedContent;
-      }
+    while ((match = lineBreakPattern.exec(unescaped.text)) !== null) {
+      lineLocations.push({ start: unescaped.offsets[lineStart], end: unescaped.offsets[match.index], line: lineAt(unescaped.offsets[lineStart]) });
+      lineStart = match.index + match[0].length;
     }
+    lineLocations.push({ start: unescaped.offsets[lineStart], end: unescaped.offsets[unescaped.text.length], line: lineAt(unescaped.offsets[lineStart]) });
     
-    return null;
+    return {
+      text: unescaped.text,
+      start,
+      end,
+      startLine: lineAt(start),
+      endLine: lineAt(Math.max(start, end - 1)),
+      lineLocations,
+      serialized: true
+    };
   }
 
   /**
-   * Extract from incomplete JSON or partial strings
+   * Find stack traces serialized into escaped text, in input order. Complete quoted
+   * strings come first; only when there are none is the first truncated string, or else
+   * the first escaped text outside quotes, used as a fallback.
    */
-  private static extractFromIncompleteJson(input: string): string | null {
-    // Look for patterns that might be incomplete JSON with escaped stacktraces
-    // This handles cases like: "exception": "java.lang.Exception\\n\\tat...
-    // or even without proper closing quotes
+  private static findSerializedStackTraces(input: string): ExtractedStackTrace[] {
+    const runs = EscapedStringTokenizer.tokenize(input);
+    if (runs.length === 0) {
+      return [];
+    }
     
-    const incompletePatterns = [
-      // JSON field with escaped content (may be incomplete)
-      /"[^"]*":\s*"([^"\\]*(?:\\.[^"\\]*)*)/g,
-      // Just escaped content after a colon (incomplete JSON)
-      /:\s*"([^"\\]*(?:\\.[^"\\]*)*)/g,
-      // Content that looks like escaped stacktrace anywhere
-      /"([^"\\]*(?:\\.[^"\\]*)*(?:Exception|Error)[^"\\]*(?:\\.[^"\\]*)*)/g
-    ];
+    const lineStarts = this.splitLinesWithOffsets(input).map(line => line.start);
+    const extract = (run: EscapedRun) => this.extractEscapedRun(input, run, lineStarts);
     
-    for (const pattern of incompletePatterns) {
-      let match;
-      while ((match = pattern.exec(input)) !== null) {
-        const content = match[1];
-        const unescapedContent = this.unescapeJsonString(content);
-        
-        if (this.containsStackTracePatterns(unescapedContent)) {
-          return unescapedContent;
+    const quoted = runs
+      .filter(run => run.kind === 'quoted')
+      .map(extract)
+      .filter((stackTrace): stackTrace is ExtractedStackTrace => stackTrace !== null);
+    if (quoted.length > 0) {
+      return quoted;
+    }
+    
+    for (const kind of ['unterminated', 'bare']) {
+      for (const run of runs.filter(candidate => candidate.kind === kind)) {
+        const stackTrace = extract(run);
+        if (stackTrace) {
+          return [stackTrace];
         }
       }
-      // Reset lastIndex for next pattern
-      pattern.lastIndex = 0;
     }
     
-    return null;
+    return [];
   }
 
   /**
-   * Extract from raw escaped text sequences
+   * Unescape a run of escaped text and keep it if it holds a stack trace. Quoted strings
+   * are located including their quotes; escaped text outside quotes starts at the
+   * exception header.
    */
-  private static extractFromRawEscapedText(input: string): string | null {
-    // Look for escaped sequences that might be stacktraces even without JSON structure
-    // This handles cases where stacktraces are embedded in logs or other text formats
-    // Be more conservative to avoid false positives
+  private static extractEscapedRun(input: string, run: EscapedRun, lineStarts: number[]): ExtractedStackTrace | null {
+    let start = run.start;
+    let end = run.end;
     
-    const escapedPatterns = [
-      // Any text containing \\n and Exception/Error patterns with at least one \\t
-      /([^"]*(?:Exception|Error)[^"]*\\n[^"]*\\t[^"]*at\s+[a-zA-Z_$][^"]*)/g,
-      // Text with multiple \\n, \\t and java package patterns
-      /([^"]*(?:java\.|com\.|org\.)[^"]*\\n[^"]*\\t[^"]*at\s+[^"]*(?:\\n[^"]*){1,})/g
-    ];
-    
-    for (const pattern of escapedPatterns) {
-      let match;
-      while ((match = pattern.exec(input)) !== null) {
-        const content = match[1];
-        
-        // Only process if it looks sufficiently like an escaped stacktrace
-        if (content.includes('\\n') && content.includes('\\t') && content.includes('at ')) {
-          // Try to find the longest meaningful escaped sequence
-          const extendedContent = this.extractExtendedEscapedSequence(input, match.index);
-          const unescapedContent = this.unescapeJsonString(extendedContent);
-          
-          if (this.containsStackTracePatterns(unescapedContent)) {
-            return unescapedContent;
-          }
-        }
+    if (run.kind === 'bare') {
+      start = this.findEscapedHeaderStart(input, start, end);
+      while (end > start && /\s/.test(input[end - 1])) {
+        end--;
       }
-      // Reset lastIndex for next pattern
-      pattern.lastIndex = 0;
     }
     
-    return null;
+    const unescaped = this.unescapeWithOffsets(input.substring(start, end), start);
+    if (!this.LANGUAGE_PARSERS.some(parser => parser.containsStackTrace(unescaped.text))) {
+      return null;
+    }
+    
+    return run.kind === 'quoted'
+      ? this.createSerializedStackTrace(lineStarts, unescaped, start - 1, end + 1)
+      : this.createSerializedStackTrace(lineStarts, unescaped, start, end);
   }
 
   /**
-   * Extract extended escaped sequence from a starting position
+   * Find the exception header in escaped text outside quotes, such as
+   * `ERROR Request failed: java.lang.IllegalStateException: Invalid\n\tat ...`, or the
+   * header of a Python traceback, among the words before the first escaped line break.
+   * Falls back to the start of the text.
    */
-  private static extractExtendedEscapedSequence(input: string, startIndex: number): string {
-    // Look backwards and forwards from the match to find the complete escaped sequence
-    let start = startIndex;
-    let end = startIndex;
+  private static findEscapedHeaderStart(input: string, start: number, end: number): number {
+    const text = input.substring(start, end);
+    const lineBreak = text.search(/\\(?:[nr]|u000[adAD]|x0[adAD])/);
+    const firstLine = lineBreak < 0 ? text : text.substring(0, lineBreak);
     
-    // Find the start of the escaped sequence (look for opening quote or whitespace)
-    while (start > 0 && 
-           input[start - 1] !== '"' && 
-           input[start - 1] !== ' ' && 
-           input[start - 1] !== '\t' && 
-           input[start - 1] !== '\n') {
-      start--;
+    const wordPattern = /\S+/g;
+    let word;
+    while ((word = wordPattern.exec(firstLine)) !== null) {
+      if (firstLine.startsWith('Exception in thread ', word.index) ||
+          firstLine.startsWith('Traceback (most recent call last):', word.index) ||
+          /^[a-zA-Z_$][a-zA-Z0-9_$.]*(?:Exception|Error):?$/.test(word[0])) {
+        return start + word.index;
+      }
     }
     
-    // Find the end of the escaped sequence
-    let escapeCount = 0;
-    let inEscape = false;
+    return start + (text.length - text.trimStart().length);
+  }
+
+  /**
+   * Unescape JSON string content with enhanced support for various escape sequences,
+   * recording the input offset of every unescaped character. `offsets` has one extra
+   * entry for the end of the content.
+   */
+  private static unescapeWithOffsets(str: string, baseOffset: number): { text: string; offsets: number[] } {
+    let text = '';
+    const offsets: number[] = [];
+    let i = 0;
     
-    for (let i = startIndex; i < input.length; i++) {
-      const char = input[i];
+    while (i < str.length) {
+      const escape = str[i] === '\\' ? str.substring(i, i + 6).match(this.ESCAPE_SEQUENCE_PATTERN) : null;
       
-      if (char === '\\' && !inEscape) {
-        inEscape = true;
-        escapeCount++;
-      } else if (inEscape) {
-        inEscape = false;
-        if (char === 'n' || char === 't' || char === 'r') {
-          // Continue, this looks like an escape sequence
-        } else if (char === '"' || char === '\\') {
-          // Continue, this is an escaped quote or backslash
-        } else {
-          // Not a typical escape sequence, but continue for now
-        }
-      } else if (char === '"' && escapeCount > 0) {
-        // Might be the end of the escaped sequence
-        end = i;
-        break;
-      } else if (char === ' ' || char === '\t' || char === '\n') {
-        // Whitespace might indicate end
-        if (escapeCount >= 2) { // Only if we found some escapes
-          end = i;
-          break;
-        }
-      }
-      
-      if (i > startIndex + 2000) { // Prevent infinite loops
-        break;
+      if (escape) {
+        text += this.unescapeSequence(escape[0]);
+        offsets.push(baseOffset + i);
+        i += escape[0].length;
+      } else {
+        text += str[i];
+        offsets.push(baseOffset + i);
+        i++;
       }
     }
+    offsets.push(baseOffset + str.length);
     
-    if (end <= startIndex) {
-      end = Math.min(input.length, startIndex + 1000); // Default to reasonable length
-    }
-    
-    return input.substring(start, end);
+    return { text, offsets };
   }
 
   /**
-   * Unescape JSON string content with enhanced support for various escape sequences
+   * Decode a single escape sequence matched by `ESCAPE_SEQUENCE_PATTERN`
    */
-  private static unescapeJsonString(str: string): string {
-    return str
-      .replace(/\\n/g, '\n')
-      .replace(/\\r/g, '\r')
-      .replace(/\\t/g, '\t')
-      .replace(/\\"/g, '"')
-      .replace(/\\\\/g, '\\')
-      .replace(/\\u([0-9a-fA-F]{4})/g, (match, hex) => String.fromCharCode(parseInt(hex, 16)))
-      .replace(/\\x([0-9a-fA-F]{2})/g, (match, hex) => String.fromCharCode(parseInt(hex, 16)));
+  private static unescapeSequence(sequence: string): string {
+    switch (sequence[1]) {
+      case 'n':
+        return '\n';
+      case 'r':
+        return '\r';
+      case 't':
+        return '\t';
+      case 'u':
+      case 'x':
+        return String.fromCharCode(parseInt(sequence.substring(2), 16));
+      default:
+        // Escaped quote, backslash or slash (`\/` in JSON)
+        return sequence[1];
+    }
   }
 
   /**
@@ -314,7 +623,7 @@ export class StackTraceParser {
             trimmed.match(/^Exception in thread/)) {
           hasExceptionLine = true;
         }
-        if (trimmed.match(/^\s*at\s+[a-zA-Z_$]/)) {
+        if (trimmed.match(/^at\s+\S/)) {
           hasAtLine = true;
         }
       }
@@ -345,33 +654,149 @@ export class StackTraceParser {
   }
 
   /**
-   * Parse extracted stack trace text into structured format
+   * Find the parser of a supported language
+   */
+  private static findLanguageParser(language: string): LanguageParser | undefined {
+    return this.LANGUAGE_PARSERS.find(parser => parser.language === language);
+  }
+
+  /**
+   * Find the first parser that recognizes a stack trace in a text, or the Java parser
+   */
+  private static detectLanguageParser(text: string): LanguageParser {
+    return this.LANGUAGE_PARSERS.find(parser => parser.containsStackTrace(text)) ||
+      this.findLanguageParser('java') ||
+      this.JAVA_PARSER;
+  }
+
+  /**
+   * Parse extracted stack trace text into structured format.
+   *
+   * Line positions are relative to the text itself unless `lineLocations` places every
+   * line of the text in a larger input, as `ExtractedStackTrace.lineLocations` does.
+   * With `redact`, the redacted message lines replace the original ones in `extractedText` too.
    */
-  public static parseStackTrace(stackTraceText: string): ParsedStackTrace {
-    const lines = stackTraceText.split(/\r?\n/);
+  public static parseStackTrace(stackTraceText: string, options: ParseOptions = {}, lineLocations?: InputLocation[]): ParsedStackTrace {
+    const rawLines = this.splitLinesWithOffsets(stackTraceText);
+    const lines = LogPrefixStripper.stripLines(rawLines.map(line => line.text), options);
+    const languageParser = (options.language && this.findLanguageParser(options.language)) ||
+      this.detectLanguageParser(lines.map(line => line.text).join('\n'));
+    const languageLines = languageParser.parseLines(lines.map(line => line.text));
     const parsedLines: StackTraceLine[] = [];
+    const redactions: RedactionCounts = {};
+    const redactionEdits: TextEdit[] = [];
     
-    for (const line of lines) {
+    lines.forEach(({ prefix, text: line }, index) => {
       if (line.trim() === '') {
-        continue;
+        return;
       }
       
-      const parsedLine = this.parseStackTraceLine(line);
+      const parsedLine = languageLines[index];
       if (parsedLine) {
+        if (parsedLine.type === 'at') {
+          Object.assign(parsedLine, FrameClassifier.classifyFrame(parsedLine, options));
+          if (!parsedLine.language) {
+            Object.assign(parsedLine, FrameDemangler.demangle(parsedLine));
+          }
+        }
+        
+        const location = lineLocations?.[index] || rawLines[index];
+        // Skip the log prefix when it is part of the line as written
+        const prefixLength = prefix && rawLines[index].text.startsWith(prefix) ? prefix.length : 0;
+        parsedLine.start = Math.min(location.start + prefixLength, location.end);
+        parsedLine.end = location.end;
+        parsedLine.inputLine = location.line;
+        
+        if (prefix) {
+          parsedLine.logPrefix = prefix;
+        }
+        
+        if (options.redact && Redactor.redactLine(parsedLine, options, redactions)) {
+          redactionEdits.push({ start: rawLines[index].start + prefixLength, end: rawLines[index].end, text: parsedLine.content });
+        }
         parsedLines.push(parsedLine);
       }
-    }
+    });
     
     // Only consider it a valid stack trace if we have at least one recognized line type
     const hasValidStackTraceLines = parsedLines.some(line => 
       line.type !== 'unknown'
     );
     
-    return {
+    const parsedStackTrace: ParsedStackTrace = {
       lines: parsedLines,
       hasStackTrace: hasValidStackTraceLines,
-      extractedText: stackTraceText
+      extractedText: options.redact ? Redactor.applyEdits(stackTraceText, redactionEdits) : stackTraceText,
+      language: languageParser.language
     };
+    
+    if (options.redact) {
+      parsedStackTrace.redactions = redactions;
+    }
+    
+    if (options.reconstructElidedFrames) {
+      parsedStackTrace.lines = this.reconstructElidedFrames(parsedStackTrace);
+    }
+    
+    const frameCycles = FrameCycleDetector.findCycles(parsedStackTrace.lines);
+    if (frameCycles.length > 0) {
+      parsedStackTrace.frameCycles = frameCycles;
+    }
+    
+    return parsedStackTrace;
+  }
+
+  /**
+   * Insert the frames elided by each `... N more` line after it, marked as inherited.
+   *
+   * Java elides the trailing frames a throwable has in common with its enclosing
+   * throwable (the one it is the cause of or suppressed in), so they are the last N
+   * frames of the enclosing throwable, including frames it inherited itself.
+   */
+  private static reconstructElidedFrames(parsedStackTrace: ParsedStackTrace): StackTraceLine[] {
+    const root = this.buildThrowableTree(parsedStackTrace);
+    if (!root) {
+      return parsedStackTrace.lines;
+    }
+    
+    const inheritedFrames = new Map<StackTraceLine, StackTraceLine[]>();
+    // Throwables still to visit with the frames of their enclosing throwable; a stack
+    // rather than recursion, cause chains can be thousands of throwables long
+    const pending: [ThrowableNode, StackTraceLine[]][] = [[root, []]];
+    
+    while (pending.length > 0) {
+      const [node, enclosingFrames] = pending.pop()!;
+      const elided = node.moreCount > 0 ? enclosingFrames.slice(-node.moreCount) : [];
+      inheritedFrames.set(node.header, elided);
+      
+      const allFrames = [...node.frames, ...elided];
+      if (node.cause) {
+        pending.push([node.cause, allFrames]);
+      }
+      node.suppressed.forEach(suppressed => pending.push([suppressed, allFrames]));
+    }
+    
+    // Frames and `... N more` lines belong to the most recent header line
+    const lines: StackTraceLine[] = [];
+    let currentHeader: StackTraceLine | undefined;
+    
+    for (const line of parsedStackTrace.lines) {
+      lines.push(line);
+      
+      if (inheritedFrames.has(line)) {
+        currentHeader = line;
+      } else if (line.type === 'more' && currentHeader) {
+        const prefix = line.content.match(/^\s*/)![0];
+        lines.push(...inheritedFrames.get(currentHeader)!.map(frame => ({
+          ...frame,
+          content: prefix + frame.content.trim(),
+          indent: line.indent,
+          inherited: true
+        })));
+      }
+    }
+    
+    return lines;
   }
 
   /**
@@ -381,75 +806,113 @@ export class StackTraceParser {
     const indent = line.length - line.trimStart().length;
     
     // Exception line
-    const exceptionMatch = line.match(/^(\s*)(Exception in thread .+|[a-zA-Z_$][a-zA-Z0-9_$.]*(?:\.[a-zA-Z_$][a-zA-Z0-9_$]*)*(?:Exception|Error)(?::\s*.+)?)\s*$/);
+    const exceptionMatch = line.match(/^(\s*)(Exception in thread .*\S|[a-zA-Z_$][a-zA-Z0-9_$.]*(?:Exception|Error)(?::(?=[\s\S])(?:.*\S)?)?)\s*$/);
     if (exceptionMatch) {
+      const { exceptionClass, message } = this.parseExceptionHeader(exceptionMatch[2]);
       return {
         type: 'exception',
         content: line,
+        exceptionClass,
+        message,
         indent
       };
     }
     
     // At line
-    const atMatch = line.match(/^(\s*)at\s+([a-zA-Z_$][a-zA-Z0-9_$.]*\.[a-zA-Z_$][a-zA-Z0-9_$]*)\(([^)]+)\)\s*$/);
+    const atMatch = line.match(this.FRAME_PATTERN);
     if (atMatch) {
-      const fullMethod = atMatch[2];
-      const location = atMatch[3];
-      
-      // Extract class and method
-      const lastDotIndex = fullMethod.lastIndexOf('.');
-      const className = lastDotIndex > 0 ? fullMethod.substring(0, lastDotIndex) : '';
-      const methodName = lastDotIndex > 0 ? fullMethod.substring(lastDotIndex + 1) : fullMethod;
-      
-      // Extract file name and line number
-      let fileName: string | undefined;
-      let lineNumber: number | undefined;
-      
-      const locationMatch = location.match(/^(.+):(\d+)$/);
-      if (locationMatch) {
-        fileName = locationMatch[1];
-        lineNumber = parseInt(locationMatch[2]);
-      } else {
-        fileName = location;
-      }
-      
       return {
         type: 'at',
         content: line,
-        className,
-        methodName,
-        fileName,
-        lineNumber,
+        ...this.parseFrameDeclaration(atMatch[2]),
+        ...this.parseFrameLocation(atMatch[3]),
         indent
       };
     }
     
     // Caused by line
-    const causedByMatch = line.match(/^(\s*)Caused by:\s*([a-zA-Z_$][a-zA-Z0-9_$.]*(?:\.[a-zA-Z_$][a-zA-Z0-9_$]*)*(?:Exception|Error)(?::\s*.+)?)\s*$/);
+    const causedByMatch = line.match(/^(\s*)Caused by:\s*([a-zA-Z_$][a-zA-Z0-9_$.]*(?:Exception|Error)(?::(?=[\s\S])(?:.*\S)?)?)\s*$/);
     if (causedByMatch) {
+      const { exceptionClass, message } = this.parseExceptionHeader(causedByMatch[2]);
       return {
         type: 'caused_by',
         content: line,
+        exceptionClass,
+        message,
         indent
       };
     }
     
     // Suppressed line
-    const suppressedMatch = line.match(/^(\s*)Suppressed:\s*([a-zA-Z_$][a-zA-Z0-9_$.]*(?:\.[a-zA-Z_$][a-zA-Z0-9_$]*)*(?:Exception|Error)(?::\s*.+)?)\s*$/);
+    const suppressedMatch = line.match(/^(\s*)Suppressed:\s*([a-zA-Z_$][a-zA-Z0-9_$.]*(?:Exception|Error)(?::(?=[\s\S])(?:.*\S)?)?)\s*$/);
     if (suppressedMatch) {
+      const { exceptionClass, message } = this.parseExceptionHeader(suppressedMatch[2]);
       return {
         type: 'suppressed',
         content: line,
+        exceptionClass,
+        message,
         indent
       };
     }
     
     // More line
-    const moreMatch = line.match(/^(\s*)\.\.\.\s*\d+\s*more\s*$/);
+    const moreMatch = line.match(/^(\s*)\.\.\.\s*(\d+)\s*more\s*$/);
     if (moreMatch) {
       return {
         type: 'more',
         content: line,
+        moreCount: parseInt(moreMatch[2]),
+        indent
+      };
+    }
+    
+    // Kotlin coroutine section line: (Coroutine boundary)
+    if (this.COROUTINE_SECTION_PATTERN.test(line)) {
+      return {
+        type: 'chain',
+        content: line,
+        indent
+      };
+    }
+    
+    // Thread dump header: "http-nio-8080-exec-1" #32 daemon prio=5 os_prio=0 tid=0x... nid=0x... waiting for monitor entry
+    // The attributes are checked after the match: a lookahead would rescan the rest of
+    // the line for every quote in it
+    const threadMatch = line.match(/^\s*"(.*)"(?:\s+#(\d+))?(.*)$/);
+    if (threadMatch && /\b(?:prio|tid|nid)=/.test(threadMatch[3])) {
+      const priorityMatch = threadMatch[3].match(/(?:^|\s)prio=(\d+)/);
+      return {
+        type: 'thread',
+        content: line,
+        threadName: threadMatch[1],
+        threadId: threadMatch[2] !== undefined ? parseInt(threadMatch[2]) : undefined,
+        daemon: /(?:^|\s)daemon(?:\s|$)/.test(threadMatch[3]),
+        priority: priorityMatch ? parseInt(priorityMatch[1]) : undefined,
+        indent
+      };
+    }
+    
+    // Thread state line: java.lang.Thread.State: BLOCKED (on object monitor)
+    const threadStateMatch = line.match(/^\s*java\.lang\.Thread\.State:\s*([A-Z_]+)/);
+    if (threadStateMatch) {
+      return {
+        type: 'thread_state',
+        content: line,
+        threadState: threadStateMatch[1],
+        indent
+      };
+    }
+    
+    // Monitor line: - waiting to lock <0x000000076ab62208> (a java.lang.Object)
+    const lockMatch = line.match(/^\s*-\s+(?:(waiting to lock|waiting to re-lock in wait\(\)|locked|waiting on|parking to wait for|eliminated)\s+)?<([^>]*)>(?:\s+\(a\s+([^)]+)\))?\s*$/);
+    if (lockMatch) {
+      return {
+        type: 'lock',
+        content: line,
+        lockAction: this.LOCK_ACTIONS[lockMatch[1] || 'locked'],
+        lockAddress: /^0x[0-9a-fA-F]+$/.test(lockMatch[2]) ? lockMatch[2] : undefined,
+        lockClassName: lockMatch[3],
         indent
       };
     }
@@ -463,38 +926,533 @@ export class StackTraceParser {
   }
 
   /**
-   * Format parsed stack trace as HTML
+   * Split `[classLoader/][module[@version]/]declaringClass.method` into its parts
    */
-  public static formatAsHtml(parsedStackTrace: ParsedStackTrace): string {
-    if (!parsedStackTrace.hasStackTrace) {
-      return '<p class="no-stacktrace">No stack trace found</p>';
+  private static parseFrameDeclaration(declaration: string): Pick<StackTraceLine, 'classLoaderName' | 'moduleName' | 'moduleVersion' | 'className' | 'methodName'> {
+    // Hidden classes such as lambdas carry a `/0x...` suffix that is part of the class name
+    const parts = declaration.split('/').reduce<string[]>((merged, part) => {
+      if (merged.length > 0 && /^0x[0-9a-fA-F]+(?:\.|$)/.test(part)) {
+        merged[merged.length - 1] += '/' + part;
+      } else {
+        merged.push(part);
+      }
+      return merged;
+    }, []);
+    
+    const fullMethod = parts[parts.length - 1];
+    const classLoaderName = parts.length >= 3 ? parts[0] : '';
+    const moduleSpec = parts.length >= 2 ? parts[parts.length - 2] : '';
+    const versionIndex = moduleSpec.indexOf('@');
+    
+    // Extract class and method
+    const lastDotIndex = fullMethod.lastIndexOf('.');
+    
+    return {
+      classLoaderName: classLoaderName || undefined,
+      moduleName: (versionIndex >= 0 ? moduleSpec.substring(0, versionIndex) : moduleSpec) || undefined,
+      moduleVersion: versionIndex >= 0 ? moduleSpec.substring(versionIndex + 1) : undefined,
+      className: lastDotIndex > 0 ? fullMethod.substring(0, lastDotIndex) : '',
+      methodName: lastDotIndex > 0 ? fullMethod.substring(lastDotIndex + 1) : fullMethod
+    };
+  }
+
+  /**
+   * Parse the location inside the parentheses of a frame: `Native Method`,
+   * `Unknown Source`, `File.java` or `File.java:123`
+   */
+  private static parseFrameLocation(location: string): Pick<StackTraceLine, 'fileName' | 'lineNumber' | 'isNative' | 'isUnknownSource'> {
+    const trimmedLocation = location.trim();
+    
+    if (trimmedLocation === 'Native Method') {
+      return { fileName: trimmedLocation, isNative: true, isUnknownSource: false };
     }
     
-    const lines = parsedStackTrace.lines.map(line => {
-      const indentSpaces = '&nbsp;'.repeat(line.indent);
-      const escapedContent = this.escapeHtml(line.content.trim());
-      
-      let cssClass = `stacktrace-${line.type}`;
-      
+    // Extract file name and line number
+    const locationMatch = trimmedLocation.match(/^(.+):(\d+)$/);
+    const fileName = locationMatch ? locationMatch[1] : trimmedLocation;
+    
+    return {
+      fileName,
+      lineNumber: locationMatch ? parseInt(locationMatch[2]) : undefined,
+      isNative: false,
+      isUnknownSource: fileName === 'Unknown Source'
+    };
+  }
+
+  /**
+   * Format the class loader and module prefix of a frame the way the JVM prints it
+   */
+  public static formatFrameQualifier(line: StackTraceLine): string {
+    const moduleSpec = line.moduleName
+      ? line.moduleName + (line.moduleVersion ? '@' + line.moduleVersion : '')
+      : '';
+    
+    if (line.classLoaderName) {
+      return `${line.classLoaderName}/${moduleSpec}/`;
+    }
+    
+    return moduleSpec ? `${moduleSpec}/` : '';
+  }
+
+  /**
+   * Split an exception header such as `Exception in thread "main" java.lang.Error: msg`
+   * into thread name, exception class and message
+   */
+  private static parseExceptionHeader(header: string): { exceptionClass: string; message?: string; threadName?: string } {
+    let text = header.trim();
+    let threadName: string | undefined;
+
+    const threadMatch = text.match(/^Exception in thread "(.*?)" (.+)$/);
+    if (threadMatch) {
+      threadName = threadMatch[1];
+      text = threadMatch[2];
+    }
+
+    const separatorIndex = text.indexOf(':');
+    if (separatorIndex < 0) {
+      return { exceptionClass: text, threadName };
+    }
+
+    return {
+      exceptionClass: text.substring(0, separatorIndex).trim(),
+      message: text.substring(separatorIndex + 1).trim(),
+      threadName
+    };
+  }
+
+  /**
+   * Build the cause/suppressed hierarchy of the first throwable in a parsed stack trace,
+   * with the parser of its language. The frames of every throwable are ordered
+   * innermost call first, whatever order the language prints them in.
+   */
+  public static buildThrowableTree(parsedStackTrace: ParsedStackTrace): ThrowableNode | null {
+    const languageParser = (parsedStackTrace.language && this.findLanguageParser(parsedStackTrace.language)) || this.JAVA_PARSER;
+    return languageParser.buildThrowableTree(parsedStackTrace.lines);
+  }
+
+  /**
+   * Build the cause/suppressed hierarchy of the first throwable in Java stack trace lines.
+   *
+   * Java prints a cause at the same indentation as the throwable it belongs to, and
+   * suppressed exceptions one level deeper, so the indentation of the header lines is
+   * enough to rebuild the tree. Frames and `... N more` lines always belong to the most
+   * recently opened throwable.
+   */
+  private static buildJavaThrowableTree(lines: StackTraceLine[]): ThrowableNode | null {
+    let root: ThrowableNode | null = null;
+    // Open throwables, innermost last; a cause replaces the throwable it belongs to
+    const stack: ThrowableNode[] = [];
+
+    for (const line of lines) {
+      const current = stack[stack.length - 1];
+
       switch (line.type) {
         case 'exception':
-          return `<div class="${cssClass}">${indentSpaces}<span class="exception-text">${escapedContent}</span></div>`;
-        case 'at':
-          return `<div class="${cssClass}">${indentSpaces}<span class="at-keyword">at</span> <span class="method-name">${this.escapeHtml(line.className || '')}.${this.escapeHtml(line.methodName || '')}</span>(<span class="location">${this.escapeHtml(line.fileName || '')}${line.lineNumber ? ':' + line.lineNumber : ''}</span>)</div>`;
         case 'caused_by':
-          return `<div class="${cssClass}">${indentSpaces}<span class="caused-by-keyword">Caused by:</span> <span class="exception-text">${this.escapeHtml(line.content.replace(/^\s*Caused by:\s*/, ''))}</span></div>`;
-        case 'suppressed':
-          return `<div class="${cssClass}">${indentSpaces}<span class="suppressed-keyword">Suppressed:</span> <span class="exception-text">${this.escapeHtml(line.content.replace(/^\s*Suppressed:\s*/, ''))}</span></div>`;
+        case 'suppressed': {
+          if (root && line.type === 'exception') {
+            this.appendMessageLine(current, line);
+            break;
+          }
+
+          const node = this.createThrowableNode(line, root ? (line.type === 'suppressed' ? 'suppressed' : 'cause') : 'root');
+
+          if (!root) {
+            root = node;
+            stack.push(node);
+            break;
+          }
+
+          if (line.type === 'caused_by') {
+            while (stack.length > 1 && stack[stack.length - 1].header.indent > line.indent) {
+              stack.pop();
+            }
+            const owner = stack[stack.length - 1];
+            owner.cause = node;
+            if (owner.header.indent >= line.indent) {
+              stack.pop();
+            }
+          } else {
+            while (stack.length > 1 && stack[stack.length - 1].header.indent >= line.indent) {
+              stack.pop();
+            }
+            stack[stack.length - 1].suppressed.push(node);
+          }
+
+          stack.push(node);
+          break;
+        }
+        case 'at':
+          current?.frames.push(line);
+          break;
         case 'more':
-          return `<div class="${cssClass}">${indentSpaces}<span class="more-text">${escapedContent}</span></div>`;
+          if (current) {
+            current.moreCount = line.moreCount || 0;
+          }
+          break;
+        case 'chain':
+          // The frames of a coroutine section still belong to the same throwable
+          break;
         default:
-          return `<div class="${cssClass}">${indentSpaces}${escapedContent}</div>`;
+          this.appendMessageLine(current, line);
       }
-    });
+    }
+
+    return root;
+  }
+
+  /**
+   * Create a tree node for an exception, caused by or suppressed header line
+   */
+  private static createThrowableNode(header: StackTraceLine, kind: ThrowableNode['kind']): ThrowableNode {
+    const content = header.content.trim().replace(/^(Caused by|Suppressed):\s*/, '');
+    const { exceptionClass, message, threadName } = this.parseExceptionHeader(content);
+
+    return {
+      kind,
+      exceptionClass,
+      message,
+      threadName,
+      header,
+      frames: [],
+      moreCount: 0,
+      suppressed: []
+    };
+  }
+
+  /**
+   * Treat lines between a header and its first frame as a multi-line exception message
+   */
+  private static appendMessageLine(node: ThrowableNode | undefined, line: StackTraceLine): void {
+    if (!node || node.frames.length > 0 || node.moreCount > 0 || node.suppressed.length > 0 || node.cause) {
+      return;
+    }
+
+    const text = line.content.trim();
+    // Frames the frame pattern does not recognize are not part of the message
+    if (/^at\s/.test(text)) {
+      return;
+    }
+
+    node.message = node.message ? `${node.message}\n${text}` : text;
+  }
+
+  /**
+   * Format parsed stack trace as HTML
+   */
+  public static formatAsHtml(parsedStackTrace: ParsedStackTrace, options: HtmlFormatOptions = {}): string {
+    if (!parsedStackTrace.hasStackTrace) {
+      return '<p class="no-stacktrace">No stack trace found</p>';
+    }
+    
+    // Folding only helps when there is application code left to look at
+    const collapseFrameworkFrames = options.collapseFrameworkFrames !== false &&
+      parsedStackTrace.lines.some(line => line.frameCategory === 'application');
+    
+    const sourceRepositories = options.sourceRepositories || [];
+    const lines: string[] = [];
+    const sourceLines = parsedStackTrace.lines;
+    let pendingLines: StackTraceLine[] = [];
+    const cycles = new Map((parsedStackTrace.frameCycles || []).map(cycle => [cycle.start, cycle]));
+    
+    for (let i = 0; i < sourceLines.length; i++) {
+      const line = sourceLines[i];
+      
+      // Recursion shows its first repetition, the others in a collapsed group
+      const cycle = cycles.get(i);
+      if (cycle) {
+        pendingLines.push(...sourceLines.slice(cycle.start, cycle.start + cycle.length));
+        lines.push(...this.formatLinesAsHtml(pendingLines, collapseFrameworkFrames, sourceRepositories));
+        pendingLines = [];
+        
+        const summary = `${'&nbsp;'.repeat(line.indent)}<span class="more-text">${this.escapeHtml(FrameCycleDetector.describe(cycle))}</span>`;
+        const repeatedHtml = this.formatLinesAsHtml(sourceLines.slice(cycle.start + cycle.length, cycle.end), collapseFrameworkFrames, sourceRepositories);
+        lines.push(`<details class="repeated-frames"><summary class="stacktrace-more">${summary}</summary>${repeatedHtml.join('\n')}</details>`);
+        i = cycle.end - 1;
+        continue;
+      }
+      
+      // Reconstructed frames follow their `... N more` line, shown as a collapsed group
+      if (line.type === 'more' && sourceLines[i + 1]?.inherited) {
+        const inheritedLines: StackTraceLine[] = [];
+        while (sourceLines[i + 1]?.inherited) {
+          inheritedLines.push(sourceLines[++i]);
+        }
+        lines.push(...this.formatLinesAsHtml(pendingLines, collapseFrameworkFrames, sourceRepositories));
+        pendingLines = [];
+        
+        const summary = `${'&nbsp;'.repeat(line.indent)}<span class="more-text">${this.escapeHtml(line.content.trim())}</span>`;
+        const inheritedHtml = this.formatLinesAsHtml(inheritedLines, collapseFrameworkFrames, sourceRepositories);
+        lines.push(`<details class="inherited-frames"><summary class="stacktrace-more">${summary}</summary>${inheritedHtml.join('\n')}</details>`);
+        continue;
+      }
+      
+      pendingLines.push(line);
+    }
+    lines.push(...this.formatLinesAsHtml(pendingLines, collapseFrameworkFrames, sourceRepositories));
     
     return `<div class="stacktrace-container">${lines.join('\n')}</div>`;
   }
 
+  /**
+   * Format consecutive lines as HTML, folding runs of non-application frames
+   */
+  protected static formatLinesAsHtml(lines: StackTraceLine[], collapseFrameworkFrames: boolean, sourceRepositories: SourceRepository[] = []): string[] {
+    const html: string[] = [];
+    
+    for (let i = 0; i < lines.length; i++) {
+      const runEnd = collapseFrameworkFrames ? this.findFrameworkRunEnd(lines, i) : i;
+      const run = lines.slice(i, runEnd);
+      const frameCount = run.filter(line => line.type === 'at').length;
+      
+      if (frameCount < 2) {
+        html.push(this.formatLineAsHtml(lines[i], sourceRepositories));
+        continue;
+      }
+      
+      const frameworks = [...new Set(run.map(line => line.framework).filter((name): name is string => !!name))];
+      const label = `${frameCount} framework frames${frameworks.length > 0 ? ` (${frameworks.join(', ')})` : ''}`;
+      const summary = `${'&nbsp;'.repeat(run[0].indent)}<span class="framework-summary">${this.escapeHtml(label)}</span>`;
+      
+      html.push(`<details class="framework-frames"><summary>${summary}</summary>${run.map(line => this.formatLineAsHtml(line, sourceRepositories)).join('\n')}</details>`);
+      i = runEnd - 1;
+    }
+    
+    return html;
+  }
+
+  /**
+   * Find the end (exclusive) of the run of non-application frames starting at an index;
+   * source lines printed under a frame belong to it
+   */
+  private static findFrameworkRunEnd(lines: StackTraceLine[], start: number): number {
+    let end = start;
+    while (end < lines.length && lines[end].type === 'at' && lines[end].frameCategory !== 'application') {
+      end++;
+      while (end < lines.length && lines[end].type === 'source') {
+        end++;
+      }
+    }
+    return end;
+  }
+
+  /**
+   * Format a single parsed line as HTML; frame locations link to the source line when a
+   * repository holds the class
+   */
+  protected static formatLineAsHtml(line: StackTraceLine, sourceRepositories: SourceRepository[] = []): string {
+    const indentSpaces = '&nbsp;'.repeat(line.indent);
+    const escapedContent = this.escapeHtml(line.content.trim());
+    
+    let cssClass = `stacktrace-${line.type}${line.frameCategory ? ' frame-' + line.frameCategory : ''}${line.inherited ? ' stacktrace-inherited' : ''}${line.synthetic ? ' stacktrace-synthetic' : ''}`;
+    
+    switch (line.type) {
+      case 'exception':
+        return `<div class="${cssClass}">${indentSpaces}<span class="exception-text">${escapedContent}</span></div>`;
+      case 'at': {
+        if (line.language === 'python') {
+          const functionName = line.methodName !== undefined ? `, in <span class="method-name">${this.escapeHtml(line.methodName)}</span>` : '';
+          return `<div class="${cssClass}">${indentSpaces}<span class="at-keyword">File</span> "<span class="location">${this.escapeHtml(line.fileName || '')}</span>", line <span class="location">${line.lineNumber}</span>${functionName}</div>`;
+        }
+        if (line.language === 'dotnet') {
+          const location = line.fileName !== undefined ? ` in <span class="location">${this.escapeHtml(line.fileName)}:line ${line.lineNumber}</span>` : '';
+          return `<div class="${cssClass}">${indentSpaces}<span class="at-keyword">at</span> <span class="method-name">${this.escapeHtml(line.className ? `${line.className}.${line.methodName}` : line.methodName || '')}</span>(${this.escapeHtml(line.methodParameters || '')})${location}</div>`;
+        }
+        
+        const location = `<span class="location">${this.escapeHtml(line.fileName || '')}${line.lineNumber ? ':' + line.lineNumber : ''}</span>`;
+        const sourceLink = SourceLinkResolver.resolve(line, sourceRepositories);
+        const linkedLocation = sourceLink
+          ? `<a class="source-link" href="${this.escapeHtml(sourceLink)}" target="_blank" rel="noopener noreferrer">${location}</a>`
+          : location;
+        return `<div class="${cssClass}">${indentSpaces}<span class="at-keyword">at</span> ${this.formatFrameQualifierAsHtml(line)}${this.formatMethodNameAsHtml(line)}(${linkedLocation})</div>`;
+      }
+      case 'caused_by':
+        if (line.language === 'dotnet') {
+          return `<div class="${cssClass}">${indentSpaces}<span class="caused-by-keyword">---&gt;</span> <span class="exception-text">${this.escapeHtml(line.content.replace(/^\s*--->\s*/, ''))}</span></div>`;
+        }
+        return `<div class="${cssClass}">${indentSpaces}<span class="caused-by-keyword">Caused by:</span> <span class="exception-text">${this.escapeHtml(line.content.replace(/^\s*Caused by:\s*/, ''))}</span></div>`;
+      case 'suppressed':
+        return `<div class="${cssClass}">${indentSpaces}<span class="suppressed-keyword">Suppressed:</span> <span class="exception-text">${this.escapeHtml(line.content.replace(/^\s*Suppressed:\s*/, ''))}</span></div>`;
+      case 'more':
+        return `<div class="${cssClass}">${indentSpaces}<span class="more-text">${escapedContent}</span></div>`;
+      case 'traceback':
+      case 'chain':
+        return `<div class="${cssClass}">${indentSpaces}<span class="caused-by-keyword">${escapedContent}</span></div>`;
+      case 'thread': {
+        const details = line.content.trim().substring((line.threadName || '').length + 2);
+        return `<div class="${cssClass}">${indentSpaces}<span class="thread-name">"${this.escapeHtml(line.threadName || '')}"</span><span class="thread-details">${this.escapeHtml(details)}</span></div>`;
+      }
+      case 'thread_state': {
+        const stateDetail = line.content.trim().replace(/^java\.lang\.Thread\.State:\s*[A-Z_]+/, '');
+        return `<div class="${cssClass}">${indentSpaces}<span class="at-keyword">java.lang.Thread.State:</span> <span class="thread-state thread-state-${(line.threadState || '').toLowerCase()}">${this.escapeHtml(line.threadState || '')}</span>${this.escapeHtml(stateDetail)}</div>`;
+      }
+      case 'lock':
+        return `<div class="${cssClass} lock-${line.lockAction}">${indentSpaces}<span class="lock-text">${escapedContent}</span></div>`;
+      default:
+        return `<div class="${cssClass}">${indentSpaces}${escapedContent}</div>`;
+    }
+  }
+
+  /**
+   * Format a parsed stack trace as a Markdown issue body: a heading with the root
+   * exception, the trace in fenced code blocks with one collapsible section per cause
+   * (other languages than Java in a single block, as printed), and the application
+   * frames as a list
+   */
+  public static formatAsMarkdown(parsedStackTrace: ParsedStackTrace): string {
+    if (!parsedStackTrace.hasStackTrace) {
+      return '_No stack trace found_';
+    }
+    
+    const root = this.buildThrowableTree(parsedStackTrace);
+    const folded = FrameCycleDetector.foldLines(parsedStackTrace.lines, parsedStackTrace.frameCycles);
+    if (!root) {
+      // Nothing to structure, e.g. frames without a header
+      const text = this.foldTextLines(parsedStackTrace.lines.filter(line => !line.inherited), folded, line => line.content.trim()).join('\n');
+      return this.fenceMarkdown(text);
+    }
+    
+    const sections = [
+      `## ${this.escapeMarkdown(`${root.exceptionClass}${root.message !== undefined ? `: ${root.message.split('\n')[0]}` : ''}`)}`
+    ];
+    
+    if (parsedStackTrace.language && parsedStackTrace.language !== 'java') {
+      // Other languages are shown as printed, in their own order and indentation
+      sections.push(this.fenceMarkdown(this.foldTextLines(parsedStackTrace.lines, folded, line => line.content).join('\n')));
+    } else {
+      sections.push(this.fenceMarkdown(this.formatThrowableText(root, '', false, '', folded).join('\n')));
+      
+      // The cause chain, each cause in its own collapsible section
+      for (let cause = root.cause; cause; cause = cause.cause) {
+        const summary = this.escapeHtml(`Caused by: ${this.formatThrowableHeader(cause).split('\n')[0]}`);
+        const text = this.formatThrowableText(cause, '', false, 'Caused by: ', folded).join('\n');
+        sections.push(`<details>\n<summary>${summary}</summary>\n\n${this.fenceMarkdown(text)}\n\n</details>`);
+      }
+    }
+    
+    const applicationFrames = [...new Set(parsedStackTrace.lines
+      .filter(line => line.type === 'at' && !line.inherited && line.frameCategory === 'application')
+      .map(line => line.content.trim().replace(/^at\s+/, '')))];
+    if (applicationFrames.length > 0) {
+      sections.push(`### Application frames\n\n${applicationFrames.map(frame => `- ${this.codeSpanMarkdown(frame)}`).join('\n')}`);
+    }
+    
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Format the normalized lines of a throwable with its frames and suppressed
+   * throwables, in the indentation Java uses; the cause chain only if requested
+   */
+  private static formatThrowableText(node: ThrowableNode, prefix: string, includeCause: boolean, label = '', folded: FoldedLines = FrameCycleDetector.foldLines([])): string[] {
+    const lines: string[] = [];
+    // Throwables still to format, the next one last
+    const pending = [{ node, prefix, includeCause, label }];
+    
+    while (pending.length > 0) {
+      const current = pending.pop()!;
+      const [header, ...messageLines] = this.formatThrowableHeader(current.node).split('\n');
+      lines.push(`${current.prefix}${current.label}${header}`, ...messageLines);
+      
+      const frames = current.node.frames.filter(frame => !frame.inherited);
+      lines.push(...this.foldTextLines(frames, folded, frame => frame.content.trim()).map(text => `${current.prefix}\t${text}`));
+      if (current.node.moreCount > 0) {
+        lines.push(`${current.prefix}\t... ${current.node.moreCount} more`);
+      }
+      
+      // Suppressed throwables come before the cause
+      if (current.includeCause && current.node.cause) {
+        pending.push({ node: current.node.cause, prefix: current.prefix, includeCause: true, label: 'Caused by: ' });
+      }
+      for (let i = current.node.suppressed.length - 1; i >= 0; i--) {
+        pending.push({ node: current.node.suppressed[i], prefix: `${current.prefix}\t`, includeCause: true, label: 'Suppressed: ' });
+      }
+    }
+    
+    return lines;
+  }
+
+  /**
+   * Format lines as text without the repetitions of folded cycles, each cycle described
+   * after its first repetition in the style of `... N more`
+   */
+  private static foldTextLines(lines: StackTraceLine[], folded: FoldedLines, format: (line: StackTraceLine) => string): string[] {
+    const text: string[] = [];
+    
+    for (const line of lines) {
+      if (folded.hidden.has(line)) {
+        continue;
+      }
+      text.push(format(line));
+      
+      const cycle = folded.summaries.get(line);
+      if (cycle) {
+        text.push(format({ ...line, content: `${line.content.match(/^\s*/)![0]}... ${FrameCycleDetector.describe(cycle)}` }));
+      }
+    }
+    
+    return text;
+  }
+
+  /**
+   * Format the header of a throwable the way `Throwable.toString()` does
+   */
+  private static formatThrowableHeader(node: ThrowableNode): string {
+    const thread = node.threadName !== undefined ? `Exception in thread "${node.threadName}" ` : '';
+    return `${thread}${node.exceptionClass}${node.message !== undefined ? `: ${node.message}` : ''}`;
+  }
+
+  /**
+   * Wrap text in a fenced code block whose fence is longer than any backtick run inside
+   */
+  private static fenceMarkdown(text: string): string {
+    const longestRun = Math.max(2, ...(text.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    return `${fence}\n${text}\n${fence}`;
+  }
+
+  /**
+   * Wrap text in a code span whose backtick string is longer than any run of backticks in
+   * the text; text starting or ending with a backtick is padded with spaces, which
+   * Markdown strips again
+   */
+  private static codeSpanMarkdown(text: string): string {
+    const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+    const delimiter = '`'.repeat(longestRun + 1);
+    const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+    return `${delimiter}${padding}${text}${padding}${delimiter}`;
+  }
+
+  /**
+   * Escape characters that Markdown would interpret in inline text
+   */
+  private static escapeMarkdown(text: string): string {
+    return text
+      .replace(/[\\`*_{}\[\]()#+\-!|~]/g, '\\$&')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  /**
+   * Format the method of a JVM frame as HTML; a demangled name shows the name as printed
+   * on hover
+   */
+  protected static formatMethodNameAsHtml(line: StackTraceLine): string {
+    const rawName = `${line.className || ''}.${line.methodName || ''}`;
+    if (line.displayName) {
+      return `<span class="method-name" title="${this.escapeHtml(rawName)}">${this.escapeHtml(line.displayName)}</span>`;
+    }
+    return `<span class="method-name">${this.escapeHtml(line.className || '')}.${this.escapeHtml(line.methodName || '')}</span>`;
+  }
+
+  /**
+   * Format the class loader and module prefix of a frame as HTML
+   */
+  protected static formatFrameQualifierAsHtml(line: StackTraceLine): string {
+    const qualifier = this.formatFrameQualifier(line);
+    return qualifier ? `<span class="module-name">${this.escapeHtml(qualifier)}</span>` : '';
+  }
+
   /**
    * Escape HTML special characters
    */
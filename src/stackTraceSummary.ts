@@ -0,0 +1,79 @@
+import { StackTraceParser, ParsedStackTrace, StackTraceLine, ThrowableNode } from './stackTraceParser';
+
+/**
+ * Interface representing the one-line summary of a stack trace
+ */
+export interface StackTraceSummary {
+  rootCause: {
+    exceptionClass: string;
+    message?: string;
+  };
+  culpritFrame: StackTraceLine | null;
+  text: string;
+}
+
+/**
+ * Find the root cause of a stack trace and the application frame that led to it
+ */
+export class StackTraceSummarizer {
+  /**
+   * Summarize a parsed stack trace, or return null if it has no throwable
+   */
+  public static summarize(parsedStackTrace: ParsedStackTrace): StackTraceSummary | null {
+    const root = StackTraceParser.buildThrowableTree(parsedStackTrace);
+    if (!root) {
+      return null;
+    }
+
+    // Walk the cause chain down to the innermost cause
+    const chain: ThrowableNode[] = [root];
+    while (chain[chain.length - 1].cause) {
+      chain.push(chain[chain.length - 1].cause!);
+    }
+    const rootCause = chain[chain.length - 1];
+
+    // The root cause's own frames usually end in `... N more`, so when none of them is
+    // application code, fall back to the enclosing throwables, innermost first
+    let culpritFrame: StackTraceLine | null = null;
+    for (let i = chain.length - 1; i >= 0 && !culpritFrame; i--) {
+      culpritFrame = chain[i].frames.find(frame => frame.frameCategory === 'application') || null;
+    }
+
+    return {
+      rootCause: {
+        exceptionClass: rootCause.exceptionClass,
+        message: rootCause.message
+      },
+      culpritFrame,
+      text: this.formatSummaryText(rootCause, culpritFrame)
+    };
+  }
+
+  /**
+   * Format "ConnectException: Connection refused at ConnectionPool.getConnection(ConnectionPool.java:89)"
+   */
+  private static formatSummaryText(rootCause: ThrowableNode, culpritFrame: StackTraceLine | null): string {
+    let text = this.simpleName(rootCause.exceptionClass);
+
+    if (rootCause.message) {
+      // Only the first line of multi-line messages fits a one-line summary
+      text += `: ${rootCause.message.split('\n')[0]}`;
+    }
+
+    if (culpritFrame) {
+      const location = culpritFrame.lineNumber !== undefined
+        ? `${culpritFrame.fileName}:${culpritFrame.lineNumber}`
+        : culpritFrame.fileName || '';
+      text += ` at ${this.simpleName(culpritFrame.className || '')}.${culpritFrame.methodName}(${location})`;
+    }
+
+    return text;
+  }
+
+  /**
+   * Strip the package from a fully qualified class name
+   */
+  private static simpleName(className: string): string {
+    return className.substring(className.lastIndexOf('.') + 1);
+  }
+}
@@ -0,0 +1,279 @@
+import { StackTraceParser, ParseOptions, StackTraceLine, HtmlFormatOptions } from './stackTraceParser';
+
+/**
+ * Interface representing a monitor or ownable synchronizer in a thread dump
+ */
+export interface MonitorReference {
+  address: string;
+  className?: string;
+}
+
+/**
+ * Interface representing one thread of a thread dump
+ */
+export interface ThreadInfo {
+  name: string;
+  id?: number;
+  daemon: boolean;
+  priority?: number;
+  state?: string;
+  lines: StackTraceLine[];
+  frames: StackTraceLine[];
+  heldLocks: MonitorReference[];
+  waitingFor?: MonitorReference;
+}
+
+/**
+ * Interface representing threads that share the same state and stack
+ */
+export interface ThreadGroup {
+  state?: string;
+  threadNames: string[];
+  // Lines of the first thread of the group
+  lines: StackTraceLine[];
+}
+
+/**
+ * Interface representing one edge of a deadlock cycle
+ */
+export interface DeadlockEdge {
+  threadName: string;
+  waitingFor: MonitorReference;
+  heldBy: string;
+}
+
+/**
+ * Interface representing a lock cycle between threads
+ */
+export interface Deadlock {
+  threadNames: string[];
+  cycle: DeadlockEdge[];
+}
+
+/**
+ * Interface representing a parsed thread dump
+ */
+export interface ThreadDump {
+  threads: ThreadInfo[];
+  groups: ThreadGroup[];
+  deadlocks: Deadlock[];
+  stateCounts: Record<string, number>;
+}
+
+/**
+ * Parse `jstack` / `kill -3` thread dumps and find deadlocks
+ */
+export class ThreadDumpParser {
+  /**
+   * Check whether a text looks like a thread dump rather than an exception trace
+   */
+  public static isThreadDump(text: string): boolean {
+    return /^\s*java\.lang\.Thread\.State:/m.test(text) || /^Full thread dump/m.test(text);
+  }
+
+  /**
+   * Parse every thread of a thread dump. Lines before the first thread header, such as
+   * the "Full thread dump" banner, are ignored.
+   */
+  public static parseThreadDump(text: string, options: ParseOptions = {}): ThreadDump {
+    const parsed = StackTraceParser.parseStackTrace(text, options);
+    const threads: ThreadInfo[] = [];
+    let current: ThreadInfo | null = null;
+
+    for (const line of parsed.lines) {
+      if (line.type === 'thread') {
+        current = {
+          name: line.threadName || '',
+          id: line.threadId,
+          daemon: line.daemon === true,
+          priority: line.priority,
+          lines: [line],
+          frames: [],
+          heldLocks: []
+        };
+        threads.push(current);
+        continue;
+      }
+
+      if (!current) {
+        continue;
+      }
+
+      // jstack's own deadlock report and the JNI summary follow the last thread
+      if (line.type === 'unknown' && !/^\s*Locked ownable synchronizers:/.test(line.content)) {
+        current = null;
+        continue;
+      }
+
+      current.lines.push(line);
+
+      switch (line.type) {
+        case 'thread_state':
+          current.state = line.threadState;
+          break;
+        case 'at':
+          current.frames.push(line);
+          break;
+        case 'lock':
+          this.addLock(current, line);
+          break;
+      }
+    }
+
+    const stateCounts: Record<string, number> = {};
+    for (const thread of threads) {
+      const state = thread.state || 'UNKNOWN';
+      stateCounts[state] = (stateCounts[state] || 0) + 1;
+    }
+
+    return {
+      threads,
+      groups: this.groupThreads(threads),
+      deadlocks: this.findDeadlocks(threads),
+      stateCounts
+    };
+  }
+
+  /**
+   * Record a monitor line on its thread. Only the innermost wait is a blocking one; a
+   * monitor released by `Object.wait()` is still listed as locked further down the stack.
+   */
+  private static addLock(thread: ThreadInfo, line: StackTraceLine): void {
+    if (!line.lockAddress) {
+      return;
+    }
+
+    const monitor: MonitorReference = { address: line.lockAddress, className: line.lockClassName };
+
+    switch (line.lockAction) {
+      case 'locked':
+        if (!thread.lines.some(other => other.lockAction === 'waiting_on' && other.lockAddress === line.lockAddress)) {
+          thread.heldLocks.push(monitor);
+        }
+        break;
+      case 'waiting_to_lock':
+      case 'parking':
+        thread.waitingFor = thread.waitingFor || monitor;
+        break;
+    }
+  }
+
+  /**
+   * Group threads with the same state and frames, largest groups first
+   */
+  private static groupThreads(threads: ThreadInfo[]): ThreadGroup[] {
+    const groups = new Map<string, ThreadGroup>();
+
+    for (const thread of threads) {
+      const key = [
+        thread.state || '',
+        ...thread.frames.map(frame => `${frame.className}.${frame.methodName}:${frame.lineNumber ?? ''}`)
+      ].join('\n');
+
+      const group = groups.get(key);
+      if (group) {
+        group.threadNames.push(thread.name);
+      } else {
+        groups.set(key, { state: thread.state, threadNames: [thread.name], lines: thread.lines });
+      }
+    }
+
+    return [...groups.values()].sort((a, b) => b.threadNames.length - a.threadNames.length);
+  }
+
+  /**
+   * Find cycles of threads each waiting for a lock held by the next one. Every thread
+   * waits for at most one lock, so following the wait edges from each thread either ends
+   * or runs into a cycle.
+   */
+  private static findDeadlocks(threads: ThreadInfo[]): Deadlock[] {
+    const owners = new Map<string, ThreadInfo>();
+    for (const thread of threads) {
+      thread.heldLocks.forEach(lock => owners.set(lock.address, thread));
+    }
+
+    const next = (thread: ThreadInfo): ThreadInfo | undefined => {
+      const owner = thread.waitingFor ? owners.get(thread.waitingFor.address) : undefined;
+      return owner !== thread ? owner : undefined;
+    };
+
+    const deadlocks: Deadlock[] = [];
+    const visited = new Set<ThreadInfo>();
+
+    for (const start of threads) {
+      const path: ThreadInfo[] = [];
+      let thread: ThreadInfo | undefined = start;
+
+      while (thread && !visited.has(thread)) {
+        visited.add(thread);
+        path.push(thread);
+        thread = next(thread);
+      }
+
+      // Only a thread on the current path closes a new cycle
+      const cycleStart = thread ? path.indexOf(thread) : -1;
+      if (cycleStart < 0) {
+        continue;
+      }
+
+      const members = path.slice(cycleStart);
+      deadlocks.push({
+        threadNames: members.map(member => member.name),
+        cycle: members.map((member, index) => ({
+          threadName: member.name,
+          waitingFor: member.waitingFor!,
+          heldBy: members[(index + 1) % members.length].name
+        }))
+      });
+    }
+
+    return deadlocks;
+  }
+
+  /**
+   * Format a thread dump as HTML: state overview, deadlocks, then grouped stacks
+   */
+  public static formatAsHtml(threadDump: ThreadDump, options: HtmlFormatOptions = {}): string {
+    if (threadDump.threads.length === 0) {
+      return '<p class="no-stacktrace">No threads found</p>';
+    }
+
+    const html: string[] = [];
+
+    const states = Object.entries(threadDump.stateCounts)
+      .map(([state, count]) => `<span class="thread-state thread-state-${state.toLowerCase()}">${this.escapeHtml(state)}</span> ${count}`)
+      .join(' · ');
+    html.push(`<div class="thread-dump-overview">${threadDump.threads.length} threads · ${states}</div>`);
+
+    for (const deadlock of threadDump.deadlocks) {
+      const edges = deadlock.cycle.map(edge =>
+        `<div class="deadlock-edge">"${this.escapeHtml(edge.threadName)}" waits for &lt;${this.escapeHtml(edge.waitingFor.address)}&gt;` +
+        `${edge.waitingFor.className ? ` (a ${this.escapeHtml(edge.waitingFor.className)})` : ''} held by "${this.escapeHtml(edge.heldBy)}"</div>`
+      );
+      html.push(`<div class="deadlock"><div class="deadlock-title">Deadlock between ${deadlock.threadNames.length} threads</div>${edges.join('\n')}</div>`);
+    }
+
+    for (const group of threadDump.groups) {
+      const names = group.threadNames.map(name => `"${name}"`).join(', ');
+      const summary = `<span class="thread-group-count">${group.threadNames.length}×</span> ` +
+        `<span class="thread-state thread-state-${(group.state || 'unknown').toLowerCase()}">${this.escapeHtml(group.state || 'UNKNOWN')}</span> ` +
+        `<span class="thread-group-names">${this.escapeHtml(names)}</span>`;
+      const stack = StackTraceParser.formatAsHtml({ lines: group.lines, hasStackTrace: true, extractedText: '' }, options);
+      html.push(`<details class="thread-group"><summary>${summary}</summary>${stack}</details>`);
+    }
+
+    return `<div class="thread-dump">${html.join('\n')}</div>`;
+  }
+
+  /**
+   * Escape HTML special characters
+   */
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { StackTraceParser } from '../src/stackTraceParser';
+import { AnsiRenderer } from '../src/ansiRenderer';
+
+const stackTrace = `java.lang.RuntimeException: Service unavailable
+\tat com.example.service.UserService.getUser(UserService.java:45)
+\tat java.base/java.lang.Thread.run(Thread.java:833)
+Caused by: java.net.ConnectException: Connection refused
+\tat java.base/java.net.Socket.connect(Socket.java:666)
+\t... 2 more`;
+
+describe('AnsiRenderer', () => {
+  const parsed = StackTraceParser.parseStackTrace(stackTrace, { applicationPackages: ['com.example'] });
+
+  it('should color lines like the page does', () => {
+    const lines = AnsiRenderer.format(parsed).split('\n');
+
+    expect(lines[0]).toBe('\x1b[1;38;2;255;107;107mjava.lang.RuntimeException: Service unavailable\x1b[0m');
+    expect(lines[1]).toContain('\x1b[38;2;121;192;255mat\x1b[0m');
+    expect(lines[1]).toContain('\x1b[1;38;2;255;213;128mcom.example.service.UserService.getUser\x1b[0m');
+    expect(lines[2]).toContain('\x1b[38;2;110;118;129mjava.base/\x1b[0m\x1b[38;2;255;166;87mjava.lang.Thread.run\x1b[0m');
+    expect(lines[3]).toContain('\x1b[1;38;2;255;166;87mCaused by:\x1b[0m');
+    expect(lines[5]).toBe('    \x1b[3;38;2;121;192;255m... 2 more\x1b[0m');
+  });
+
+  it('should render plain text without colors', () => {
+    const text = AnsiRenderer.format(parsed, { color: false });
+
+    expect(text).not.toContain('\x1b');
+    expect(text).toBe(stackTrace.replace(/\t/g, '    '));
+  });
+
+  it('should truncate lines to the width', () => {
+    const lines = AnsiRenderer.format(parsed, { color: false, width: 40 }).split('\n');
+
+    expect(lines[1]).toBe('    at com.example.service.UserService.…');
+    expect(lines[5]).toBe('    ... 2 more');
+    expect(Math.max(...lines.map(line => line.length))).toBe(40);
+  });
+
+  it('should dim reconstructed frames', () => {
+    const reconstructed = StackTraceParser.parseStackTrace(stackTrace, { reconstructElidedFrames: true });
+    const inherited = AnsiRenderer.format(reconstructed).split('\n')[6];
+
+    expect(inherited).toContain('\x1b[2;38;2;121;192;255mat\x1b[0m');
+  });
+
+  it('should escape control characters of the input', () => {
+    const hostile = StackTraceParser.parseStackTrace('java.lang.IllegalStateException: \x1b[2J\x1b]0;pwned\x07done\b\b\b\bok\n\tat com.example.Job.run(Job.java:7)');
+    const lines = AnsiRenderer.format(hostile).split('\n');
+
+    expect(lines[0]).toBe('\x1b[1;38;2;255;107;107mjava.lang.IllegalStateException: \\x1b[2J\\x1b]0;pwned\\x07done\\x08\\x08\\x08\\x08ok\x1b[0m');
+    expect(AnsiRenderer.format(hostile, { color: false })).not.toMatch(/[\x00-\x08\x0b-\x1f\x7f]/);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { BatchParser } from '../src/batchParser';
+
+describe('BatchParser', () => {
+  it('should parse every stack trace of a plain log with its line range', () => {
+    const log = `2024-08-21 10:00:00 INFO Started
+2024-08-21 10:00:01 ERROR Request failed
+java.lang.IllegalStateException: Invalid state
+	at com.example.OrderService.place(OrderService.java:42)
+	at com.example.Main.main(Main.java:10)
+2024-08-21 10:00:02 INFO Retrying
+java.io.IOException: Connection reset
+	at com.example.Client.read(Client.java:7)`;
+
+    const results = [...BatchParser.parseAll(log)];
+
+    expect(results.map(result => [result.index, result.startLine, result.endLine, result.throwableTree!.exceptionClass])).toEqual([
+      [0, 3, 5, 'java.lang.IllegalStateException'],
+      [1, 7, 8, 'java.io.IOException']
+    ]);
+    expect(results[0].fingerprint!.hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(results[0].summary!.culpritFrame!.methodName).toBe('place');
+  });
+
+  it('should find stack traces serialized in NDJSON log events', () => {
+    const events = [
+      { '@timestamp': '2024-08-21T10:00:00Z', level: 'INFO', message: 'Started' },
+      { '@timestamp': '2024-08-21T10:00:01Z', level: 'ERROR', message: 'Failed', stack_trace: 'java.lang.IllegalStateException: Invalid state\n\tat com.example.OrderService.place(OrderService.java:42)\n' },
+      { '@timestamp': '2024-08-21T10:00:02Z', level: 'ERROR', message: 'Failed', exception: { stack_trace: 'java.io.FileNotFoundException: /var/data/orders.csv\n\tat com.example.Importer.open(Importer.java:12)' } }
+    ];
+    // Some encoders escape slashes
+    const ndjson = events.map(event => JSON.stringify(event).replace(/\//g, '\\/')).join('\n');
+
+    const results = [...BatchParser.parseAll(ndjson)];
+
+    expect(results.map(result => [result.startLine, result.endLine])).toEqual([[2, 2], [3, 3]]);
+    expect(results[1].throwableTree!.message).toBe('/var/data/orders.csv');
+    expect(results[1].parsedStackTrace.lines[1].inputLine).toBe(3);
+  });
+
+  it('should stream one NDJSON line per stack trace', async () => {
+    const log = `java.lang.IllegalStateException: first
+	at com.example.A.run(A.java:1)
+
+java.lang.IllegalStateException: second
+	at com.example.B.run(B.java:2)`;
+
+    const body = await new Response(BatchParser.toNdjsonStream(BatchParser.parseAll(log))).text();
+    const lines = body.split('\n');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe('');
+    expect(lines.slice(0, 2).map(line => JSON.parse(line).throwableTree.message)).toEqual(['first', 'second']);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { DotNetStackTraceParser } from '../src/dotnetStackTrace';
+import { StackTraceParser } from '../src/stackTraceParser';
+
+const INNER_EXCEPTION_TRACE = `System.InvalidOperationException: Failed to save order
+ ---> System.IO.IOException: Disk full
+   at Acme.Storage.FileStore.Write(String path, Byte[] data) in C:\\src\\Acme\\Storage\\FileStore.cs:line 42
+   at Acme.Storage.FileStore..ctor(String root)
+   --- End of inner exception stack trace ---
+   at Acme.Orders.OrderService.SaveAsync(Order order) in C:\\src\\Acme\\Orders\\OrderService.cs:line 88
+--- End of stack trace from previous location ---
+   at System.Runtime.ExceptionServices.ExceptionDispatchInfo.Throw()
+   at Acme.Api.OrdersController.Post(OrderDto dto)`;
+
+describe('DotNetStackTraceParser', () => {
+  it('should parse headers, inner exceptions, frames and markers', () => {
+    const parsed = StackTraceParser.parseStackTrace(INNER_EXCEPTION_TRACE, { applicationPackages: ['Acme'] });
+
+    expect(parsed.language).toBe('dotnet');
+    expect(parsed.lines.map(line => line.type)).toEqual(['exception', 'caused_by', 'at', 'at', 'chain', 'at', 'chain', 'at', 'at']);
+    expect(parsed.lines[1]).toMatchObject({ exceptionClass: 'System.IO.IOException', message: 'Disk full' });
+    expect(parsed.lines[2]).toMatchObject({
+      className: 'Acme.Storage.FileStore',
+      methodName: 'Write',
+      methodParameters: 'String path, Byte[] data',
+      fileName: 'C:\\src\\Acme\\Storage\\FileStore.cs',
+      lineNumber: 42,
+      frameCategory: 'application'
+    });
+    expect(parsed.lines[3]).toMatchObject({ className: 'Acme.Storage.FileStore', methodName: '.ctor', fileName: undefined });
+    expect(parsed.lines[7]).toMatchObject({ frameCategory: 'jdk' });
+  });
+
+  it('should hand frames to the enclosing exception at the end of each inner trace', () => {
+    const root = StackTraceParser.buildThrowableTree(StackTraceParser.parseStackTrace(INNER_EXCEPTION_TRACE))!;
+
+    expect(root.exceptionClass).toBe('System.InvalidOperationException');
+    expect(root.frames.map(frame => frame.methodName)).toEqual(['SaveAsync', 'Throw', 'Post']);
+    expect(root.cause!.exceptionClass).toBe('System.IO.IOException');
+    expect(root.cause!.frames.map(frame => frame.methodName)).toEqual(['Write', '.ctor']);
+  });
+
+  it('should split inner exceptions printed on the header line', () => {
+    const parsed = StackTraceParser.parseStackTrace(`Unhandled Exception: System.Exception: Import failed ---> System.Net.Sockets.SocketException (111): Connection refused
+   at Acme.Import.Client.Connect()
+   --- End of inner exception stack trace ---
+   at Acme.Import.Job.Run()`);
+    const root = StackTraceParser.buildThrowableTree(parsed)!;
+
+    expect(parsed.language).toBe('dotnet');
+    expect([root.exceptionClass, root.message, root.frames.map(frame => frame.methodName)]).toEqual(['System.Exception', 'Import failed', ['Run']]);
+    expect([root.cause!.exceptionClass, root.cause!.message, root.cause!.frames.map(frame => frame.methodName)]).toEqual([
+      'System.Net.Sockets.SocketException',
+      'Connection refused',
+      ['Connect']
+    ]);
+  });
+
+  it('should leave Java stack traces to the Java parser', () => {
+    const java = 'java.lang.IllegalStateException: boom\n\tat com.example.Foo.bar(Foo.java:10)\n\tat java.lang.Thread.run(java.base@17.0.8/Native Method)';
+
+    expect(DotNetStackTraceParser.containsStackTrace(java)).toBe(false);
+    expect(StackTraceParser.detectLanguage(java)).toBe('java');
+
+    const extracted = StackTraceParser.extractAllStackTraces(`INFO start\n${INNER_EXCEPTION_TRACE}\nINFO next\n${java}\nINFO done`);
+    expect(extracted.map(trace => trace.text)).toEqual([INNER_EXCEPTION_TRACE, java]);
+  });
+
+  it('should render frames and inner exceptions the way .NET prints them', () => {
+    const html = StackTraceParser.formatAsHtml(StackTraceParser.parseStackTrace(INNER_EXCEPTION_TRACE));
+
+    expect(html).toContain('<span class="caused-by-keyword">---&gt;</span> <span class="exception-text">System.IO.IOException: Disk full</span>');
+    expect(html).toContain('<span class="at-keyword">at</span> <span class="method-name">Acme.Storage.FileStore.Write</span>(String path, Byte[] data) in <span class="location">C:\\src\\Acme\\Storage\\FileStore.cs:line 42</span>');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { EscapedStringTokenizer } from '../src/escapedStrings';
+import { StackTraceParser } from '../src/stackTraceParser';
+import { PATHOLOGICAL_INPUTS } from './pathologicalInputs';
+
+describe('EscapedStringTokenizer', () => {
+  it('should find quoted, unterminated and bare runs with escaped line breaks', () => {
+    const input = [
+      '{"message": "no escapes", "error": "java.lang.Error: \\"quoted\\"\\n\\tat a.B.c(B.java:1)"}',
+      '"exception": "java.lang.Error\\n\\tat a.B.c(B.java:1)',
+      'ERROR java.lang.Error\\n\\tat a.B.c(B.java:1)'
+    ].join('\n');
+    const runs = EscapedStringTokenizer.tokenize(input);
+
+    expect(runs.map(run => [run.kind, input.substring(run.start, run.end)])).toEqual([
+      ['quoted', 'java.lang.Error: \\"quoted\\"\\n\\tat a.B.c(B.java:1)'],
+      ['unterminated', 'java.lang.Error\\n\\tat a.B.c(B.java:1)'],
+      ['bare', 'ERROR java.lang.Error\\n\\tat a.B.c(B.java:1)']
+    ]);
+  });
+
+  it('should recognize unicode and hex escaped line breaks', () => {
+    expect(EscapedStringTokenizer.tokenize('"a\\u000Ab"')).toHaveLength(1);
+    expect(EscapedStringTokenizer.tokenize('"a\\x0ab"')).toHaveLength(1);
+    expect(EscapedStringTokenizer.tokenize('"a\\u0041b" "C:\\\\temp"')).toEqual([]);
+  });
+
+  it('should start escaped text outside quotes at the exception header', () => {
+    const input = '2024-08-21 ERROR Request failed: java.lang.IllegalStateException: Invalid\\n\\tat com.example.A.run(A.java:3)\\n\\tat com.example.B.run(B.java:4)  ';
+    const extracted = StackTraceParser.findStackTrace(input)!;
+
+    expect(extracted.text.split('\n')[0]).toBe('java.lang.IllegalStateException: Invalid');
+    expect(input.substring(extracted.start, extracted.end)).toBe(input.substring(input.indexOf('java.lang'), input.length - 2));
+  });
+
+  describe('pathological input', () => {
+    // The regex-based extractor took minutes on a few kilobytes of some of these
+    for (const [name, generate] of Object.entries(PATHOLOGICAL_INPUTS)) {
+      it(`should extract and parse ${name} in linear time`, () => {
+        const input = generate(200_000);
+        const startTime = Date.now();
+
+        StackTraceParser.parseStackTrace(StackTraceParser.extractStackTrace(input));
+        StackTraceParser.extractAllStackTraces(input);
+
+        expect(Date.now() - startTime).toBeLessThan(2000);
+      });
+    }
+  });
+});
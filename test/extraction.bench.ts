@@ -0,0 +1,32 @@
+import { bench, describe } from 'vitest';
+import { StackTraceParser } from '../src/stackTraceParser';
+import { ThreadDumpParser } from '../src/threadDump';
+import { PATHOLOGICAL_INPUTS } from './pathologicalInputs';
+
+// Run with `npm run bench`
+const SIZE = 200_000;
+
+describe('extractAllStackTraces', () => {
+  for (const [name, generate] of Object.entries(PATHOLOGICAL_INPUTS)) {
+    const input = generate(SIZE);
+    bench(name, () => {
+      StackTraceParser.extractAllStackTraces(input);
+    });
+  }
+});
+
+describe('parseStackTrace', () => {
+  for (const [name, generate] of Object.entries(PATHOLOGICAL_INPUTS)) {
+    const input = generate(SIZE);
+    bench(name, () => {
+      StackTraceParser.parseStackTrace(input);
+    });
+  }
+});
+
+describe('parseThreadDump', () => {
+  const input = PATHOLOGICAL_INPUTS['quotes without thread attributes'](SIZE);
+  bench('quotes without thread attributes', () => {
+    ThreadDumpParser.parseThreadDump(input);
+  });
+});
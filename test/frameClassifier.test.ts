@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { StackTraceParser } from '../src/stackTraceParser';
+import { FrameClassifier } from '../src/frameClassifier';
+
+const springTrace = `java.lang.IllegalStateException: Order not found
+	at com.example.order.OrderService.find(OrderService.java:42)
+	at com.example.order.OrderService$$EnhancerBySpringCGLIB$$1a2b3c4d.find(<generated>)
+	at java.base/jdk.internal.reflect.NativeMethodAccessorImpl.invoke0(Native Method)
+	at org.springframework.aop.framework.ReflectiveMethodInvocation.proceed(ReflectiveMethodInvocation.java:186)
+	at org.springframework.web.servlet.FrameworkServlet.service(FrameworkServlet.java:883)
+	at org.apache.catalina.core.ApplicationFilterChain.doFilter(ApplicationFilterChain.java:166)
+	at com.example.web.AuthFilter.doFilter(AuthFilter.java:30)
+	at io.netty.channel.nio.NioEventLoop.run(NioEventLoop.java:569)
+	at java.base/java.lang.Thread.run(Thread.java:833)`;
+
+describe('FrameClassifier', () => {
+  describe('classifyFrame', () => {
+    const frames = StackTraceParser.parseStackTrace(springTrace, { applicationPackages: ['com.example'] })
+      .lines.filter(line => line.type === 'at');
+
+    it('should tag frames in configured packages as application', () => {
+      expect(frames[0].frameCategory).toBe('application');
+      expect(frames[6].frameCategory).toBe('application');
+    });
+
+    it('should tag proxies and reflection as framework before package prefixes', () => {
+      expect(frames[1]).toMatchObject({ frameCategory: 'framework', framework: 'CGLIB' });
+      expect(frames[2]).toMatchObject({ frameCategory: 'framework', framework: 'Reflection' });
+    });
+
+    it('should recognize well-known frameworks', () => {
+      expect(frames[3].framework).toBe('Spring');
+      expect(frames[5].framework).toBe('Tomcat');
+      expect(frames[7].framework).toBe('Netty');
+    });
+
+    it('should tag JDK frames', () => {
+      expect(frames[8].frameCategory).toBe('jdk');
+    });
+
+    it('should treat unknown code as third-party only when packages are configured', () => {
+      const line = StackTraceParser.parseStackTrace('java.lang.RuntimeException\n\tat org.acme.Lib.call(Lib.java:1)').lines[1];
+
+      expect(FrameClassifier.classifyFrame(line).frameCategory).toBe('application');
+      expect(FrameClassifier.classifyFrame(line, { applicationPackages: ['com.example'] }).frameCategory).toBe('framework');
+    });
+
+    it('should only match packages on package boundaries', () => {
+      const line = StackTraceParser.parseStackTrace('java.lang.RuntimeException\n\tat com.examples.Foo.bar(Foo.java:1)').lines[1];
+
+      expect(FrameClassifier.classifyFrame(line, { applicationPackages: ['com.example'] }).frameCategory).toBe('framework');
+      expect(FrameClassifier.classifyFrame(line, { applicationPackages: ['com.examples.*'] }).frameCategory).toBe('application');
+    });
+  });
+
+  describe('parsePackageList', () => {
+    it('should split comma and whitespace separated prefixes', () => {
+      expect(FrameClassifier.parsePackageList('com.example, org.acme.*\nio.foo.')).toEqual(['com.example', 'org.acme', 'io.foo']);
+      expect(FrameClassifier.parsePackageList(undefined)).toEqual([]);
+      expect(FrameClassifier.parsePackageList('')).toEqual([]);
+    });
+  });
+
+  describe('formatAsHtml folding', () => {
+    it('should fold runs of non-application frames', () => {
+      const parsed = StackTraceParser.parseStackTrace(springTrace, { applicationPackages: ['com.example'] });
+      const html = StackTraceParser.formatAsHtml(parsed);
+
+      expect(html).toContain('5 framework frames (CGLIB, Reflection, Spring, Tomcat)');
+      expect(html).toContain('2 framework frames (Netty)');
+      expect(html.match(/<details class="framework-frames">/g)).toHaveLength(2);
+      expect(html).toContain('class="stacktrace-at frame-application"');
+    });
+
+    it('should not fold when disabled or when there is no application frame', () => {
+      const parsed = StackTraceParser.parseStackTrace(springTrace, { applicationPackages: ['com.example'] });
+      expect(StackTraceParser.formatAsHtml(parsed, { collapseFrameworkFrames: false })).not.toContain('framework-frames');
+
+      const noApplication = StackTraceParser.parseStackTrace(springTrace, { applicationPackages: ['org.acme'] });
+      expect(StackTraceParser.formatAsHtml(noApplication)).not.toContain('framework-frames');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { FrameCycleDetector } from '../src/frameCycles';
+import { StackTraceParser } from '../src/stackTraceParser';
+import { AnsiRenderer } from '../src/ansiRenderer';
+
+const CYCLE = [
+  '\tat com.example.Tree.depth(Tree.java:12)',
+  '\tat com.example.Tree.visit(Tree.java:20)',
+  '\tat com.example.Visitor.accept(Visitor.java:8)'
+];
+
+const STACK_OVERFLOW = [
+  'java.lang.StackOverflowError',
+  '\tat java.base/java.util.HashMap.hash(HashMap.java:338)',
+  ...Array.from({ length: 340 }, () => CYCLE).flat(),
+  '\tat com.example.Tree.depth(Tree.java:12)'
+].join('\n');
+
+describe('FrameCycleDetector', () => {
+  it('should find the cycle of a StackOverflowError in the parsed trace', () => {
+    const parsed = StackTraceParser.parseStackTrace(STACK_OVERFLOW);
+
+    expect(parsed.lines.length).toBe(1023);
+    expect(parsed.frameCycles).toEqual([{ start: 2, end: 1022, length: 3, repetitions: 340, firstFrame: 2, lastFrame: 4 }]);
+    expect(FrameCycleDetector.describe(parsed.frameCycles![0])).toBe('frames 2–4 repeated 340 times');
+  });
+
+  it('should prefer the cycle covering the most frames and leave short repetitions alone', () => {
+    const parsed = StackTraceParser.parseStackTrace([
+      'java.lang.StackOverflowError',
+      '\tat a.B.c(B.java:1)',
+      '\tat a.B.c(B.java:1)',
+      '\tat a.B.d(B.java:2)',
+      '\tat a.B.c(B.java:1)',
+      '\tat a.B.c(B.java:1)',
+      '\tat a.B.d(B.java:2)',
+      '\tat a.B.c(B.java:1)',
+      '\tat a.B.c(B.java:1)',
+      '\tat a.B.d(B.java:2)',
+      'Caused by: java.lang.IllegalStateException: boom',
+      '\tat a.B.e(B.java:3)',
+      '\tat a.B.e(B.java:3)'
+    ].join('\n'));
+
+    expect(parsed.frameCycles).toEqual([{ start: 1, end: 10, length: 3, repetitions: 3, firstFrame: 1, lastFrame: 3 }]);
+    expect(StackTraceParser.parseStackTrace('java.lang.Error: x\n\tat a.B.c(B.java:1)\n\tat a.B.d(B.java:2)').frameCycles).toBeUndefined();
+  });
+
+  it('should fold repeated frames into an expander in HTML', () => {
+    const html = StackTraceParser.formatAsHtml(StackTraceParser.parseStackTrace(STACK_OVERFLOW));
+
+    expect(html).toContain('<details class="repeated-frames"><summary class="stacktrace-more">&nbsp;<span class="more-text">frames 2–4 repeated 340 times</span></summary>');
+    // The first repetition stays visible
+    expect(html.indexOf('Visitor.accept')).toBeLessThan(html.indexOf('repeated-frames'));
+    expect(html.match(/Tree\.visit/g)!.length).toBe(340);
+  });
+
+  it('should fold repeated frames in Markdown and terminal output', () => {
+    const parsed = StackTraceParser.parseStackTrace(STACK_OVERFLOW);
+    const expected = [
+      'java.lang.StackOverflowError',
+      '\tat java.base/java.util.HashMap.hash(HashMap.java:338)',
+      ...CYCLE,
+      '\t... frames 2–4 repeated 340 times',
+      '\tat com.example.Tree.depth(Tree.java:12)'
+    ].join('\n');
+
+    expect(StackTraceParser.formatAsMarkdown(parsed)).toContain(`\`\`\`\n${expected}\n\`\`\``);
+    expect(AnsiRenderer.format(parsed, { color: false })).toBe(expected.replace(/\t/g, '    '));
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { FrameDemangler } from '../src/frameDemangler';
+import { StackTraceParser, StackTraceLine } from '../src/stackTraceParser';
+
+function frame(className: string, methodName: string, fileName?: string): StackTraceLine {
+  return { type: 'at', content: `at ${className}.${methodName}(${fileName})`, className, methodName, fileName, indent: 1 };
+}
+
+describe('FrameDemangler', () => {
+  it('should demangle Kotlin lambdas, inlined lambdas and suspend functions', () => {
+    expect(FrameDemangler.demangle(frame('com.example.OrderService', 'process$lambda$0', 'OrderService.kt'))).toEqual({ displayName: 'com.example.OrderService.process { lambda }' });
+    expect(FrameDemangler.demangle(frame('com.example.OrderService', 'process$lambda-2', 'OrderService.kt'))).toEqual({ displayName: 'com.example.OrderService.process { lambda }' });
+    expect(FrameDemangler.demangle(frame('com.example.OrderService$process$$inlined$map$1', 'invoke', 'OrderService.kt'))).toEqual({ displayName: 'com.example.OrderService.process { inlined map }' });
+    expect(FrameDemangler.demangle(frame('com.example.OrderService$load$1', 'invokeSuspend', 'OrderService.kt'))).toEqual({ displayName: 'com.example.OrderService.load { suspend }' });
+    expect(FrameDemangler.demangle(frame('com.example.Repository', 'load$suspendImpl', 'Repository.kt'))).toEqual({ displayName: 'com.example.Repository.load' });
+    expect(FrameDemangler.demangle(frame('com.example.Greeter', 'greet$default', 'Greeter.kt'))).toEqual({ displayName: 'com.example.Greeter.greet', synthetic: true });
+    expect(FrameDemangler.demangle(frame('com.example.Outer', 'access$getSecret', 'Outer.kt'))).toEqual({ displayName: 'com.example.Outer.getSecret', synthetic: true });
+  });
+
+  it('should demangle Scala anonymous functions, objects and specializations', () => {
+    expect(FrameDemangler.demangle(frame('com.example.Pipeline', '$anonfun$run$1', 'Pipeline.scala'))).toEqual({ displayName: 'com.example.Pipeline.run { lambda }' });
+    expect(FrameDemangler.demangle(frame('com.example.Pipeline', '$anonfun$run$1$adapted', 'Pipeline.scala'))).toEqual({ displayName: 'com.example.Pipeline.run { lambda }', synthetic: true });
+    expect(FrameDemangler.demangle(frame('com.example.Pipeline$$anonfun$run$2', 'apply', 'Pipeline.scala'))).toEqual({ displayName: 'com.example.Pipeline.run { lambda }' });
+    expect(FrameDemangler.demangle(frame('com.example.Main$', 'main', 'Main.scala'))).toEqual({ displayName: 'com.example.Main.main' });
+    expect(FrameDemangler.demangle(frame('scala.runtime.java8.JFunction1', 'apply$mcII$sp', 'JFunction1.scala'))).toEqual({ displayName: 'scala.runtime.java8.JFunction1.apply', synthetic: true });
+  });
+
+  it('should demangle Groovy closures and mark call site plumbing', () => {
+    expect(FrameDemangler.demangle(frame('com.example.Build$_configure_closure3', 'doCall', 'Build.groovy'))).toEqual({ displayName: 'com.example.Build.configure { closure }' });
+    expect(FrameDemangler.demangle(frame('org.codehaus.groovy.runtime.callsite.CallSiteArray', 'defaultCall', 'CallSiteArray.java'))).toEqual({ synthetic: true });
+    expect(FrameDemangler.demangle(frame('jdk.internal.reflect.NativeMethodAccessorImpl', 'invoke0', 'Native Method'))).toEqual({ synthetic: true });
+  });
+
+  it('should leave plain Java frames alone but demangle Java lambdas', () => {
+    expect(FrameDemangler.demangle(frame('com.example.Outer$Inner', 'run', 'Outer.java'))).toEqual({});
+    expect(FrameDemangler.demangle(frame('com.example.Outer$1', 'run', 'Outer.java'))).toEqual({});
+    expect(FrameDemangler.demangle(frame('com.example.Outer', 'access$000', 'Outer.java'))).toEqual({ synthetic: true });
+    expect(FrameDemangler.demangle(frame('com.example.Jobs', 'lambda$schedule$0', 'Jobs.java'))).toEqual({ displayName: 'com.example.Jobs.schedule { lambda }' });
+  });
+
+  it('should recognize Kotlin coroutine boundaries', () => {
+    const trace = [
+      'java.lang.IllegalStateException: Order not found',
+      '\tat com.example.OrderRepository.find(OrderRepository.kt:21)',
+      '\tat com.example.OrderService$load$1.invokeSuspend(OrderService.kt:14)',
+      '\tat _COROUTINE._BOUNDARY._(CoroutineDebugging.kt:46)',
+      '\tat com.example.OrderController.show(OrderController.kt:30)',
+      '\t(Coroutine boundary)',
+      '\tat com.example.MainKt$main$1.invokeSuspend(Main.kt:8)'
+    ].join('\n');
+    const parsed = StackTraceParser.parseStackTrace(trace);
+    const root = StackTraceParser.buildThrowableTree(parsed)!;
+
+    expect(StackTraceParser.extractStackTrace(`INFO start\n${trace}\nINFO done`)).toBe(trace);
+    expect(parsed.lines.map(line => line.type)).toEqual(['exception', 'at', 'at', 'at', 'at', 'chain', 'at']);
+    expect(parsed.lines[3]).toMatchObject({ displayName: '(Coroutine boundary)', synthetic: true });
+    expect(root.frames.map(line => line.methodName)).toEqual(['find', 'invokeSuspend', '_', 'show', 'invokeSuspend']);
+    expect(root.message).toBe('Order not found');
+  });
+
+  it('should render demangled names with the name as printed on hover', () => {
+    const parsed = StackTraceParser.parseStackTrace('java.lang.IllegalStateException: boom\n\tat com.example.Outer.access$getSecret(Outer.kt:5)');
+    const html = StackTraceParser.formatAsHtml(parsed);
+
+    expect(html).toContain('stacktrace-synthetic');
+    expect(html).toContain('<span class="method-name" title="com.example.Outer.access$getSecret">com.example.Outer.getSecret</span>(<span class="location">Outer.kt:5</span>)');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { InputLimiter } from '../src/inputLimits';
+import worker, { Env } from '../src/index';
+
+describe('InputLimiter', () => {
+  it('should resolve configured limits and fall back to the defaults', () => {
+    expect(InputLimiter.resolveLimits({ MAX_INPUT_LENGTH: '1000', MAX_INPUT_LINES: 'many' })).toEqual({
+      maxInputLength: 1000,
+      maxInputLines: InputLimiter.DEFAULT_LIMITS.maxInputLines
+    });
+    expect(InputLimiter.resolveLimits()).toEqual(InputLimiter.DEFAULT_LIMITS);
+  });
+
+  it('should report texts over the length and line limits', () => {
+    const limits = { maxInputLength: 20, maxInputLines: 3 };
+
+    expect(InputLimiter.checkText('a\nb\nc', limits)).toBeNull();
+    expect(InputLimiter.checkText('a\nb\nc\nd', limits)).toBe('has more than 3 lines');
+    expect(InputLimiter.checkText('x'.repeat(21), limits)).toBe('has 21 characters, the limit is 20');
+  });
+
+  it('should accept the prefix patterns of common log formats', () => {
+    for (const pattern of [
+      '\\d{4}-\\d{2}-\\d{2}T[\\d:.]+Z ',
+      '^\\[[^\\]]+\\] (?:INFO|WARN|ERROR) ',
+      '(?:\\w+ ){3}\\S+ java\\[\\d+\\]: ',
+      '[(+]*x',
+      '^\\s*\\S+ (?:DEBUG|INFO)? ',
+      '\\d+\\.\\d+ \\w+: '
+    ]) {
+      expect(InputLimiter.checkPattern(pattern)).toBeNull();
+    }
+  });
+
+  it('should reject nested quantifiers, backreferences and long patterns', () => {
+    expect(InputLimiter.checkPattern('(\\d+)+ ')).toBe('contains a nested quantifier');
+    expect(InputLimiter.checkPattern('(?:a*b)* ')).toBe('contains a nested quantifier');
+    expect(InputLimiter.checkPattern('((?:ab)+c){2,}')).toBe('contains a nested quantifier');
+    expect(InputLimiter.checkPattern('(\\w)\\1 ')).toBe('contains a backreference');
+    expect(InputLimiter.checkPattern('a'.repeat(201))).toBe('is longer than 200 characters');
+  });
+
+  it('should reject quantified alternatives and overlapping adjacent quantifiers', () => {
+    expect(InputLimiter.checkPattern('(a|a)+$')).toBe('contains a quantified alternation');
+    expect(InputLimiter.checkPattern('(?:\\w|\\d)+x')).toBe('contains a quantified alternation');
+    expect(InputLimiter.checkPattern('\\d*\\d*\\d*x')).toBe('contains adjacent quantifiers that overlap');
+    expect(InputLimiter.checkPattern('\\w+-?\\d+x')).toBe('contains adjacent quantifiers that overlap');
+    expect(InputLimiter.checkPattern('(?:a\\s*)\\s+x')).toBe('contains adjacent quantifiers that overlap');
+  });
+
+  it('should answer unsafe redaction patterns with 422', async () => {
+    const response = await worker.fetch(new Request('https://stack.example/api/parse', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: 'java.lang.Error: boom', redact: true, redactionPatterns: ['ORD-\\d+', '(?:\\w|\\d)+x'] })
+    }), {} as Env, {} as ExecutionContext);
+
+    expect(response.status).toBe(422);
+    expect(await response.text()).toContain('redactionPatterns[1] contains a quantified alternation');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { JUnitReportParser } from '../src/junitReport';
+import { StackTraceParser } from '../src/stackTraceParser';
+import worker, { Env } from '../src/index';
+
+const SUREFIRE_REPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuite xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" name="com.example.OrderServiceTest" time="0.412" tests="3" errors="1" skipped="0" failures="1">
+  <properties>
+    <property name="java.version" value="17.0.8"/>
+  </properties>
+  <testcase name="createsOrder" classname="com.example.OrderServiceTest" time="0.051"/>
+  <testcase name="rejectsEmptyCart" classname="com.example.OrderServiceTest" time="0.012">
+    <failure message="expected: &lt;400&gt; but was: &lt;200&gt;" type="org.opentest4j.AssertionFailedError"><![CDATA[org.opentest4j.AssertionFailedError: expected: <400> but was: <200>
+	at org.junit.jupiter.api.Assertions.assertEquals(Assertions.java:150)
+	at com.example.OrderServiceTest.rejectsEmptyCart(OrderServiceTest.java:42)
+]]></failure>
+    <system-out><![CDATA[creating order]]></system-out>
+  </testcase>
+  <testcase name="reservesStock" classname="com.example.OrderServiceTest" time="0.349">
+    <error message="Connection refused" type="java.net.ConnectException">java.net.ConnectException: Connection refused
+	at com.example.StockClient.&lt;init&gt;(StockClient.java:27)
+	at com.example.OrderServiceTest.reservesStock(OrderServiceTest.java:58)
+</error>
+  </testcase>
+</testsuite>`;
+
+describe('JUnitReportParser', () => {
+  it('should extract failures and errors with their test case', () => {
+    const failures = JUnitReportParser.parseReport(SUREFIRE_REPORT);
+
+    expect(JUnitReportParser.isJUnitReport(SUREFIRE_REPORT)).toBe(true);
+    expect(failures.map(({ kind, suiteName, className, methodName, type, line }) => ({ kind, suiteName, className, methodName, type, line }))).toEqual([
+      { kind: 'failure', suiteName: 'com.example.OrderServiceTest', className: 'com.example.OrderServiceTest', methodName: 'rejectsEmptyCart', type: 'org.opentest4j.AssertionFailedError', line: 8 },
+      { kind: 'error', suiteName: 'com.example.OrderServiceTest', className: 'com.example.OrderServiceTest', methodName: 'reservesStock', type: 'java.net.ConnectException', line: 15 }
+    ]);
+    expect(SUREFIRE_REPORT.substring(failures[1].start, failures[1].end)).toMatch(/^<error message="Connection refused"[\s\S]*<\/error>$/);
+  });
+
+  it('should decode entities and CDATA sections into stack traces', () => {
+    const [failure, error] = JUnitReportParser.parseReport(SUREFIRE_REPORT);
+
+    expect(failure.message).toBe('expected: <400> but was: <200>');
+    expect(failure.stackTrace).toBe([
+      'org.opentest4j.AssertionFailedError: expected: <400> but was: <200>',
+      '\tat org.junit.jupiter.api.Assertions.assertEquals(Assertions.java:150)',
+      '\tat com.example.OrderServiceTest.rejectsEmptyCart(OrderServiceTest.java:42)'
+    ].join('\n'));
+    expect(StackTraceParser.parseStackTrace(error.stackTrace).lines[1]).toMatchObject({ className: 'com.example.StockClient', methodName: '<init>' });
+  });
+
+  it('should read nested suites of Gradle and JUnit Platform reports', () => {
+    const failures = JUnitReportParser.parseReport(`<testsuites>
+  <testsuite name="JUnit Jupiter" tests="2">
+    <testcase name="parses()" classname="com.example.ParserTest"><failure message="boom &amp; bust" type="java.lang.IllegalStateException"/></testcase>
+    <testcase name="formats()" classname="com.example.FormatterTest"><skipped/></testcase>
+  </testsuite>
+  <testsuite name="JUnit Vintage" tests="1">
+    <testcase name="legacy" classname="com.example.LegacyTest"><error type="java.lang.Error">java.lang.Error: &#x1F4A5;&#33;</error></testcase>
+  </testsuite>
+</testsuites>`);
+
+    expect(failures.map(({ suiteName, methodName, stackTrace }) => [suiteName, methodName, stackTrace])).toEqual([
+      ['JUnit Jupiter', 'parses()', 'java.lang.IllegalStateException: boom & bust'],
+      ['JUnit Vintage', 'legacy', 'java.lang.Error: \u{1F4A5}!']
+    ]);
+  });
+
+  it('should recognize reports capturing a thread dump on the page and the server', async () => {
+    const report = SUREFIRE_REPORT.replace('creating order', '"main" #1 prio=5 tid=0x1 nid=0x2 runnable\n   java.lang.Thread.State: RUNNABLE');
+    const fetch = (path: string, init?: RequestInit) =>
+      worker.fetch(new Request(`https://stack.example${path}`, init), {} as Env, {} as ExecutionContext);
+
+    // The page decides the mode with the parser's patterns, before looking for thread dumps
+    const html = await (await fetch('/')).text();
+    const detection = html.match(/const isTestReport = [^\n]*\n[\s\S]*?const isThreadDump = [^\n]*/)![0];
+    const pageMode = new Function('input', `${detection}\nreturn isTestReport ? 'junit' : isThreadDump ? 'threads' : 'all';`);
+    expect(pageMode(report)).toBe('junit');
+    expect(pageMode('"main" #1 prio=5\n   java.lang.Thread.State: RUNNABLE')).toBe('threads');
+
+    const response = await fetch('/api/parse', { method: 'POST', headers: { 'Content-Type': 'text/plain' }, body: report });
+    const result = await response.json() as { testFailures: unknown[] };
+    expect(result.testFailures.length).toBe(2);
+  });
+
+  it('should parse reports posted to /api/parse in junit mode', async () => {
+    const response = await worker.fetch(new Request('https://stack.example/api/parse', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/xml' },
+      body: SUREFIRE_REPORT
+    }), {} as Env, {} as ExecutionContext);
+    const result = await response.json() as { testFailures: { className: string; methodName: string; summary: { text: string } }[] };
+
+    expect(response.status).toBe(200);
+    expect(result.testFailures.map(failure => [failure.methodName, failure.summary.text])).toEqual([
+      ['rejectsEmptyCart', 'AssertionFailedError: expected: <400> but was: <200> at OrderServiceTest.rejectsEmptyCart(OrderServiceTest.java:42)'],
+      ['reservesStock', 'ConnectException: Connection refused at StockClient.<init>(StockClient.java:27)']
+    ]);
+  });
+});
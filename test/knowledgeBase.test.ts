@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { KnowledgeBase, HintOptions } from '../src/knowledgeBase';
+import { StackTraceParser } from '../src/stackTraceParser';
+
+function hintIdsOf(stackTrace: string, options: HintOptions = {}) {
+  return KnowledgeBase.match(StackTraceParser.parseStackTrace(stackTrace), options).map(hint => hint.ruleId);
+}
+
+describe('KnowledgeBase', () => {
+  it('should match frames elided from a cause through its enclosing throwable', () => {
+    const stackTrace = `java.lang.RuntimeException: Service unavailable
+	at com.example.database.ConnectionPool.getConnection(ConnectionPool.java:89)
+	at com.example.service.UserService.getUser(UserService.java:45)
+Caused by: java.net.ConnectException: Connection refused
+	at java.base/java.net.Socket.connect(Socket.java:666)
+	... 2 more`;
+
+    expect(hintIdsOf(stackTrace)).toEqual(['db-connection-refused']);
+    expect(hintIdsOf(stackTrace.replace(/database\.ConnectionPool\.getConnection/, 'client.Api.call'))).toEqual(['connection-refused']);
+  });
+
+  it('should see the frames of every enclosing throwable in deep cause chains', () => {
+    const stackTrace = [
+      'java.lang.RuntimeException: Service unavailable',
+      '\tat com.example.database.ConnectionPool.getConnection(ConnectionPool.java:89)',
+      ...Array.from({ length: 20_000 }, (_, i) => `Caused by: java.lang.IllegalStateException: level ${i + 1}\n\tat com.example.Chain.level${i + 1}(Chain.java:1)\n\t... 1 more`),
+      'Caused by: java.net.ConnectException: Connection refused',
+      '\tat java.base/java.net.Socket.connect(Socket.java:666)',
+      '\t... 1 more'
+    ].join('\n');
+
+    expect(hintIdsOf(stackTrace)).toEqual(['db-connection-refused']);
+  });
+
+  it('should tell OutOfMemoryErrors apart by their message', () => {
+    expect(hintIdsOf('java.lang.OutOfMemoryError: Metaspace')).toEqual(['metaspace']);
+    expect(hintIdsOf('java.lang.OutOfMemoryError: Java heap space')).toEqual(['heap-space']);
+    expect(hintIdsOf('java.lang.OutOfMemoryError: unable to create native thread: possibly out of memory or process/resource limits reached')).toEqual(['native-thread']);
+  });
+
+  it('should list the hints of the innermost cause first', () => {
+    const hints = KnowledgeBase.match(StackTraceParser.parseStackTrace(`org.springframework.beans.factory.BeanCreationException: Error creating bean with name 'orderService'
+	at org.springframework.beans.factory.support.AbstractBeanFactory.getBean(AbstractBeanFactory.java:208)
+Caused by: org.hibernate.LazyInitializationException: could not initialize proxy - no Session
+	at org.hibernate.proxy.AbstractLazyInitializer.initialize(AbstractLazyInitializer.java:176)
+	... 1 more
+Caused by: java.util.ConcurrentModificationException
+	at java.base/java.util.ArrayList$Itr.next(ArrayList.java:970)
+	... 1 more`));
+
+    expect(hints.map(hint => [hint.ruleId, hint.exceptionClass])).toEqual([
+      ['concurrent-modification', 'java.util.ConcurrentModificationException'],
+      ['lazy-initialization', 'org.hibernate.LazyInitializationException']
+    ]);
+  });
+
+  it('should try team rules first and let them replace built-in rules', () => {
+    const stackTrace = `com.example.billing.PaymentDeclinedException: Card declined
+	at com.example.billing.Gateway.charge(Gateway.java:12)`;
+    const options: HintOptions = {
+      hintRules: [
+        { id: 'payment-declined', exceptionClass: 'PaymentDeclinedException', framePatterns: ['^com\\.example\\.billing\\.Gateway\\.'], title: 'Declined by the gateway', hint: 'See the gateway dashboard.' },
+        { id: 'stack-overflow', exceptionClass: 'java.lang.StackOverflowError', messagePattern: 'never', title: 'Disabled', hint: '' }
+      ]
+    };
+
+    expect(hintIdsOf(stackTrace, options)).toEqual(['payment-declined']);
+    expect(hintIdsOf('java.lang.StackOverflowError', options)).toEqual([]);
+    expect(hintIdsOf('java.lang.StackOverflowError')).toEqual(['stack-overflow']);
+  });
+
+  it('should keep only valid team rules', () => {
+    const rules = KnowledgeBase.parseRules(JSON.stringify([
+      { id: 'valid', messagePattern: 'timeout', title: 'Timeout', hint: 'Retry', link: 'https://wiki.example.com/timeouts' },
+      { id: 'no-condition', title: 'Always', hint: 'Never matches anything' },
+      { id: 'bad-pattern', messagePattern: '(', title: 'Broken', hint: 'Invalid regex' },
+      { id: 'bad-link', exceptionClass: 'X', title: 'Link', hint: 'Script link', link: 'javascript:alert(1)' }
+    ]));
+
+    expect(rules.map(rule => rule.id)).toEqual(['valid']);
+    expect(KnowledgeBase.parseRules('not json')).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { StackTraceParser } from '../src/stackTraceParser';
+import { LogPrefixStripper } from '../src/logPrefix';
+
+const kubernetesLog = `2024-08-21T10:30:44.901234567Z Started OrderApplication in 3.2 seconds
+2024-08-21T10:30:45.123456789Z java.lang.IllegalStateException: Order not found
+2024-08-21T10:30:45.123460001Z \tat com.example.order.OrderService.find(OrderService.java:42)
+2024-08-21T10:30:45.123460002Z \tat com.example.order.OrderController.get(OrderController.java:17)
+2024-08-21T10:30:45.123460003Z Caused by: java.sql.SQLException: Connection closed
+2024-08-21T10:30:45.123460004Z \tat com.zaxxer.hikari.pool.ProxyConnection.checkClosed(ProxyConnection.java:515)
+2024-08-21T10:30:45.123460005Z \t... 2 more
+2024-08-21T10:30:46.000000000Z Shutting down`;
+
+describe('LogPrefixStripper', () => {
+  it('should strip Kubernetes timestamps and keep them as line metadata', () => {
+    const extracted = StackTraceParser.findStackTrace(kubernetesLog)!;
+    const parsed = StackTraceParser.parseStackTrace(extracted.text);
+
+    expect(extracted.text.split('\n')).toHaveLength(6);
+    expect(kubernetesLog.substring(extracted.start, extracted.end)).toBe(extracted.text);
+    expect(parsed.lines.map(line => line.type)).toEqual(['exception', 'at', 'at', 'caused_by', 'at', 'more']);
+    expect(parsed.lines[0]).toMatchObject({
+      exceptionClass: 'java.lang.IllegalStateException',
+      logPrefix: '2024-08-21T10:30:45.123456789Z ',
+      indent: 0
+    });
+    expect(parsed.lines[1]).toMatchObject({ className: 'com.example.order.OrderService', indent: 1 });
+    expect(StackTraceParser.buildThrowableTree(parsed)!.cause!.exceptionClass).toBe('java.sql.SQLException');
+  });
+
+  it('should strip journalctl and logback prefixes', () => {
+    const journal = `Aug 21 10:30:45 web-1 java[1234]: java.lang.RuntimeException: boom
+Aug 21 10:30:45 web-1 java[1234]:     at com.example.Foo.bar(Foo.java:10)
+Aug 21 10:30:45 web-1 java[1234]:     at com.example.Foo.main(Foo.java:5)`;
+    const logback = `2024-08-21 10:30:45.123 [http-nio-8080-exec-1] ERROR c.e.Foo - java.lang.RuntimeException: boom
+2024-08-21 10:30:45.123 [http-nio-8080-exec-1] ERROR c.e.Foo - \tat com.example.Foo.bar(Foo.java:10)
+2024-08-21 10:30:45.124 [http-nio-8080-exec-1] ERROR c.e.Foo - \tat com.example.Foo.main(Foo.java:5)`;
+
+    for (const input of [journal, logback]) {
+      const lines = StackTraceParser.parseStackTrace(StackTraceParser.extractStackTrace(input)).lines;
+      expect(lines.map(line => line.type)).toEqual(['exception', 'at', 'at']);
+      expect(lines[0].message).toBe('boom');
+    }
+  });
+
+  it('should unwrap Docker JSON-file log lines', () => {
+    const docker = [
+      '{"log":"java.lang.RuntimeException: boom\\n","stream":"stderr","time":"2024-08-21T10:30:45.1Z"}',
+      '{"log":"\\tat com.example.Foo.bar(Foo.java:10)\\n","stream":"stderr","time":"2024-08-21T10:30:45.2Z"}',
+      '{"log":"\\tat com.example.Foo.main(Foo.java:5)\\n","stream":"stderr","time":"2024-08-21T10:30:45.3Z"}'
+    ].join('\n');
+
+    const lines = StackTraceParser.parseStackTrace(StackTraceParser.extractStackTrace(docker)).lines;
+    expect(lines.map(line => line.type)).toEqual(['exception', 'at', 'at']);
+    expect(lines[1]).toMatchObject({ methodName: 'bar', logPrefix: '2024-08-21T10:30:45.2Z stderr' });
+  });
+
+  it('should use a configured prefix pattern', () => {
+    const input = `[app] java.lang.RuntimeException: boom
+[app] \tat com.example.Foo.bar(Foo.java:10)`;
+
+    // A single prefixed frame is not enough for detection
+    expect(LogPrefixStripper.detectPrefixPatterns(input.split('\n'))).toEqual([]);
+
+    const lines = StackTraceParser.parseStackTrace(input, { logPrefixPattern: '\\[app\\] ' }).lines;
+    expect(lines.map(line => line.type)).toEqual(['exception', 'at']);
+    expect(lines[1].logPrefix).toBe('[app] ');
+  });
+
+  it('should leave unprefixed traces alone', () => {
+    const input = 'java.lang.RuntimeException: boom\n\tat com.example.Foo.bar(Foo.java:10)\n\tat com.example.Foo.main(Foo.java:5)';
+
+    expect(LogPrefixStripper.detectPrefixPatterns(input.split('\n'))).toEqual([]);
+    expect(StackTraceParser.parseStackTrace(input).lines.every(line => line.logPrefix === undefined)).toBe(true);
+  });
+});
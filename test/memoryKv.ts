@@ -0,0 +1,24 @@
+import { ShareStorage } from '../src/shareStore';
+
+/**
+ * In-memory stand-in for a Workers KV namespace, honoring `expirationTtl` against a
+ * clock the test can move
+ */
+export class MemoryKV implements ShareStorage {
+  public now = Date.now();
+  private readonly entries = new Map<string, { value: string; expiresAt: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    return entry && entry.expiresAt > this.now ? entry.value : null;
+  }
+
+  async put(key: string, value: string, options: { expirationTtl?: number } = {}): Promise<void> {
+    const expiresAt = options.expirationTtl !== undefined ? this.now + options.expirationTtl * 1000 : Infinity;
+    this.entries.set(key, { value, expiresAt });
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+}
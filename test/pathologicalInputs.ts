@@ -0,0 +1,50 @@
+/**
+ * Inputs that made the regex-based extractor backtrack super-linearly, generated at
+ * about `size` characters; shared by the benchmarks and the linear-time tests
+ */
+export const PATHOLOGICAL_INPUTS: Record<string, (size: number) => string> = {
+  // Exception names and escaped line breaks, but no escaped tab or frame
+  'escaped headers without frames': size => 'java.lang.Exception\\n'.repeat(size / 21),
+  // A string that is opened but never closed, full of escapes
+  'unterminated escaped string': size => '{"error": "' + 'java.lang.Error\\n\\t'.repeat(size / 19),
+  // Quotes without attributes of a thread dump header
+  'quotes without thread attributes': size => '"a'.repeat(size / 2),
+  // Qualified names that never end in Exception or Error
+  'dotted line without exception': size => 'a.'.repeat(size / 2) + '!',
+  // A Docker JSON-file log line that does not close
+  'unclosed Docker JSON line': size => '{' + '"log": "'.repeat(size / 8),
+  // Frame-like text without a location
+  'frames without locations': size => ('at a.b ' + 'c'.repeat(20)).repeat(size / 27),
+  // Many serialized stack traces, each located in the input
+  'many serialized stack traces': size =>
+    '{"e": "java.lang.IllegalStateException: boom\\n\\tat com.example.Foo.bar(Foo.java:10)"}\n'.repeat(size / 84),
+  // Many plain stack traces with log lines in between
+  'many plain stack traces': size =>
+    'INFO tick\njava.lang.IllegalStateException: boom\n\tat com.example.Foo.bar(Foo.java:10)\n'.repeat(size / 75),
+  // Python frame lines run together on one line, none of them ending like a frame
+  'Python frames on one line': size => '  File "a.py", line 1x'.repeat(size / 22),
+  // A Python function name running into a carriage return that is not followed by a line feed
+  'Python function name before a lone carriage return': size =>
+    'Traceback (most recent call last):\n  File "a.py", line 1, in f' + ' '.repeat(size) + '\rg\nValueError: boom',
+  // Many Python tracebacks, each chained to the next
+  'many chained Python tracebacks': size =>
+    ('Traceback (most recent call last):\n  File "/app/a.py", line 3, in f\n    g()\nValueError: boom\n\n' +
+      'During handling of the above exception, another exception occurred:\n\n').repeat(size / 170),
+  // .NET frame locations run together on one line, none of them with a line number
+  '.NET frame locations without line numbers': size => '   at A.B() in C:\\src\\B.cs:line '.repeat(size / 32),
+  // Header messages running into a carriage return that is not followed by a line feed
+  'header message before a lone carriage return': size =>
+    'java.lang.Exception: x' + ' '.repeat(size) + '\ry\n\tat a.b(C.java:1)',
+  // The same with a Unicode line separator, which `.` does not match either
+  'header message before a line separator': size =>
+    'Caused by: java.lang.Exception: x' + ' '.repeat(size) + '\u2028y\n\tat a.b(C.java:1)',
+  // Headers whose message is nothing but whitespace up to a carriage return
+  'whitespace-only header messages': size =>
+    'Exception in thread "main"' + ' '.repeat(size / 2) + '\ry\nSuppressed: java.lang.Error:' + ' '.repeat(size / 2) + '\ry',
+  // A class name of many `$_` segments, none of them a Groovy closure
+  'class name of many closure separators': size =>
+    'java.lang.Exception\n\tat A' + '$_a'.repeat(size / 3) + '.doCall(A.groovy:1)',
+  // Recursion far deeper than the 1024 frames the JVM prints, all of it one cycle
+  'deep recursion': size =>
+    'java.lang.StackOverflowError\n' + '\tat com.example.Tree.depth(Tree.java:12)\n\tat com.example.Tree.visit(Tree.java:20)\n'.repeat(size / 80)
+};
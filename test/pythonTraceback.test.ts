@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { PythonTracebackParser } from '../src/pythonTraceback';
+import { StackTraceParser } from '../src/stackTraceParser';
+import { StackTraceSummarizer } from '../src/stackTraceSummary';
+
+const CHAINED_TRACEBACK = `Traceback (most recent call last):
+  File "/app/orders/services.py", line 27, in reserve_stock
+    stock = Stock.objects.select_for_update().get(sku=sku)
+            ^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^
+  File "/usr/local/lib/python3.11/site-packages/django/db/models/query.py", line 637, in get
+    raise self.model.DoesNotExist(
+orders.models.Stock.DoesNotExist: Stock matching query does not exist.
+
+The above exception was the direct cause of the following exception:
+
+Traceback (most recent call last):
+  File "/app/orders/views.py", line 42, in create
+    services.reserve_stock(order.sku, order.quantity)
+  File "/app/orders/services.py", line 29, in reserve_stock
+    raise OutOfStockError(sku) from error
+orders.errors.OutOfStockError: SKU-1042`;
+
+describe('PythonTracebackParser', () => {
+  it('should parse frames, code and exception lines of chained tracebacks', () => {
+    const parsed = StackTraceParser.parseStackTrace(CHAINED_TRACEBACK, { applicationPackages: ['orders'] });
+
+    expect(parsed.language).toBe('python');
+    expect(parsed.hasStackTrace).toBe(true);
+    expect(parsed.lines.map(line => line.type)).toEqual([
+      'traceback', 'at', 'source', 'source', 'at', 'source', 'exception',
+      'chain',
+      'traceback', 'at', 'source', 'at', 'source', 'exception'
+    ]);
+    expect(parsed.lines[1]).toMatchObject({
+      language: 'python',
+      className: 'app.orders.services',
+      methodName: 'reserve_stock',
+      fileName: '/app/orders/services.py',
+      lineNumber: 27,
+      frameCategory: 'application'
+    });
+    expect(parsed.lines[4]).toMatchObject({ className: 'django.db.models.query', frameCategory: 'framework', framework: 'Django' });
+    expect(parsed.lines[6]).toMatchObject({ exceptionClass: 'orders.models.Stock.DoesNotExist', message: 'Stock matching query does not exist.' });
+  });
+
+  it('should make the exception printed last the root and earlier ones its causes', () => {
+    const parsed = StackTraceParser.parseStackTrace(CHAINED_TRACEBACK, { applicationPackages: ['orders'] });
+    const root = StackTraceParser.buildThrowableTree(parsed)!;
+
+    expect(root.kind).toBe('root');
+    expect(root.exceptionClass).toBe('orders.errors.OutOfStockError');
+    expect(root.frames.map(frame => frame.methodName)).toEqual(['reserve_stock', 'create']);
+    expect(root.cause!.exceptionClass).toBe('orders.models.Stock.DoesNotExist');
+    expect(root.cause!.cause).toBeUndefined();
+    expect(StackTraceSummarizer.summarize(parsed)!.text).toBe(
+      'DoesNotExist: Stock matching query does not exist. at services.reserve_stock(/app/orders/services.py:27)'
+    );
+  });
+
+  it('should extract tracebacks from logs next to Java stack traces', () => {
+    const input = [
+      '2024-08-21 10:30:45 ERROR Order creation failed',
+      CHAINED_TRACEBACK,
+      '2024-08-21 10:30:46 ERROR Billing failed',
+      'java.lang.IllegalStateException: boom',
+      '\tat com.example.Foo.bar(Foo.java:10)',
+      '2024-08-21 10:30:47 INFO done'
+    ].join('\n');
+
+    const extracted = StackTraceParser.extractAllStackTraces(input);
+
+    expect(extracted.map(trace => trace.text)).toEqual([CHAINED_TRACEBACK, 'java.lang.IllegalStateException: boom\n\tat com.example.Foo.bar(Foo.java:10)']);
+    expect(extracted.map(trace => StackTraceParser.parseStackTrace(trace.text).language)).toEqual(['python', 'java']);
+  });
+
+  it('should find tracebacks serialized into JSON log fields', () => {
+    const input = JSON.stringify({ level: 'ERROR', exc_info: 'Traceback (most recent call last):\n  File "<stdin>", line 1, in <module>\nZeroDivisionError: division by zero' });
+    const extracted = StackTraceParser.findStackTrace(input)!;
+    const parsed = StackTraceParser.parseStackTrace(extracted.text);
+
+    expect(extracted.serialized).toBe(true);
+    expect(parsed.lines.map(line => [line.type, line.className])).toEqual([
+      ['traceback', undefined],
+      ['at', '<stdin>'],
+      ['exception', undefined]
+    ]);
+  });
+
+  it('should render frames the way Python prints them', () => {
+    const parsed = StackTraceParser.parseStackTrace(CHAINED_TRACEBACK, { language: 'python' });
+    const html = StackTraceParser.formatAsHtml(parsed);
+
+    expect(html).toContain('<span class="at-keyword">File</span> "<span class="location">/app/orders/views.py</span>", line <span class="location">42</span>, in <span class="method-name">create</span>');
+    expect(html).toContain('<div class="stacktrace-chain">');
+    expect(StackTraceParser.formatAsMarkdown(parsed)).toContain('```\nTraceback (most recent call last):\n  File "/app/orders/services.py", line 27, in reserve_stock\n');
+  });
+
+  it('should derive module names from source paths', () => {
+    expect(PythonTracebackParser.moduleName('/usr/lib/python3.12/json/decoder.py')).toBe('json.decoder');
+    expect(PythonTracebackParser.moduleName('C:\\Python311\\Lib\\asyncio\\__init__.py')).toBe('asyncio');
+    expect(PythonTracebackParser.moduleName('/srv/venv/lib/python3.11/site-packages/requests/adapters.py')).toBe('requests.adapters');
+    expect(PythonTracebackParser.moduleName('<frozen importlib._bootstrap>')).toBe('importlib._bootstrap');
+  });
+
+  it('should let registered languages take precedence in detection', () => {
+    // Registration is global, so this parser only recognizes text no other test uses
+    StackTraceParser.registerLanguage({
+      language: 'test',
+      findBlocks: () => [],
+      containsStackTrace: text => text.startsWith('TEST'),
+      parseLines: lines => lines.map(line => ({ type: 'unknown', content: line, indent: 0 })),
+      buildThrowableTree: () => null
+    });
+
+    expect(StackTraceParser.languages).toEqual(['test', 'python', 'dotnet', 'java']);
+    expect(StackTraceParser.detectLanguage('TEST\njava.lang.Error: x\n\tat a.B.c(B.java:1)')).toBe('test');
+    expect(StackTraceParser.detectLanguage('java.lang.Error: x\n\tat a.B.c(B.java:1)')).toBe('java');
+    expect(StackTraceParser.detectLanguage(CHAINED_TRACEBACK)).toBe('python');
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { ProguardRetracer } from '../src/retrace';
+import worker, { Env } from '../src/index';
+
+const mappingText = `# compiler: R8
+com.example.order.OrderService -> a.b.c:
+# {"id":"sourceFile","fileName":"OrderService.kt"}
+    java.lang.String name -> a
+    1:1:void <init>():10:10 -> <init>
+    5:6:void validate(int):40:41 -> a
+    7:9:void com.example.order.OrderValidator.check(int):30:30 -> b
+    7:9:void placeOrder(int):55 -> b
+    void cancel() -> c
+com.example.order.OrderException -> a.b.d:
+    void <init>(java.lang.String) -> <init>
+`;
+
+describe('ProguardRetracer', () => {
+  const mapping = ProguardRetracer.parseMapping(mappingText);
+
+  describe('parseMapping', () => {
+    it('should parse classes, members and source file metadata', () => {
+      const classMapping = mapping.classes.get('a.b.c')!;
+
+      expect(mapping.classes.size).toBe(2);
+      expect(classMapping.originalName).toBe('com.example.order.OrderService');
+      expect(classMapping.sourceFile).toBe('OrderService.kt');
+      // The field mapping is skipped
+      expect(classMapping.members).toHaveLength(5);
+      expect(classMapping.members[2]).toMatchObject({
+        obfuscatedName: 'b',
+        originalName: 'check',
+        originalClassName: 'com.example.order.OrderValidator',
+        obfuscatedStartLine: 7,
+        obfuscatedEndLine: 9,
+        originalStartLine: 30
+      });
+    });
+  });
+
+  describe('retrace', () => {
+    it('should remap class, method and line number', () => {
+      const retraced = ProguardRetracer.retrace('\tat a.b.c.a(SourceFile:6)', mapping);
+
+      expect(retraced).toBe('\tat com.example.order.OrderService.validate(OrderService.kt:41)');
+    });
+
+    it('should expand inlined frames', () => {
+      const retraced = ProguardRetracer.retrace('\tat a.b.c.b(SourceFile:8)', mapping);
+
+      expect(retraced.split('\n')).toEqual([
+        '\tat com.example.order.OrderValidator.check(OrderValidator.java:30)',
+        '\tat com.example.order.OrderService.placeOrder(OrderService.kt:55)'
+      ]);
+    });
+
+    it('should keep log prefixes on every expanded frame', () => {
+      const retraced = ProguardRetracer.retrace(`2024-08-21T10:30:45.1Z a.b.d: rejected
+2024-08-21T10:30:45.2Z \tat a.b.c.b(SourceFile:8)
+2024-08-21T10:30:45.3Z \tat a.b.c.a(SourceFile:6)`, mapping);
+
+      expect(retraced.split('\n')).toEqual([
+        '2024-08-21T10:30:45.1Z com.example.order.OrderException: rejected',
+        '2024-08-21T10:30:45.2Z \tat com.example.order.OrderValidator.check(OrderValidator.java:30)',
+        '2024-08-21T10:30:45.2Z \tat com.example.order.OrderService.placeOrder(OrderService.kt:55)',
+        '2024-08-21T10:30:45.3Z \tat com.example.order.OrderService.validate(OrderService.kt:41)'
+      ]);
+    });
+
+    it('should remap exception headers and keep unmapped lines', () => {
+      const trace = `Exception in thread "main" a.b.d: Order 42 rejected
+\tat a.b.c.c(Unknown Source)
+\tat x.y.z.run(SourceFile:3)
+Caused by: a.b.d
+\tat java.lang.Thread.run(Thread.java:833)`;
+
+      expect(ProguardRetracer.retrace(trace, mapping).split('\n')).toEqual([
+        'Exception in thread "main" com.example.order.OrderException: Order 42 rejected',
+        '\tat com.example.order.OrderService.cancel(OrderService.kt)',
+        '\tat x.y.z.run(SourceFile:3)',
+        'Caused by: com.example.order.OrderException',
+        '\tat java.lang.Thread.run(Thread.java:833)'
+      ]);
+    });
+  });
+
+  describe('/api/retrace', () => {
+    const retrace = (body: object) => worker.fetch(new Request('https://stack.example/api/retrace', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ mapping: mappingText, ...body })
+    }), {} as Env, {} as ExecutionContext);
+
+    it('should redact the retraced input along with the stack traces', async () => {
+      const response = await retrace({
+        text: 'WARN login failed for jane.doe@example.com with password=hunter2\na.b.d: rejected for jane.doe@example.com, password=hunter2\n\tat a.b.c.b(SourceFile:8)',
+        mode: 'all',
+        redact: true
+      });
+      const text = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(JSON.parse(text).retracedInput).toContain('com.example.order.OrderException: rejected for [REDACTED:email]');
+      expect(text).not.toContain('hunter2');
+      expect(text).not.toContain('jane.doe@example.com');
+    });
+
+    it('should locate stack traces in the text as posted', async () => {
+      const first = 'a.b.d: rejected\n\tat a.b.c.b(SourceFile:8)\n\tat a.b.c.a(SourceFile:5)';
+      const second = '{"level":"ERROR","stack_trace":"a.b.d: retry\\n\\tat a.b.c.b(SourceFile:8)\\n\\tat a.b.c.c(SourceFile)"}';
+      const text = ['INFO starting', 'INFO listening on 8080', first, 'INFO retrying', second].join('\n');
+
+      const response = await retrace({ text, mode: 'all' });
+      const result = await response.json() as {
+        stackTraces: { start: number; end: number; startLine: number; endLine: number; parsedStackTrace: { lines: { content: string; start: number; end: number; inputLine: number }[] } }[];
+      };
+
+      expect(response.status).toBe(200);
+      const [trace, serialized] = result.stackTraces;
+      expect(text.substring(trace.start, trace.end)).toBe(first);
+      expect([trace.startLine, trace.endLine]).toEqual([3, 5]);
+      // Both inlined frames point to the obfuscated frame they were expanded from
+      expect(trace.parsedStackTrace.lines.map(line => [line.content.trim(), line.inputLine, text.substring(line.start, line.end)])).toEqual([
+        ['com.example.order.OrderException: rejected', 3, 'a.b.d: rejected'],
+        ['at com.example.order.OrderValidator.check(OrderValidator.java:30)', 4, '\tat a.b.c.b(SourceFile:8)'],
+        ['at com.example.order.OrderService.placeOrder(OrderService.kt:55)', 4, '\tat a.b.c.b(SourceFile:8)'],
+        ['at com.example.order.OrderService.validate(OrderService.kt:40)', 5, '\tat a.b.c.a(SourceFile:5)']
+      ]);
+
+      expect(serialized.startLine).toBe(7);
+      expect(text.substring(serialized.start, serialized.end)).toBe('"a.b.d: retry\\n\\tat a.b.c.b(SourceFile:8)\\n\\tat a.b.c.c(SourceFile)"');
+      expect(serialized.parsedStackTrace.lines.map(line => [line.content.trim(), text.substring(line.start, line.end)])).toEqual([
+        ['com.example.order.OrderException: retry', 'a.b.d: retry'],
+        ['at com.example.order.OrderValidator.check(OrderValidator.java:30)', '\\tat a.b.c.b(SourceFile:8)'],
+        ['at com.example.order.OrderService.placeOrder(OrderService.kt:55)', '\\tat a.b.c.b(SourceFile:8)'],
+        ['at com.example.order.OrderService.cancel(OrderService.kt)', '\\tat a.b.c.c(SourceFile)']
+      ]);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { ShareStore } from '../src/shareStore';
+import worker, { Env } from '../src/index';
+import { MemoryKV } from './memoryKv';
+
+const STACK_TRACE = `java.lang.IllegalStateException: Invalid state
+	at com.example.OrderService.place(OrderService.java:42)`;
+
+describe('ShareStore', () => {
+  it('should store a view under a new id and load it back', async () => {
+    const storage = new MemoryKV();
+    const { id, view } = await ShareStore.save(storage, { text: STACK_TRACE, applicationPackages: ['com.example'] }, 3600, storage.now);
+
+    expect(ShareStore.isShareId(id)).toBe(true);
+    expect(storage.keys()).toEqual(['share:' + id]);
+    expect(new Date(view.expiresAt).getTime() - new Date(view.createdAt).getTime()).toBe(3600 * 1000);
+    expect(await ShareStore.load(storage, id)).toEqual(view);
+  });
+
+  it('should not load expired, unknown or malformed ids', async () => {
+    const storage = new MemoryKV();
+    const { id } = await ShareStore.save(storage, { text: STACK_TRACE }, 60);
+
+    storage.now += 61 * 1000;
+
+    expect(await ShareStore.load(storage, id)).toBeNull();
+    expect(await ShareStore.load(storage, 'AAAAAAAAAA')).toBeNull();
+    expect(await ShareStore.load(storage, '../share:x')).toBeNull();
+  });
+
+  it('should resolve the TTL within the KV minimum', () => {
+    expect(ShareStore.resolveTtl('86400')).toBe(86400);
+    expect(ShareStore.resolveTtl('10')).toBe(ShareStore.MIN_TTL_SECONDS);
+    expect(ShareStore.resolveTtl('forever')).toBe(ShareStore.DEFAULT_TTL_SECONDS);
+    expect(ShareStore.resolveTtl()).toBe(ShareStore.DEFAULT_TTL_SECONDS);
+  });
+
+  describe('/api/share', () => {
+    const fetchWorker = (env: Env, path: string, init?: RequestInit) =>
+      worker.fetch(new Request('https://stack.example' + path, init), env, {} as ExecutionContext);
+
+    it('should return a permalink that renders the shared view', async () => {
+      const env = { SHARES: new MemoryKV() as unknown as KVNamespace };
+      const response = await fetchWorker(env, '/api/share', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: STACK_TRACE + '\n</script>', logPrefixPattern: '^\\S+ ' })
+      });
+      const result = await response.json() as { url: string };
+
+      expect(response.status).toBe(201);
+      expect(result.url).toMatch(/^https:\/\/stack\.example\/s\/[A-Za-z0-9_-]{10}$/);
+
+      const page = await fetchWorker(env, new URL(result.url).pathname);
+      const html = await page.text();
+      const embedded = html.match(/<script id="sharedView" type="application\/json">(.*?)<\/script>/)!;
+
+      expect(page.status).toBe(200);
+      expect(JSON.parse(embedded[1])).toMatchObject({ text: STACK_TRACE + '\n</script>', logPrefixPattern: '^\\S+ ' });
+    });
+
+    it('should restore the parse options of a shared view', async () => {
+      const env = { SHARES: new MemoryKV() as unknown as KVNamespace };
+      const options = {
+        language: 'java',
+        reconstructElidedFrames: false,
+        sourceRepositories: [{ packagePrefix: 'com.example', host: 'github', url: 'https://github.com/acme/shop/' }]
+      };
+      const response = await fetchWorker(env, '/api/share', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: STACK_TRACE, ...options })
+      });
+      const result = await response.json() as { url: string };
+
+      const page = await fetchWorker(env, new URL(result.url).pathname);
+      const embedded = (await page.text()).match(/<script id="sharedView" type="application\/json">(.*?)<\/script>/)!;
+
+      expect(response.status).toBe(201);
+      expect(JSON.parse(embedded[1])).toMatchObject({ text: STACK_TRACE, ...options });
+    });
+
+    it('should reject invalid parse options', async () => {
+      const env = { SHARES: new MemoryKV() as unknown as KVNamespace };
+      const share = (options: object) => fetchWorker(env, '/api/share', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: STACK_TRACE, ...options })
+      });
+
+      expect((await share({ language: 'cobol' })).status).toBe(400);
+      expect((await share({ reconstructElidedFrames: 'yes' })).status).toBe(400);
+      expect((await share({ sourceRepositories: [{ host: 'svn' }] })).status).toBe(400);
+    });
+
+    it('should store redacted inputs when asked to redact', async () => {
+      const storage = new MemoryKV();
+      const text = [
+        'java.lang.IllegalStateException: No account for jane.doe@example.com',
+        '\tat com.example.OrderService.place(OrderService.java:42)',
+        JSON.stringify({ level: 'ERROR', stack_trace: 'java.io.IOException: Login failed for password=hunter2\n\tat com.example.Client.login(Client.java:7)' })
+      ].join('\n');
+      const response = await fetchWorker({ SHARES: storage as unknown as KVNamespace }, '/api/share', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text, redact: true })
+      });
+      const result = await response.json() as { id: string; redactions: object };
+      const view = await ShareStore.load(storage, result.id);
+
+      expect(result.redactions).toEqual({ email: 1, password: 1 });
+      expect(view!.redact).toBe(true);
+      expect(view!.text.split('\n')).toEqual([
+        'java.lang.IllegalStateException: No account for [REDACTED:email]',
+        '\tat com.example.OrderService.place(OrderService.java:42)',
+        JSON.stringify({ level: 'ERROR', stack_trace: 'java.io.IOException: Login failed for password=[REDACTED:password]\n\tat com.example.Client.login(Client.java:7)' })
+      ]);
+    });
+
+    it('should answer unknown links with 404 and report a missing namespace', async () => {
+      const page = await fetchWorker({ SHARES: new MemoryKV() as unknown as KVNamespace }, '/s/AAAAAAAAAA');
+      const response = await fetchWorker({}, '/api/share', { method: 'POST', body: JSON.stringify({ text: STACK_TRACE }) });
+
+      expect(page.status).toBe(404);
+      expect(await page.text()).toContain('<script id="sharedView" type="application/json">null</script>');
+      expect(response.status).toBe(503);
+    });
+  });
+});
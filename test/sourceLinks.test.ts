@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { StackTraceParser } from '../src/stackTraceParser';
+import { SourceLinkResolver, SourceRepository } from '../src/sourceLinks';
+
+const repositories: SourceRepository[] = [
+  { packagePrefix: 'com.example', host: 'github', url: 'https://github.com/acme/shop/' },
+  { packagePrefix: 'com.example.billing', host: 'gitlab', url: 'https://gitlab.com/acme/billing', ref: 'release/2.4', sourceRoot: 'billing-core/src/main/kotlin' },
+  { packagePrefix: 'org.acme', host: 'bitbucket', url: 'https://bitbucket.org/acme/commons', ref: '3f2a9c1' },
+  { packagePrefix: 'net.acme', host: 'template', url: 'https://code.acme.net/browse/{ref}/{path}?line={line}' }
+];
+
+function frame(text: string) {
+  return StackTraceParser.parseStackTrace(`java.lang.RuntimeException: boom\n\tat ${text}`).lines[1];
+}
+
+describe('SourceLinkResolver', () => {
+  it('should derive the path from the package and link to the line', () => {
+    expect(SourceLinkResolver.resolve(frame('com.example.order.OrderService$Validator.check(OrderService.java:42)'), repositories))
+      .toBe('https://github.com/acme/shop/blob/HEAD/src/main/java/com/example/order/OrderService.java#L42');
+  });
+
+  it('should use the most specific repository and the file name of Kotlin frames', () => {
+    expect(SourceLinkResolver.resolve(frame('com.example.billing.InvoiceUtilsKt.round(InvoiceUtils.kt:7)'), repositories))
+      .toBe('https://gitlab.com/acme/billing/-/blob/release/2.4/billing-core/src/main/kotlin/com/example/billing/InvoiceUtils.kt#L7');
+    expect(SourceLinkResolver.resolve(frame('org.acme.text.Slugs.slugify(Slugs.kt:19)'), repositories))
+      .toBe('https://bitbucket.org/acme/commons/src/3f2a9c1/src/main/kotlin/org/acme/text/Slugs.kt#lines-19');
+  });
+
+  it('should fill URL templates', () => {
+    expect(SourceLinkResolver.resolve(frame('net.acme.Main.run(Main.java:3)'), repositories))
+      .toBe('https://code.acme.net/browse/HEAD/src/main/java/net/acme/Main.java?line=3');
+  });
+
+  it('should not link frames without a repository, file or line', () => {
+    for (const text of [
+      'org.springframework.web.Dispatcher.handle(Dispatcher.java:10)',
+      'com.example.Foo.bar(Unknown Source)',
+      'com.example.Foo.bar(SourceFile:12)',
+      'com.example.Foo.bar(Native Method)'
+    ]) {
+      expect(SourceLinkResolver.resolve(frame(text), repositories)).toBeNull();
+    }
+  });
+
+  it('should ignore invalid configured repositories', () => {
+    const configured = SourceLinkResolver.parseRepositories(JSON.stringify([
+      repositories[0],
+      { packagePrefix: 'com.other', host: 'svn', url: 'https://svn.example.com' },
+      { packagePrefix: 'com.other', host: 'github', url: 'javascript:alert(1)' }
+    ]));
+
+    expect(configured).toEqual([repositories[0]]);
+    expect(SourceLinkResolver.parseRepositories('not json')).toEqual([]);
+  });
+
+  it('should render frame locations as links', () => {
+    const parsed = StackTraceParser.parseStackTrace(`java.lang.RuntimeException: boom
+\tat com.example.Foo.bar(Foo.java:10)
+\tat java.lang.Thread.run(Thread.java:833)`);
+    const html = StackTraceParser.formatAsHtml(parsed, { sourceRepositories: repositories });
+
+    expect(html).toContain('<a class="source-link" href="https://github.com/acme/shop/blob/HEAD/src/main/java/com/example/Foo.java#L10" target="_blank" rel="noopener noreferrer"><span class="location">Foo.java:10</span></a>');
+    expect(html).toContain('(<span class="location">Thread.java:833</span>)');
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { StackTraceParser } from '../src/stackTraceParser';
+import { StackTraceDiffer } from '../src/stackTraceDiff';
+import worker, { Env } from '../src/index';
+
+const production = `java.lang.RuntimeException: Order 42 failed
+\tat com.example.order.OrderService.place(OrderService.java:41)
+\tat com.example.order.OrderController.post(OrderController.java:20)
+\tat java.lang.Thread.run(Thread.java:833)
+Caused by: java.sql.SQLException: Connection closed
+\tat com.zaxxer.hikari.pool.ProxyConnection.checkClosed(ProxyConnection.java:515)
+\tat com.example.order.OrderRepository.save(OrderRepository.java:88)
+\t... 3 more`;
+
+const afterFix = `java.lang.RuntimeException: Order 43 failed
+    at com.example.order.OrderService.place(OrderService.java:44)
+    at com.example.order.OrderService.validate(OrderService.java:60)
+    at com.example.order.OrderController.post(OrderController.java:20)
+    at java.lang.Thread.run(Thread.java:833)
+Caused by: java.sql.SQLTransientConnectionException: Connection is not available
+    at com.example.order.OrderRepository.save(OrderRepository.java:88)
+    ... 4 more`;
+
+function diff(left: string, right: string) {
+  return StackTraceDiffer.diff(StackTraceParser.parseStackTrace(left), StackTraceParser.parseStackTrace(right));
+}
+
+describe('StackTraceDiffer', () => {
+  it('should report identical traces regardless of indentation and elided frame counts', () => {
+    const reformatted = production.replace(/\t/g, '    ').replace('... 3 more', '... 5 more');
+    const result = diff(production, reformatted);
+
+    expect(result.identical).toBe(true);
+    expect(result.throwables).toHaveLength(2);
+    expect(result.throwables[1].frames.every(frame => frame.change === 'unchanged')).toBe(true);
+  });
+
+  it('should align frames and mark added, removed and moved frames', () => {
+    const result = diff(production, afterFix);
+    const root = result.throwables[0];
+
+    expect(result.identical).toBe(false);
+    expect(root.change).toBe('changed');
+    expect(root.exceptionClassChanged).toBe(false);
+    expect(root.messageChanged).toBe(true);
+    expect(root.frames.map(frame => frame.change)).toEqual(['line_changed', 'added', 'unchanged', 'unchanged']);
+    expect(root.frames[0].left!.lineNumber).toBe(41);
+    expect(root.frames[0].right!.lineNumber).toBe(44);
+    expect(root.frames[1].right!.methodName).toBe('validate');
+    expect(result).toMatchObject({ addedFrames: 1, removedFrames: 1, changedLineNumbers: 1 });
+  });
+
+  it('should align traces of thousands of frames', () => {
+    const trace = (frame: (i: number) => string) =>
+      ['java.lang.StackOverflowError', ...Array.from({ length: 4000 }, (_, i) => `\tat ${frame(i)}(Walker.java:${i})`)].join('\n');
+    const left = trace(i => `com.example.Walker.step${i}`);
+    const right = trace(i => (i % 10 === 5 ? `com.example.Walker.jump${i}` : `com.example.Walker.step${i}`));
+
+    const result = diff(left, right);
+    const frames = result.throwables[0].frames;
+
+    expect(result.alignmentTruncated).toBe(false);
+    expect(frames.length).toBe(4400);
+    expect(frames.filter(frame => frame.change === 'unchanged').length).toBe(3600);
+    expect(frames.slice(4, 8).map(frame => [frame.change, (frame.left || frame.right)!.methodName])).toEqual([
+      ['unchanged', 'step4'],
+      ['removed', 'step5'],
+      ['added', 'jump5'],
+      ['unchanged', 'step6']
+    ]);
+  });
+
+  it('should bound the time spent aligning long traces with nothing in common', () => {
+    const trace = (method: string) =>
+      ['java.lang.StackOverflowError', ...Array.from({ length: 20000 }, (_, i) => `\tat com.example.Walker.${method}${i}(Walker.java:${i})`)].join('\n');
+
+    const start = Date.now();
+    const result = diff(trace('step'), trace('jump'));
+
+    expect(Date.now() - start).toBeLessThan(2000);
+    expect(result.alignmentTruncated).toBe(true);
+    expect(result).toMatchObject({ identical: false, addedFrames: 20000, removedFrames: 20000 });
+  });
+
+  it('should pair causes whose exception type changed', () => {
+    const cause = diff(production, afterFix).throwables[1];
+
+    expect(cause.change).toBe('changed');
+    expect(cause.exceptionClassChanged).toBe(true);
+    expect(cause.left!.exceptionClass).toBe('java.sql.SQLException');
+    expect(cause.right!.exceptionClass).toBe('java.sql.SQLTransientConnectionException');
+    expect(cause.frames.map(frame => frame.change)).toEqual(['removed', 'unchanged']);
+  });
+
+  it('should report causes only present on one side', () => {
+    const withoutCause = production.split('\nCaused by:')[0];
+    const result = diff(withoutCause, production);
+
+    expect(result.throwables.map(throwable => throwable.change)).toEqual(['unchanged', 'added']);
+    expect(result.throwables[1].left).toBeUndefined();
+    expect(result.addedFrames).toBe(2);
+  });
+
+  it('should render the diff side by side', () => {
+    const html = StackTraceDiffer.formatAsHtml(diff(production, afterFix));
+
+    expect(html).toContain('<div class="diff-row diff-frame diff-added"><div class="diff-cell diff-left diff-empty"></div>');
+    expect(html).toContain('(<span class="location">OrderService.java:<span class="diff-changed-text">41</span></span>)');
+    expect(html).toContain('Caused by: <span class="exception-text"><span class="diff-changed-text">java.sql.SQLException</span>: <span class="diff-changed-text">Connection closed</span></span>');
+    expect(html).toContain('<span class="diff-changed-text">Order 43 failed</span>');
+  });
+
+  describe('/api/diff', () => {
+    const postDiff = async (body: object) => {
+      const response = await worker.fetch(new Request('https://stack.example/api/diff', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ left: production, right: afterFix, ...body })
+      }), {} as Env, {} as ExecutionContext);
+      expect(response.status).toBe(200);
+      return await response.json() as any;
+    };
+
+    it('should parse both sides as the requested language', async () => {
+      const traceback = (line: number) =>
+        `Traceback (most recent call last):\n  File "/app/orders/service.py", line ${line}, in place\n    save(order)\nValueError: bad order`;
+
+      const detected = await postDiff({ left: traceback(41), right: traceback(44) });
+      const forced = await postDiff({ left: traceback(41), right: traceback(44), language: 'java' });
+
+      expect(detected.left.parsedStackTrace.language).toBe('python');
+      expect(detected.diff.changedLineNumbers).toBe(1);
+      expect(forced.left.parsedStackTrace.language).toBe('java');
+      expect(forced.right.parsedStackTrace.language).toBe('java');
+    });
+
+    it('should link frame locations to the requested source repositories', async () => {
+      const result = await postDiff({
+        sourceRepositories: [{ packagePrefix: 'com.example', host: 'github', url: 'https://github.com/acme/shop/' }]
+      });
+
+      expect(result.formattedHtml).toContain('<a class="source-link" href="https://github.com/acme/shop/blob/HEAD/src/main/java/com/example/order/OrderService.java#L41"');
+      expect(result.formattedHtml).toContain('(<span class="location">Thread.java:833</span>)');
+    });
+
+    it('should reject invalid source repositories', async () => {
+      const response = await worker.fetch(new Request('https://stack.example/api/diff', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ left: production, right: afterFix, sourceRepositories: [{ host: 'svn' }] })
+      }), {} as Env, {} as ExecutionContext);
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
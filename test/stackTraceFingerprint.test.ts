@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { StackTraceParser } from '../src/stackTraceParser';
+import { StackTraceFingerprinter } from '../src/stackTraceFingerprint';
+
+function fingerprintOf(stackTrace: string, options = {}) {
+  return StackTraceFingerprinter.fingerprint(StackTraceParser.parseStackTrace(stackTrace), options);
+}
+
+describe('StackTraceFingerprinter', () => {
+  describe('fingerprint', () => {
+    it('should produce the same hash for the same stack trace', () => {
+      const stackTrace = `java.lang.NullPointerException: Cannot invoke "String.length()" because "str" is null
+	at com.example.MyClass.myMethod(MyClass.java:25)
+	at com.example.Main.main(Main.java:10)`;
+
+      const first = fingerprintOf(stackTrace);
+      const second = fingerprintOf(stackTrace);
+
+      expect(first).not.toBeNull();
+      expect(first!.hash).toMatch(/^[0-9a-f]{16}$/);
+      expect(second!.hash).toBe(first!.hash);
+    });
+
+    it('should ignore volatile numbers, UUIDs and addresses in messages', () => {
+      const first = fingerprintOf(`java.lang.IllegalStateException: Order 1234 (3f2b8c1e-9d4a-4b7e-8f21-0c6d5e4a3b2f) failed at 0x7ffee4b0
+	at com.example.OrderService.place(OrderService.java:42)`);
+      const second = fingerprintOf(`java.lang.IllegalStateException: Order 98 (a1b2c3d4-e5f6-4711-8899-aabbccddeeff) failed at 0x1000
+	at com.example.OrderService.place(OrderService.java:42)`);
+
+      expect(second!.hash).toBe(first!.hash);
+      expect(first!.signature[0]).toBe('exception java.lang.IllegalStateException: Order <number> (<uuid>) failed at <address>');
+    });
+
+    it('should distinguish different messages and exception types', () => {
+      const frames = '\n\tat com.example.OrderService.place(OrderService.java:42)';
+
+      const base = fingerprintOf('java.lang.IllegalStateException: Order failed' + frames);
+      const otherMessage = fingerprintOf('java.lang.IllegalStateException: Order cancelled' + frames);
+      const otherType = fingerprintOf('java.lang.IllegalArgumentException: Order failed' + frames);
+
+      expect(otherMessage!.hash).not.toBe(base!.hash);
+      expect(otherType!.hash).not.toBe(base!.hash);
+      expect(fingerprintOf('java.lang.IllegalStateException: Order cancelled' + frames, { ignoreMessages: true })!.hash)
+        .toBe(fingerprintOf('java.lang.IllegalStateException: Order failed' + frames, { ignoreMessages: true })!.hash);
+    });
+
+    it('should ignore line numbers only when asked', () => {
+      const first = 'java.lang.RuntimeException: Failed\n\tat com.example.A.run(A.java:10)';
+      const second = 'java.lang.RuntimeException: Failed\n\tat com.example.A.run(A.java:12)';
+
+      expect(fingerprintOf(first)!.hash).not.toBe(fingerprintOf(second)!.hash);
+      expect(fingerprintOf(first, { ignoreLineNumbers: true })!.hash)
+        .toBe(fingerprintOf(second, { ignoreLineNumbers: true })!.hash);
+    });
+
+    it('should ignore ... N more counts', () => {
+      const first = `java.lang.RuntimeException: Failed
+	at com.example.A.run(A.java:10)
+Caused by: java.io.IOException: Broken pipe
+	at com.example.B.write(B.java:20)
+	... 25 more`;
+
+      expect(fingerprintOf(first.replace('25 more', '31 more'))!.hash).toBe(fingerprintOf(first)!.hash);
+    });
+
+    it('should ignore generated proxy and lambda suffixes', () => {
+      const first = `java.lang.RuntimeException: Failed
+	at com.sun.proxy.$Proxy123.save(Unknown Source)
+	at com.example.Service$$EnhancerBySpringCGLIB$$1a2b3c4d.save(<generated>)
+	at jdk.internal.reflect.GeneratedMethodAccessor45.invoke(Unknown Source)
+	at com.example.Service.lambda$save$0(Service.java:30)`;
+      const second = `java.lang.RuntimeException: Failed
+	at com.sun.proxy.$Proxy7.save(Unknown Source)
+	at com.example.Service$$EnhancerBySpringCGLIB$$9f8e7d6c.save(<generated>)
+	at jdk.internal.reflect.GeneratedMethodAccessor3.invoke(Unknown Source)
+	at com.example.Service.lambda$save$3(Service.java:30)`;
+
+      expect(fingerprintOf(second)!.hash).toBe(fingerprintOf(first)!.hash);
+    });
+
+    it('should return null when there is no stack trace', () => {
+      expect(fingerprintOf('Just some text')).toBeNull();
+    });
+  });
+
+  describe('normalizeClassName', () => {
+    it('should strip lambda and proxy identifiers', () => {
+      expect(StackTraceFingerprinter.normalizeClassName('com.example.Foo$$Lambda$14/0x0000000800c02a00')).toBe('com.example.Foo$$Lambda');
+      expect(StackTraceFingerprinter.normalizeClassName('jdk.proxy2.$Proxy45')).toBe('jdk.proxy.$Proxy');
+      expect(StackTraceFingerprinter.normalizeClassName('com.example.Order$HibernateProxy$x1y2z3')).toBe('com.example.Order$HibernateProxy$');
+      expect(StackTraceFingerprinter.normalizeClassName('com.example.Foo$1')).toBe('com.example.Foo$1');
+    });
+  });
+});
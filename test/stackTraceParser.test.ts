@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { StackTraceParser, StackTraceLine, ParsedStackTrace } from '../src/stackTraceParser';
+import { StackTraceParser, StackTraceLine, ParsedStackTrace, ThrowableNode } from '../src/stackTraceParser';
 
 describe('StackTraceParser', () => {
   describe('extractStackTrace', () => {
@@ -268,6 +268,76 @@ java.lang.RuntimeException: Regular error
     });
   });
 
+  describe('extractAllStackTraces', () => {
+    it('should extract every stack trace from a log excerpt', () => {
+      const input = `2024-08-21 10:30:45 [ERROR] First failure
+java.lang.IllegalStateException: First
+	at com.example.A.methodA(A.java:10)
+2024-08-21 10:30:46 [INFO] Still running
+2024-08-21 10:30:47 [INFO] Still running
+2024-08-21 10:30:48 [ERROR] Second failure
+java.lang.IllegalArgumentException: Second
+	at com.example.B.methodB(B.java:20)
+Caused by: java.io.IOException: Disk full
+	at com.example.C.methodC(C.java:30)
+`;
+      
+      const result = StackTraceParser.extractAllStackTraces(input);
+      
+      expect(result).toHaveLength(2);
+      expect(result[0].text).toBe('java.lang.IllegalStateException: First\n\tat com.example.A.methodA(A.java:10)');
+      expect(input.substring(result[0].start, result[0].end)).toBe(result[0].text);
+      expect(result[1].text).toContain('Caused by: java.io.IOException: Disk full');
+      expect(result[1].text).not.toContain('Second failure');
+      expect(input.substring(result[1].start, result[1].end)).toBe(result[1].text);
+    });
+
+    it('should split adjacent stack traces', () => {
+      const input = `java.lang.IllegalStateException: First
+	at com.example.A.methodA(A.java:10)
+java.lang.IllegalArgumentException: Second
+	at com.example.B.methodB(B.java:20)`;
+      
+      const result = StackTraceParser.extractAllStackTraces(input);
+      
+      expect(result.map(trace => trace.text.split('\n')[0])).toEqual([
+        'java.lang.IllegalStateException: First',
+        'java.lang.IllegalArgumentException: Second'
+      ]);
+    });
+
+    it('should extract every serialized stack trace from a JSON array', () => {
+      const input = `[
+  {"level": "ERROR", "exception": "java.lang.NullPointerException: First\\n\\tat com.example.A.methodA(A.java:10)"},
+  {"level": "INFO", "message": "Nothing to see"},
+  {"level": "ERROR", "exception": "java.lang.IllegalStateException: Second\\n\\tat com.example.B.methodB(B.java:20)"}
+]`;
+      
+      const result = StackTraceParser.extractAllStackTraces(input);
+      
+      expect(result).toHaveLength(2);
+      expect(result[0].text).toContain('java.lang.NullPointerException: First');
+      expect(result[1].text).toContain('java.lang.IllegalStateException: Second');
+      expect(input.substring(result[1].start, result[1].end)).toMatch(/^"java\.lang\.IllegalStateException.*"$/);
+    });
+
+    it('should combine serialized and plain stack traces in input order', () => {
+      const input = `java.lang.RuntimeException: Plain error
+	at com.example.Regular.method(Regular.java:10)
+{"error": "java.lang.NullPointerException: Serialized error\\n\\tat com.example.Serialized.method(Serialized.java:20)"}`;
+      
+      const result = StackTraceParser.extractAllStackTraces(input);
+      
+      expect(result).toHaveLength(2);
+      expect(result[0].text).toContain('Plain error');
+      expect(result[1].text).toContain('Serialized error');
+    });
+
+    it('should return an empty list for non-stack trace input', () => {
+      expect(StackTraceParser.extractAllStackTraces('Just some regular log messages')).toEqual([]);
+    });
+  });
+
   describe('parseStackTrace', () => {
     it('should parse simple stack trace correctly', () => {
       const stackTrace = `java.lang.NullPointerException: Cannot invoke "String.length()" because "str" is null
@@ -381,6 +451,381 @@ No stack trace here`;
     });
   });
 
+  describe('frame grammar', () => {
+    const parseFrame = (frame: string) => StackTraceParser.parseStackTrace(`java.lang.RuntimeException: Failed\n\tat ${frame}`).lines[1];
+
+    it('should parse constructors and static initializers', () => {
+      const constructor = parseFrame('com.foo.Bar.<init>(Bar.java:10)');
+      expect(constructor.type).toBe('at');
+      expect(constructor.className).toBe('com.foo.Bar');
+      expect(constructor.methodName).toBe('<init>');
+      expect(constructor.lineNumber).toBe(10);
+      
+      const initializer = parseFrame('com.foo.Bar.<clinit>(Bar.java:3)');
+      expect(initializer.type).toBe('at');
+      expect(initializer.methodName).toBe('<clinit>');
+    });
+
+    it('should parse non-ASCII identifiers', () => {
+      const frame = parseFrame('com.exemple.Données.récupérer(Données.java:42)');
+      expect(frame.type).toBe('at');
+      expect(frame.className).toBe('com.exemple.Données');
+      expect(frame.methodName).toBe('récupérer');
+    });
+
+    it('should parse module names with and without versions', () => {
+      const jdkFrame = parseFrame('java.base/java.lang.Thread.run(Thread.java:833)');
+      expect(jdkFrame.moduleName).toBe('java.base');
+      expect(jdkFrame.moduleVersion).toBeUndefined();
+      expect(jdkFrame.classLoaderName).toBeUndefined();
+      expect(jdkFrame.className).toBe('java.lang.Thread');
+      
+      const versioned = parseFrame('acme@2.1/org.acme.Lib.test(Lib.java:80)');
+      expect(versioned.moduleName).toBe('acme');
+      expect(versioned.moduleVersion).toBe('2.1');
+      expect(versioned.className).toBe('org.acme.Lib');
+    });
+
+    it('should parse class loader names', () => {
+      const full = parseFrame('com.foo.loader/foo@9.0/com.foo.Main.run(Main.java:101)');
+      expect(full.classLoaderName).toBe('com.foo.loader');
+      expect(full.moduleName).toBe('foo');
+      expect(full.moduleVersion).toBe('9.0');
+      expect(full.className).toBe('com.foo.Main');
+      expect(full.methodName).toBe('run');
+      
+      const unnamedModule = parseFrame('app//com.foo.bar.App.run(App.java:12)');
+      expect(unnamedModule.classLoaderName).toBe('app');
+      expect(unnamedModule.moduleName).toBeUndefined();
+      expect(unnamedModule.className).toBe('com.foo.bar.App');
+    });
+
+    it('should keep hidden class suffixes in the class name', () => {
+      const frame = parseFrame('com.foo.Bar$$Lambda/0x0000000801001234.run(Unknown Source)');
+      expect(frame.type).toBe('at');
+      expect(frame.moduleName).toBeUndefined();
+      expect(frame.className).toBe('com.foo.Bar$$Lambda/0x0000000801001234');
+      expect(frame.methodName).toBe('run');
+      
+      const withModule = parseFrame('java.base/java.lang.invoke.LambdaForm$DMH/0x0000000800c05000.invokeStatic(LambdaForm$DMH)');
+      expect(withModule.moduleName).toBe('java.base');
+      expect(withModule.className).toBe('java.lang.invoke.LambdaForm$DMH/0x0000000800c05000');
+    });
+
+    it('should model native, unknown and line-less locations', () => {
+      const nativeFrame = parseFrame('java.base/jdk.internal.reflect.NativeMethodAccessorImpl.invoke0(Native Method)');
+      expect(nativeFrame.isNative).toBe(true);
+      expect(nativeFrame.isUnknownSource).toBe(false);
+      expect(nativeFrame.lineNumber).toBeUndefined();
+      
+      const unknown = parseFrame('com.foo.Bar.baz(Unknown Source)');
+      expect(unknown.isNative).toBe(false);
+      expect(unknown.isUnknownSource).toBe(true);
+      
+      const noLine = parseFrame('com.foo.Bar.baz(Bar.java)');
+      expect(noLine.fileName).toBe('Bar.java');
+      expect(noLine.lineNumber).toBeUndefined();
+      expect(noLine.isUnknownSource).toBe(false);
+    });
+
+    it('should render the module prefix in HTML', () => {
+      const html = StackTraceParser.formatAsHtml(StackTraceParser.parseStackTrace('java.lang.RuntimeException: Failed\n\tat java.base/java.lang.Thread.run(Thread.java:833)'));
+      expect(html).toContain('<span class="module-name">java.base/</span><span class="method-name">java.lang.Thread.run</span>');
+    });
+
+    it('should extract stack traces that only contain new frame forms', () => {
+      const input = `Log line
+java.lang.IllegalStateException: Boom
+	at com.foo.Bar.<init>(Bar.java:10)
+	at java.base/java.lang.Thread.run(Thread.java:833)
+Another log line`;
+      
+      const result = StackTraceParser.extractStackTrace(input);
+      expect(result).toContain('at com.foo.Bar.<init>(Bar.java:10)');
+      expect(result).toContain('at java.base/java.lang.Thread.run(Thread.java:833)');
+      expect(result).not.toContain('Log line');
+    });
+  });
+
+  describe('buildThrowableTree', () => {
+    it('should build root and cause chain', () => {
+      const stackTrace = `Exception in thread "main" java.lang.RuntimeException: Database connection failed
+	at com.example.DatabaseService.connect(DatabaseService.java:45)
+	at com.example.Main.main(Main.java:10)
+Caused by: java.sql.SQLException: Connection timeout
+	at com.mysql.cj.jdbc.ConnectionImpl.connect(ConnectionImpl.java:123)
+	... 2 more
+Caused by: java.net.SocketTimeoutException
+	at java.base/java.net.Socket.connect(Socket.java:666)
+	... 3 more`;
+      
+      const root = StackTraceParser.buildThrowableTree(StackTraceParser.parseStackTrace(stackTrace));
+      
+      expect(root).not.toBeNull();
+      expect(root!.kind).toBe('root');
+      expect(root!.threadName).toBe('main');
+      expect(root!.exceptionClass).toBe('java.lang.RuntimeException');
+      expect(root!.message).toBe('Database connection failed');
+      expect(root!.frames).toHaveLength(2);
+      expect(root!.moreCount).toBe(0);
+      
+      const cause = root!.cause!;
+      expect(cause.kind).toBe('cause');
+      expect(cause.exceptionClass).toBe('java.sql.SQLException');
+      expect(cause.frames.map(frame => frame.className)).toEqual(['com.mysql.cj.jdbc.ConnectionImpl']);
+      expect(cause.moreCount).toBe(2);
+      
+      const rootCause = cause.cause!;
+      expect(rootCause.exceptionClass).toBe('java.net.SocketTimeoutException');
+      expect(rootCause.message).toBeUndefined();
+      expect(rootCause.moreCount).toBe(3);
+      expect(rootCause.cause).toBeUndefined();
+    });
+
+    it('should attach suppressed exceptions and their causes', () => {
+      const stackTrace = `java.lang.Exception: Main exception
+	at com.example.Test.method(Test.java:10)
+	Suppressed: java.lang.RuntimeException: Suppressed exception 1
+		at com.example.Test.cleanup(Test.java:20)
+		... 1 more
+	Caused by: java.io.IOException: Disk full
+		at com.example.Test.write(Test.java:25)
+		... 2 more
+	Suppressed: java.io.IOException: Suppressed exception 2
+		at com.example.Test.close(Test.java:30)
+		... 1 more
+Caused by: java.lang.IllegalStateException: Bad state
+	at com.example.Test.check(Test.java:40)
+	... 1 more
+	Suppressed: java.lang.IllegalArgumentException: Bad argument
+		at com.example.Test.validate(Test.java:50)
+		... 2 more`;
+      
+      const root = StackTraceParser.buildThrowableTree(StackTraceParser.parseStackTrace(stackTrace))!;
+      
+      expect(root.frames).toHaveLength(1);
+      expect(root.suppressed.map(node => node.message)).toEqual(['Suppressed exception 1', 'Suppressed exception 2']);
+      
+      const firstSuppressed = root.suppressed[0];
+      expect(firstSuppressed.kind).toBe('suppressed');
+      expect(firstSuppressed.frames).toHaveLength(1);
+      expect(firstSuppressed.cause?.exceptionClass).toBe('java.io.IOException');
+      expect(firstSuppressed.cause?.message).toBe('Disk full');
+      expect(firstSuppressed.cause?.moreCount).toBe(2);
+      expect(root.suppressed[1].cause).toBeUndefined();
+      
+      const cause = root.cause!;
+      expect(cause.exceptionClass).toBe('java.lang.IllegalStateException');
+      expect(cause.frames).toHaveLength(1);
+      expect(cause.suppressed).toHaveLength(1);
+      expect(cause.suppressed[0].exceptionClass).toBe('java.lang.IllegalArgumentException');
+    });
+
+    it('should collect multi-line messages before the first frame', () => {
+      const stackTrace = `java.sql.SQLException: Query failed
+SELECT * FROM users
+	at com.example.Dao.query(Dao.java:12)`;
+      
+      const root = StackTraceParser.buildThrowableTree(StackTraceParser.parseStackTrace(stackTrace))!;
+      
+      expect(root.message).toBe('Query failed\nSELECT * FROM users');
+      expect(root.frames).toHaveLength(1);
+    });
+
+    it('should expose exception class and message on header lines', () => {
+      const result = StackTraceParser.parseStackTrace('Caused by: java.io.IOException: File not found');
+      
+      expect(result.lines[0].exceptionClass).toBe('java.io.IOException');
+      expect(result.lines[0].message).toBe('File not found');
+    });
+
+    it('should return null when there is no throwable', () => {
+      const root = StackTraceParser.buildThrowableTree(StackTraceParser.parseStackTrace('Just some text'));
+      expect(root).toBeNull();
+    });
+  });
+
+  describe('reconstructElidedFrames', () => {
+    const stackTrace = `java.lang.RuntimeException: Service unavailable
+	at com.example.service.UserService.getUser(UserService.java:45)
+	at com.example.controller.UserController.handleGetUser(UserController.java:25)
+	at com.example.framework.RequestHandler.handle(RequestHandler.java:100)
+Caused by: java.net.ConnectException: Connection refused
+	at com.example.database.ConnectionPool.getConnection(ConnectionPool.java:89)
+	... 2 more
+Caused by: java.io.IOException: Socket closed
+	at com.example.database.Socket.open(Socket.java:12)
+	... 3 more`;
+
+    it('should parse the count of more lines', () => {
+      const result = StackTraceParser.parseStackTrace(stackTrace);
+      
+      expect(result.lines.filter(line => line.type === 'more').map(line => line.moreCount)).toEqual([2, 3]);
+    });
+
+    it('should not add frames unless asked', () => {
+      const result = StackTraceParser.parseStackTrace(stackTrace);
+      
+      expect(result.lines.some(line => line.inherited)).toBe(false);
+    });
+
+    it('should fill elided frames in from the enclosing throwable', () => {
+      const result = StackTraceParser.parseStackTrace(stackTrace, { reconstructElidedFrames: true });
+      const root = StackTraceParser.buildThrowableTree(result)!;
+      
+      const cause = root.cause!;
+      expect(cause.frames.map(frame => frame.methodName)).toEqual(['getConnection', 'handleGetUser', 'handle']);
+      expect(cause.frames.map(frame => frame.inherited === true)).toEqual([false, true, true]);
+      
+      // The innermost cause inherits frames its enclosing cause inherited itself
+      const rootCause = cause.cause!;
+      expect(rootCause.frames.map(frame => frame.methodName)).toEqual(['open', 'getConnection', 'handleGetUser', 'handle']);
+      
+      const moreIndex = result.lines.findIndex(line => line.type === 'more');
+      expect(result.lines[moreIndex + 1].inherited).toBe(true);
+      expect(result.lines[moreIndex + 1].content).toBe('\tat com.example.controller.UserController.handleGetUser(UserController.java:25)');
+    });
+
+    it('should take frames from the throwable a suppressed exception belongs to', () => {
+      const result = StackTraceParser.parseStackTrace(`java.lang.Exception: Main exception
+	at com.example.Test.method(Test.java:10)
+	at com.example.Test.main(Test.java:5)
+	Suppressed: java.lang.RuntimeException: Suppressed exception
+		at com.example.Test.cleanup(Test.java:20)
+		... 1 more`, { reconstructElidedFrames: true });
+      
+      const inherited = result.lines.filter(line => line.inherited);
+      expect(inherited).toHaveLength(1);
+      expect(inherited[0].methodName).toBe('main');
+      expect(inherited[0].indent).toBe(2);
+    });
+
+    it('should render reconstructed frames as a collapsed group', () => {
+      const html = StackTraceParser.formatAsHtml(StackTraceParser.parseStackTrace(stackTrace, { reconstructElidedFrames: true }));
+      
+      expect(html).toContain('<details class="inherited-frames"><summary class="stacktrace-more">');
+      expect(html).toContain('... 2 more</span></summary>');
+      expect(html).toMatch(/class="stacktrace-at[^"]* stacktrace-inherited"/);
+      expect(html).not.toContain('<details open');
+    });
+
+    it('should handle cause chains tens of thousands of throwables deep', () => {
+      const chain = (indent: string) => Array.from({ length: 20_000 }, (_, i) => [
+        `${indent}Caused by: java.lang.IllegalStateException: level ${i + 1}`,
+        `${indent}\tat com.example.Chain.level${i + 1}(Chain.java:${i + 1})`,
+        `${indent}\t... 1 more`
+      ]).flat();
+      const root = ['java.lang.RuntimeException: root', '\tat com.example.Main.main(Main.java:5)'];
+
+      const parsed = StackTraceParser.parseStackTrace([...root, ...chain('')].join('\n'), { reconstructElidedFrames: true });
+      const inherited = parsed.lines.filter(line => line.inherited);
+      expect(inherited.length).toBe(20_000);
+      expect(inherited.every(frame => frame.methodName === 'main')).toBe(true);
+
+      // Suppressed throwables are printed with their causes
+      const suppressed = ['\tSuppressed: java.io.IOException: close', '\t\tat com.example.Main.close(Main.java:9)', '\t\t... 1 more'];
+      const markdown = StackTraceParser.formatAsMarkdown(StackTraceParser.parseStackTrace([...root, ...suppressed, ...chain('\t')].join('\n')));
+      expect(markdown).toContain('\tCaused by: java.lang.IllegalStateException: level 20000\n\t\tat com.example.Chain.level20000(Chain.java:20000)\n\t\t... 1 more\n```');
+    });
+  });
+
+  describe('formatAsMarkdown', () => {
+    const stackTrace = `Exception in thread "main" java.lang.RuntimeException: Service <unavailable>
+	at com.example.service.UserService.getUser(UserService.java:45)
+	at org.springframework.web.servlet.FrameworkServlet.service(FrameworkServlet.java:883)
+	Suppressed: java.lang.IllegalStateException: Pool is shutting down
+		at com.example.database.ConnectionPool.checkState(ConnectionPool.java:120)
+Caused by: java.net.ConnectException: Connection refused
+	at java.base/java.net.Socket.connect(Socket.java:666)
+	at com.example.service.UserService.getUser(UserService.java:45)
+	... 1 more`;
+    
+    it('should render a heading, the trace and a section per cause', () => {
+      const markdown = StackTraceParser.formatAsMarkdown(StackTraceParser.parseStackTrace(stackTrace));
+      
+      expect(markdown.startsWith('## java.lang.RuntimeException: Service &lt;unavailable&gt;\n\n```\nException in thread "main"')).toBe(true);
+      expect(markdown).toContain('\tSuppressed: java.lang.IllegalStateException: Pool is shutting down\n\t\tat com.example.database.ConnectionPool.checkState(ConnectionPool.java:120)\n```');
+      expect(markdown).toContain('<details>\n<summary>Caused by: java.net.ConnectException: Connection refused</summary>\n\n```\nCaused by: java.net.ConnectException: Connection refused\n\tat java.base/java.net.Socket.connect(Socket.java:666)');
+      expect(markdown).toContain('\t... 1 more\n```\n\n</details>');
+    });
+    
+    it('should list distinct application frames', () => {
+      const parsed = StackTraceParser.parseStackTrace(stackTrace, { applicationPackages: ['com.example'], reconstructElidedFrames: true });
+      const markdown = StackTraceParser.formatAsMarkdown(parsed);
+      
+      expect(markdown).toContain([
+        '### Application frames',
+        '',
+        '- `com.example.service.UserService.getUser(UserService.java:45)`',
+        '- `com.example.database.ConnectionPool.checkState(ConnectionPool.java:120)`'
+      ].join('\n'));
+      // Reconstructed frames are not repeated in the trace
+      expect(markdown.match(/FrameworkServlet\.service/g)).toHaveLength(1);
+    });
+    
+    it('should use a longer fence for messages containing backticks', () => {
+      const markdown = StackTraceParser.formatAsMarkdown(StackTraceParser.parseStackTrace('java.lang.IllegalArgumentException: bad ```value```\n\tat com.example.A.run(A.java:1)'));
+      
+      expect(markdown).toContain('\n````\njava.lang.IllegalArgumentException: bad ```value```\n');
+    });
+
+    it('should keep backticked Kotlin names inside their code span', () => {
+      const markdown = StackTraceParser.formatAsMarkdown(StackTraceParser.parseStackTrace([
+        'java.lang.AssertionError: expected 400',
+        '\tat com.example.OrderTest.`rejects ``empty`` cart`(OrderTest.kt:12)'
+      ].join('\n')));
+
+      expect(markdown).toContain('### Application frames\n\n- ```com.example.OrderTest.`rejects ``empty`` cart`(OrderTest.kt:12)```');
+    });
+  });
+
+  describe('input locations', () => {
+    it('should locate plain stack trace lines in the input', () => {
+      const input = `2024-08-21 10:30:45 [ERROR] Request failed
+java.lang.IllegalStateException: Order not found
+	at com.example.OrderService.find(OrderService.java:42)
+	at com.example.OrderController.get(OrderController.java:17)`;
+      
+      const [extracted] = StackTraceParser.extractAllStackTraces(input);
+      const parsed = StackTraceParser.parseStackTrace(extracted.text, {}, extracted.lineLocations);
+      
+      expect(extracted).toMatchObject({ startLine: 2, endLine: 4 });
+      expect(parsed.lines.map(line => line.inputLine)).toEqual([2, 3, 4]);
+      parsed.lines.forEach(line => {
+        expect(input.substring(line.start!, line.end!)).toBe(line.content);
+      });
+    });
+    
+    it('should map serialized lines through escape sequences', () => {
+      const input = `{"level": "ERROR",
+ "exception": "java.lang.RuntimeException: \\"quoted\\" \\u00e9\\n\\tat com.example.A.run(A.java:10)\\r\\n\\tat com.example.B.run(B.java:20)"}`;
+      
+      const [extracted] = StackTraceParser.extractAllStackTraces(input);
+      const parsed = StackTraceParser.parseStackTrace(extracted.text, {}, extracted.lineLocations);
+      
+      expect(extracted).toMatchObject({ serialized: true, startLine: 2, endLine: 2 });
+      expect(parsed.lines[0].message).toBe('"quoted" é');
+      expect(parsed.lines.map(line => input.substring(line.start!, line.end!))).toEqual([
+        'java.lang.RuntimeException: \\"quoted\\" \\u00e9',
+        '\\tat com.example.A.run(A.java:10)',
+        '\\tat com.example.B.run(B.java:20)'
+      ]);
+      expect(parsed.lines.every(line => line.inputLine === 2)).toBe(true);
+    });
+    
+    it('should decode escaped backslashes in a single pass', () => {
+      const input = '{"exception": "java.lang.IllegalArgumentException: C:\\\\new\\n\\tat com.example.A.run(A.java:10)"}';
+      
+      expect(StackTraceParser.extractStackTrace(input).split('\n')[0]).toBe('java.lang.IllegalArgumentException: C:\\new');
+    });
+    
+    it('should locate lines relative to the text without locations', () => {
+      const parsed = StackTraceParser.parseStackTrace('java.lang.RuntimeException\n\n\tat com.example.A.run(A.java:10)');
+      
+      expect(parsed.lines[1]).toMatchObject({ start: 28, end: 60, inputLine: 3 });
+    });
+  });
+
   describe('integration tests', () => {
     it('should extract and parse complex stack trace', () => {
       const input = `
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { StackTraceParser } from '../src/stackTraceParser';
+import { StackTraceSummarizer } from '../src/stackTraceSummary';
+
+describe('StackTraceSummarizer', () => {
+  describe('summarize', () => {
+    it('should summarize the innermost cause and its first application frame', () => {
+      const parsed = StackTraceParser.parseStackTrace(`java.lang.RuntimeException: Service unavailable
+	at com.example.service.UserService.getUser(UserService.java:45)
+	at com.example.controller.UserController.handleGetUser(UserController.java:25)
+Caused by: java.sql.SQLException: Cannot get connection
+	at com.example.database.ConnectionPool.borrow(ConnectionPool.java:70)
+	... 2 more
+Caused by: java.net.ConnectException: Connection refused
+	at java.base/java.net.Socket.connect(Socket.java:666)
+	at com.example.database.ConnectionPool.getConnection(ConnectionPool.java:89)
+	... 3 more`, { applicationPackages: ['com.example'] });
+
+      const summary = StackTraceSummarizer.summarize(parsed)!;
+
+      expect(summary.rootCause).toEqual({ exceptionClass: 'java.net.ConnectException', message: 'Connection refused' });
+      expect(summary.culpritFrame?.methodName).toBe('getConnection');
+      expect(summary.text).toBe('ConnectException: Connection refused at ConnectionPool.getConnection(ConnectionPool.java:89)');
+    });
+
+    it('should fall back to enclosing throwables when the root cause has no application frame', () => {
+      const parsed = StackTraceParser.parseStackTrace(`java.lang.IllegalStateException: Read failed
+	at com.example.io.Reader.read(Reader.java:12)
+Caused by: java.io.IOException
+	at java.base/java.io.FileInputStream.readBytes(Native Method)
+	... 1 more`, { applicationPackages: ['com.example'] });
+
+      const summary = StackTraceSummarizer.summarize(parsed)!;
+
+      expect(summary.rootCause.exceptionClass).toBe('java.io.IOException');
+      expect(summary.text).toBe('IOException at Reader.read(Reader.java:12)');
+    });
+
+    it('should summarize a trace without application frames', () => {
+      const parsed = StackTraceParser.parseStackTrace(`java.lang.OutOfMemoryError: Java heap space
+	at java.base/java.util.Arrays.copyOf(Arrays.java:3512)`);
+
+      expect(StackTraceSummarizer.summarize(parsed)!.text).toBe('OutOfMemoryError: Java heap space');
+    });
+
+    it('should return null when there is no throwable', () => {
+      expect(StackTraceSummarizer.summarize(StackTraceParser.parseStackTrace('Just some text'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { StackTraceParser } from '../src/stackTraceParser';
+import { ThreadDumpParser } from '../src/threadDump';
+
+const threadDump = `2024-08-21 10:30:45
+Full thread dump OpenJDK 64-Bit Server VM (17.0.8+7 mixed mode, sharing):
+
+"order-worker" #21 prio=5 os_prio=0 cpu=12.30ms elapsed=35.12s tid=0x00007f2c4c0f1000 nid=0x5e03 waiting for monitor entry  [0x00007f2c2d7fe000]
+   java.lang.Thread.State: BLOCKED (on object monitor)
+\tat com.example.inventory.StockService.reserve(StockService.java:58)
+\t- waiting to lock <0x000000070f5a1b28> (a com.example.inventory.Stock)
+\tat com.example.order.OrderService.place(OrderService.java:41)
+\t- locked <0x000000070f5a1a10> (a com.example.order.Order)
+\tat java.lang.Thread.run(java.base@17.0.8/Thread.java:833)
+
+"stock-worker" #22 prio=5 os_prio=0 cpu=10.02ms elapsed=35.11s tid=0x00007f2c4c0f2800 nid=0x5e04 waiting on condition  [0x00007f2c2d6fd000]
+   java.lang.Thread.State: WAITING (parking)
+\tat jdk.internal.misc.Unsafe.park(java.base@17.0.8/Native Method)
+\t- parking to wait for  <0x000000070f5a1c00> (a java.util.concurrent.locks.ReentrantLock$NonfairSync)
+\tat com.example.order.OrderService.cancel(OrderService.java:77)
+\t- waiting to lock <0x000000070f5a1a10> (a com.example.order.Order)
+\tat com.example.inventory.StockService.restock(StockService.java:92)
+\t- locked <0x000000070f5a1b28> (a com.example.inventory.Stock)
+\tat java.lang.Thread.run(java.base@17.0.8/Thread.java:833)
+
+"pool-1-thread-1" #30 daemon prio=5 os_prio=0 cpu=1.02ms elapsed=30.50s tid=0x00007f2c4c1a3000 nid=0x5e10 in Object.wait()  [0x00007f2c2d5fc000]
+   java.lang.Thread.State: WAITING (on object monitor)
+\tat java.lang.Object.wait(java.base@17.0.8/Native Method)
+\t- waiting on <0x000000070f6c2e40> (a java.util.LinkedList)
+\tat com.example.queue.Jobs.next(Jobs.java:20)
+\t- locked <0x000000070f6c2e40> (a java.util.LinkedList)
+
+"pool-1-thread-2" #31 daemon prio=5 os_prio=0 cpu=0.98ms elapsed=30.50s tid=0x00007f2c4c1a4800 nid=0x5e11 in Object.wait()  [0x00007f2c2d4fb000]
+   java.lang.Thread.State: WAITING (on object monitor)
+\tat java.lang.Object.wait(java.base@17.0.8/Native Method)
+\t- waiting on <0x000000070f6c2e40> (a java.util.LinkedList)
+\tat com.example.queue.Jobs.next(Jobs.java:20)
+\t- locked <0x000000070f6c2e40> (a java.util.LinkedList)
+
+   Locked ownable synchronizers:
+\t- <0x000000070f5a1c00> (a java.util.concurrent.locks.ReentrantLock$NonfairSync)
+
+"VM Thread" os_prio=0 cpu=5.12ms elapsed=35.20s tid=0x00007f2c4c0a1000 nid=0x5df9 runnable
+
+JNI global refs: 15, weak refs: 0`;
+
+describe('ThreadDumpParser', () => {
+  it('should recognize thread dump line types', () => {
+    const lines = StackTraceParser.parseStackTrace(threadDump).lines;
+
+    expect(lines.find(line => line.type === 'thread')).toMatchObject({
+      threadName: 'order-worker',
+      threadId: 21,
+      daemon: false,
+      priority: 5
+    });
+    expect(lines.find(line => line.type === 'thread_state')).toMatchObject({ threadState: 'BLOCKED' });
+    expect(lines.find(line => line.type === 'lock')).toMatchObject({
+      lockAction: 'waiting_to_lock',
+      lockAddress: '0x000000070f5a1b28',
+      lockClassName: 'com.example.inventory.Stock'
+    });
+  });
+
+  it('should parse every thread with state, frames and monitors', () => {
+    const dump = ThreadDumpParser.parseThreadDump(threadDump);
+
+    expect(dump.threads.map(thread => thread.name)).toEqual(['order-worker', 'stock-worker', 'pool-1-thread-1', 'pool-1-thread-2', 'VM Thread']);
+    expect(dump.threads[2]).toMatchObject({ id: 30, daemon: true, state: 'WAITING' });
+    expect(dump.threads[1].frames).toHaveLength(4);
+    expect(dump.threads[1].waitingFor).toEqual({ address: '0x000000070f5a1c00', className: 'java.util.concurrent.locks.ReentrantLock$NonfairSync' });
+    // Monitors released by Object.wait() are not held
+    expect(dump.threads[2].heldLocks).toEqual([]);
+    // Ownable synchronizers count as held locks
+    expect(dump.threads[3].heldLocks.map(lock => lock.address)).toEqual(['0x000000070f5a1c00']);
+    expect(dump.stateCounts).toEqual({ BLOCKED: 1, WAITING: 3, UNKNOWN: 1 });
+  });
+
+  it('should group threads with identical stacks', () => {
+    const dump = ThreadDumpParser.parseThreadDump(threadDump);
+
+    expect(dump.groups[0].threadNames).toEqual(['pool-1-thread-1', 'pool-1-thread-2']);
+    expect(dump.groups).toHaveLength(4);
+  });
+
+  it('should report lock cycles as deadlocks', () => {
+    const dump = ThreadDumpParser.parseThreadDump(threadDump.replace(
+      '\t- parking to wait for  <0x000000070f5a1c00> (a java.util.concurrent.locks.ReentrantLock$NonfairSync)\n',
+      ''
+    ));
+
+    expect(dump.deadlocks).toHaveLength(1);
+    expect(dump.deadlocks[0].threadNames).toEqual(['order-worker', 'stock-worker']);
+    expect(dump.deadlocks[0].cycle[0]).toEqual({
+      threadName: 'order-worker',
+      waitingFor: { address: '0x000000070f5a1b28', className: 'com.example.inventory.Stock' },
+      heldBy: 'stock-worker'
+    });
+  });
+
+  it('should follow the innermost wait only', () => {
+    // stock-worker parks on a synchronizer owned by pool-1-thread-2, which waits for nothing
+    expect(ThreadDumpParser.parseThreadDump(threadDump).deadlocks).toEqual([]);
+  });
+
+  it('should render grouped threads and deadlocks as HTML', () => {
+    const dump = ThreadDumpParser.parseThreadDump(threadDump.replace(
+      '\t- parking to wait for  <0x000000070f5a1c00> (a java.util.concurrent.locks.ReentrantLock$NonfairSync)\n',
+      ''
+    ));
+    const html = ThreadDumpParser.formatAsHtml(dump);
+
+    expect(html).toContain('Deadlock between 2 threads');
+    expect(html).toContain('<span class="thread-group-count">2×</span>');
+    expect(html).toContain('<span class="thread-name">"order-worker"</span>');
+    expect(html).toContain('class="stacktrace-lock lock-waiting_to_lock"');
+    expect(html).toContain('<span class="thread-state thread-state-blocked">BLOCKED</span>');
+  });
+
+  it('should detect thread dumps', () => {
+    expect(ThreadDumpParser.isThreadDump(threadDump)).toBe(true);
+    expect(ThreadDumpParser.isThreadDump('java.lang.RuntimeException: boom\n\tat com.example.Foo.bar(Foo.java:1)')).toBe(false);
+  });
+});